@@ -0,0 +1,77 @@
+import { distanceKm, estimateLocation, maxDistanceKm } from './geo.js';
+import type { ProbeSample } from './measure.js';
+
+// Probes further away than this cannot tell neighbouring sites apart.
+export const MAX_SITE_RTT_MS = 20;
+
+export interface AnycastSiteProbe {
+  city: string;
+  country: string;
+  state?: string;
+  asn: number;
+  network: string;
+  rtt: number;
+}
+
+export interface AnycastSite {
+  city: string;
+  country: string;
+  state?: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  minRtt: number;
+  probes: AnycastSiteProbe[];
+}
+
+// Two probes can only have reached the same instance if their RTT disks overlap.
+function compatible(a: ProbeSample, b: ProbeSample): boolean {
+  return distanceKm(a, b) <= maxDistanceKm(a.rtt) + maxDistanceKm(b.rtt);
+}
+
+function closestPerProbe(samples: ProbeSample[]): ProbeSample[] {
+  const byLocation = new Map<string, ProbeSample>();
+
+  for (const s of samples) {
+    const key = `${s.latitude},${s.longitude},${s.asn}`;
+    const existing = byLocation.get(key);
+    if (!existing || s.rtt < existing.rtt) {
+      byLocation.set(key, s);
+    }
+  }
+
+  return [...byLocation.values()];
+}
+
+// Greedy clustering in the spirit of iGreedy: the fastest remaining probe opens a site and every probe
+// whose disk is compatible with all members joins it. Disjoint disks prove distinct instances.
+export function mapAnycastSites(samples: ProbeSample[], maxRtt: number = MAX_SITE_RTT_MS): AnycastSite[] {
+  const candidates = closestPerProbe(samples)
+    .filter(s => s.rtt <= maxRtt && Number.isFinite(s.latitude) && Number.isFinite(s.longitude))
+    .sort((a, b) => a.rtt - b.rtt);
+  const clusters: ProbeSample[][] = [];
+
+  for (const sample of candidates) {
+    const cluster = clusters.find(members => members.every(m => compatible(m, sample)));
+    if (cluster) {
+      cluster.push(sample);
+    } else {
+      clusters.push([sample]);
+    }
+  }
+
+  return clusters.map(members => {
+    const anchor = members[0];
+    const estimate = estimateLocation(members)!;
+    return {
+      city: anchor.city,
+      country: anchor.country,
+      state: anchor.state,
+      latitude: estimate.latitude,
+      longitude: estimate.longitude,
+      radiusKm: estimate.radiusKm,
+      minRtt: anchor.rtt,
+      probes: members.map(m => ({ city: m.city, country: m.country, state: m.state, asn: m.asn, network: m.network, rtt: m.rtt }))
+    };
+  });
+}
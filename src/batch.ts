@@ -0,0 +1,248 @@
+import { readFile } from 'node:fs/promises';
+import { geolocate } from './lib.js';
+import type { ResultCache } from './cache.js';
+import type { ConfidenceLevels } from './confidence.js';
+import type { GeoDatabase } from './geodb.js';
+import type { HistoryStore } from './history.js';
+import type { MeasurementClient, MeasurementMethod, PhaseName, Thresholds } from './measure.js';
+import { buildErrorDocument, buildResultDocument, formatLocation, ResultDocument } from './output.js';
+import type { PipelineScope } from './pipeline.js';
+import type { ProbeFilter } from './quality.js';
+import { resolveTarget } from './resolve.js';
+import type { RunStateStore } from './resume.js';
+import type { RetryOptions } from './retry.js';
+
+export const BATCH_FORMATS = ['csv', 'json'] as const;
+
+export type BatchFormat = typeof BATCH_FORMATS[number];
+
+export interface BatchOptions {
+  limit: number;
+  method: MeasurementMethod;
+  port?: number;
+  concurrency: number;
+  pollTimeout?: number;
+  retry?: RetryOptions | false;
+  cache?: ResultCache;
+  history?: HistoryStore;
+  runState?: RunStateStore;
+  resume?: boolean;
+  force?: boolean;
+  mapAnycast?: boolean;
+  start?: PipelineScope;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  budget?: number;
+  adaptive?: boolean;
+  probeFilter?: ProbeFilter;
+  beamWidth?: number;
+  thresholds?: Partial<Thresholds>;
+  confidenceLevels?: Partial<ConfidenceLevels>;
+  databases?: GeoDatabase[];
+}
+
+export interface BatchEntry {
+  ip: string;
+  hostname: string | null;
+  credits: number;
+  document: ResultDocument;
+}
+
+export interface BatchSummary {
+  targets: number;
+  succeeded: number;
+  failed: number;
+  anycast: number;
+  credits: number;
+}
+
+export function isBatchFormat(value: string): value is BatchFormat {
+  return (BATCH_FORMATS as readonly string[]).includes(value);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export async function readTargets(source: string): Promise<string[]> {
+  const content = source === '-' ? await readStdin() : await readFile(source, 'utf8');
+  const targets: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const value = line.replace(/#.*$/, '').trim();
+    if (value && !targets.includes(value)) {
+      targets.push(value);
+    }
+  }
+
+  return targets;
+}
+
+interface BatchJob {
+  ip: string;
+  hostname: string | null;
+  error?: string;
+}
+
+async function expandTargets(targets: string[]): Promise<BatchJob[]> {
+  const jobs: BatchJob[] = [];
+
+  for (const target of targets) {
+    try {
+      const { hostname, addresses } = await resolveTarget(target);
+      jobs.push(...addresses.map(({ address }) => ({ ip: address, hostname })));
+    } catch (error: any) {
+      jobs.push({ ip: target, hostname: null, error: error.message });
+    }
+  }
+
+  return jobs;
+}
+
+async function locateOne(client: MeasurementClient, { ip, hostname, error }: BatchJob, options: BatchOptions): Promise<BatchEntry> {
+  let credits = 0;
+
+  if (error) {
+    return { ip, hostname, credits, document: buildErrorDocument(ip, error) };
+  }
+
+  try {
+    const run = await geolocate(ip, {
+      client,
+      limit: options.limit,
+      method: options.method,
+      port: options.port,
+      pollTimeout: options.pollTimeout,
+      retry: options.retry,
+      cache: options.cache,
+      history: options.history,
+      runState: options.runState,
+      resume: options.resume,
+      force: options.force,
+      mapAnycast: options.mapAnycast,
+      start: options.start,
+      phaseLimits: options.phaseLimits,
+      budget: options.budget,
+      adaptive: options.adaptive,
+      probeFilter: options.probeFilter,
+      beamWidth: options.beamWidth,
+      thresholds: options.thresholds,
+      confidenceLevels: options.confidenceLevels,
+      databases: options.databases,
+      onEvent: (event) => {
+        if (event.type === 'measurement-created') {
+          credits += event.cost;
+        }
+      }
+    });
+    return { ip, hostname, credits, document: buildResultDocument(run) };
+  } catch (error: any) {
+    return { ip, hostname, credits, document: buildErrorDocument(ip, error.message) };
+  }
+}
+
+function describeEntry(entry: BatchEntry): string {
+  const { document } = entry;
+
+  if (document.status === 'error') {
+    return `failed: ${document.error}`;
+  }
+  if (document.anycast) {
+    return 'anycast';
+  }
+  if (!document.best) {
+    return 'no results';
+  }
+
+  return `${formatLocation(document.best)} (${document.best.minRtt.toFixed(2)} ms)`;
+}
+
+export async function runBatch(
+  client: MeasurementClient,
+  targets: string[],
+  options: BatchOptions
+): Promise<BatchEntry[]> {
+  const jobs = await expandTargets(targets);
+  const entries: BatchEntry[] = new Array(jobs.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      const entry = await locateOne(client, jobs[index], options);
+      entries[index] = entry;
+      done++;
+      const label = entry.hostname ? `${entry.hostname} (${entry.ip})` : entry.ip;
+      console.error(`[${done}/${jobs.length}] ${label}: ${describeEntry(entry)}`);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, jobs.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return entries;
+}
+
+export function summarizeBatch(entries: BatchEntry[]): BatchSummary {
+  return {
+    targets: entries.length,
+    succeeded: entries.filter(e => e.document.status === 'ok').length,
+    failed: entries.filter(e => e.document.status === 'error').length,
+    anycast: entries.filter(e => e.document.anycast).length,
+    credits: entries.reduce((sum, e) => sum + e.credits, 0)
+  };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatBatchCsv(entries: BatchEntry[]): string {
+  const header = ['ip', 'hostname', 'status', 'country', 'state', 'city', 'min_rtt', 'avg_rtt', 'method', 'latitude', 'longitude', 'radius_km', 'confidence', 'confidence_score', 'anycast', 'credits', 'measurement_ids', 'db_country', 'db_state', 'db_city', 'db_distance_km', 'db_verdict', 'error'];
+  // Only the first database fits into a row, --format json has all of them.
+  const rows = entries.map(({ ip, hostname, credits, document }) => {
+    const comparison = document.comparisons[0];
+    return [
+      ip,
+      hostname,
+      document.status,
+      document.best?.country ?? null,
+      document.best?.state ?? null,
+      document.best?.city ?? null,
+      document.best ? document.best.minRtt.toFixed(2) : null,
+      document.best ? document.best.avgRtt.toFixed(2) : null,
+      document.best?.method ?? null,
+      document.estimate ? document.estimate.latitude.toFixed(4) : null,
+      document.estimate ? document.estimate.longitude.toFixed(4) : null,
+      document.estimate ? Math.round(document.estimate.radiusKm) : null,
+      document.confidence,
+      document.confidenceScore,
+      document.anycast,
+      credits,
+      document.measurementIds.join(' '),
+      comparison?.claim?.country ?? null,
+      comparison?.claim?.state ?? null,
+      comparison?.claim?.city ?? null,
+      comparison && comparison.distanceKm !== null ? Math.round(comparison.distanceKm) : null,
+      comparison?.verdict ?? null,
+      document.error ?? null
+    ].map(csvField).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n');
+}
+
+export function formatBatchJson(entries: BatchEntry[], summary: BatchSummary): string {
+  return JSON.stringify({
+    summary,
+    results: entries.map(({ hostname, credits, document }) => ({ ...document, hostname, credits }))
+  }, null, 2);
+}
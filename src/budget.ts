@@ -0,0 +1,146 @@
+import type { MeasurementMethod, PhaseName } from './measure.js';
+import { ANY_CODE, ANYCAST_PHASE, DEFAULT_PIPELINE, PhaseDefinition, phaseProbes, PipelineScope } from './pipeline.js';
+import { codedError } from './errors.js';
+
+// Globalping accepts at most 500 probes in a single measurement.
+export const MAX_PROBES_PER_MEASUREMENT = 500;
+
+export interface PlanOptions {
+  limit?: number;
+  method?: MeasurementMethod;
+  pipeline?: PhaseDefinition[];
+  start?: PipelineScope;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  mapAnycast?: boolean;
+}
+
+export interface PlannedPhase {
+  phase: PhaseName;
+  scope: PipelineScope;
+  probes: number;
+  maxCredits: number;
+  ifAnycast: boolean;
+}
+
+export interface RunPlan {
+  phases: PlannedPhase[];
+  maxCredits: number;
+}
+
+export interface BudgetAllocation {
+  budget: number;
+  limit: number;
+  phaseLimits: Partial<Record<PhaseName, number>>;
+  maxCredits: number;
+}
+
+export interface CreditHeaders {
+  cost: number | null;
+  remaining: number | null;
+  rateLimitRemaining: number | null;
+}
+
+export interface CreditUsage {
+  consumed: number;
+  remaining: number | null;
+  rateLimitRemaining: number | null;
+}
+
+// Walks the pipeline without measuring. Values that only a measurement can tell are ANY_CODE, so every
+// phase that might run is included and the total is the worst case.
+export function planRun(options: PlanOptions = {}): RunPlan {
+  const limit = options.limit ?? 50;
+  const phaseLimits = options.phaseLimits ?? {};
+  // In auto mode a phase is measured a second time with traceroute when no probe got a ping reply.
+  const attempts = options.method === 'auto' ? 2 : 1;
+
+  const planPhase = (definition: PhaseDefinition, scope: PipelineScope, ifAnycast: boolean): PlannedPhase => {
+    const probes = phaseProbes(definition, limit, phaseLimits);
+    return { phase: definition.phase, scope, probes, maxCredits: definition.maxProbes(probes) * attempts, ifAnycast };
+  };
+
+  const anycastPhase = options.mapAnycast ? planPhase(ANYCAST_PHASE, {}, true) : null;
+  const phases: PlannedPhase[] = [];
+  let scope: PipelineScope = { ...options.start };
+  let credits = 0;
+  let anycastCredits = 0;
+
+  for (const definition of options.pipeline ?? DEFAULT_PIPELINE) {
+    if (!definition.applies(scope)) {
+      continue;
+    }
+
+    const planned = planPhase(definition, scope, false);
+    phases.push(planned);
+    credits += planned.maxCredits;
+
+    if (anycastPhase && definition.stopOnAnycast) {
+      anycastCredits = Math.max(anycastCredits, credits + anycastPhase.maxCredits);
+    }
+
+    scope = definition.narrow(scope, ANY_CODE);
+  }
+
+  if (anycastPhase && anycastCredits > 0) {
+    phases.push(anycastPhase);
+  }
+
+  return { phases, maxCredits: Math.max(credits, anycastCredits) };
+}
+
+// Uses the largest per-phase limit whose worst case fits into the budget. When not even one probe per
+// phase fits, phases with a fixed number of probes, like the continent phase, are lowered as well.
+export function allocateBudget(budget: number, options: PlanOptions = {}): BudgetAllocation {
+  const phaseLimits = { ...options.phaseLimits };
+  const costOf = (limit: number) => planRun({ ...options, limit, phaseLimits }).maxCredits;
+
+  let limit = 0;
+  let high = MAX_PROBES_PER_MEASUREMENT;
+  while (limit < high) {
+    const mid = Math.ceil((limit + high) / 2);
+    if (costOf(mid) <= budget) {
+      limit = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (limit === 0) {
+    limit = 1;
+    for (const definition of options.pipeline ?? DEFAULT_PIPELINE) {
+      if (options.phaseLimits?.[definition.phase] !== undefined) {
+        continue;
+      }
+      for (let probes = definition.probes(1) - 1; probes >= 1 && costOf(1) > budget; probes--) {
+        phaseLimits[definition.phase] = probes;
+      }
+    }
+  }
+
+  const maxCredits = costOf(limit);
+
+  if (maxCredits > budget) {
+    throw codedError('INVALID_INPUT', `A budget of ${budget} credits is too small, this run needs at least ${maxCredits}`);
+  }
+
+  return { budget, limit, phaseLimits, maxCredits };
+}
+
+export function describeAllocation({ budget, limit, phaseLimits, maxCredits }: BudgetAllocation): string {
+  const overrides = Object.entries(phaseLimits).map(([phase, probes]) => `, ${probes} in the ${phase} phase`).join('');
+  return `${limit} ${limit === 1 ? 'probe' : 'probes'} per phase${overrides}, using at most ${maxCredits} of ${budget} credits`;
+}
+
+function numericHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  return value === null || value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
+}
+
+export function readCreditHeaders(response?: Response): CreditHeaders {
+  const headers = response?.headers ?? new Headers();
+  return {
+    cost: numericHeader(headers, 'x-request-cost'),
+    remaining: numericHeader(headers, 'x-credits-remaining'),
+    rateLimitRemaining: numericHeader(headers, 'x-ratelimit-remaining')
+  };
+}
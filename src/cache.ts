@@ -0,0 +1,211 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { coveringPrefix } from './ip.js';
+import type { MeasurementMethod, PhaseName, PhaseSummary, PriorPhase, ProbeSample, Thresholds } from './measure.js';
+import type { ProbeFilter } from './quality.js';
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type CacheEntryKind = 'ip' | 'prefix';
+
+export interface CacheKeyOptions {
+  limit: number;
+  method: MeasurementMethod;
+  port?: number;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  probeFilter?: ProbeFilter;
+  thresholds?: Partial<Thresholds>;
+}
+
+export interface CachedPhase {
+  summary: PhaseSummary;
+  samples: ProbeSample[];
+  cachedAt: string;
+}
+
+export interface CacheEntry {
+  version: number;
+  key: string;
+  kind: CacheEntryKind;
+  options: CacheKeyOptions;
+  phases: CachedPhase[];
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  kind: CacheEntryKind;
+  options: CacheKeyOptions;
+  phases: PhaseSummary['phase'][];
+  cachedAt: string;
+  expired: boolean;
+}
+
+export interface ResultCacheOptions {
+  dir?: string;
+  ttlMs?: number;
+  prefix?: boolean;
+  refresh?: boolean;
+}
+
+export interface ResultCache {
+  dir: string;
+  lookup(ip: string, options: CacheKeyOptions): Promise<PriorPhase[]>;
+  store(ip: string, options: CacheKeyOptions, phases: PriorPhase[]): Promise<void>;
+  list(): Promise<CacheEntrySummary[]>;
+  clear(ip?: string): Promise<number>;
+}
+
+const CACHE_VERSION = 6;
+
+export function defaultCacheDir(): string {
+  if (process.env.GEOLOCATE_CACHE_DIR) {
+    return process.env.GEOLOCATE_CACHE_DIR;
+  }
+
+  if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+    return join(process.env.LOCALAPPDATA, 'geolocate', 'cache');
+  }
+
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'geolocate');
+}
+
+function entryFile(dir: string, kind: CacheEntryKind, key: string): string {
+  return join(dir, `${kind}-${key.replace(/[:/]/g, '_')}.json`);
+}
+
+function samePhaseLimits(a: CacheKeyOptions['phaseLimits'] = {}, b: CacheKeyOptions['phaseLimits'] = {}): boolean {
+  const phases = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<PhaseName>;
+  return [...phases].every(phase => a[phase] === b[phase]);
+}
+
+function sameOptions(a: CacheKeyOptions, b: CacheKeyOptions): boolean {
+  return a.limit === b.limit && a.method === b.method && a.port === b.port && samePhaseLimits(a.phaseLimits, b.phaseLimits)
+    && JSON.stringify(a.probeFilter ?? {}) === JSON.stringify(b.probeFilter ?? {})
+    && JSON.stringify(a.thresholds ?? {}) === JSON.stringify(b.thresholds ?? {});
+}
+
+async function readEntry(file: string): Promise<CacheEntry | null> {
+  try {
+    const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+    return entry.version === CACHE_VERSION ? entry : null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function createResultCache(options: ResultCacheOptions = {}): ResultCache {
+  const dir = options.dir ?? defaultCacheDir();
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+
+  const isFresh = (phase: CachedPhase) => Date.now() - Date.parse(phase.cachedAt) < ttlMs;
+
+  // Phases depend on the ones before them, so only a leading run of fresh phases can be reused.
+  const freshPhases = (entry: CacheEntry | null, keyOptions: CacheKeyOptions): PriorPhase[] => {
+    if (!entry || !sameOptions(entry.options, keyOptions)) {
+      return [];
+    }
+
+    const phases: PriorPhase[] = [];
+    for (const phase of entry.phases) {
+      if (!isFresh(phase)) {
+        break;
+      }
+      phases.push({ summary: { ...phase.summary, cachedAt: phase.cachedAt }, samples: phase.samples });
+    }
+    return phases;
+  };
+
+  const writeEntry = async (kind: CacheEntryKind, key: string, keyOptions: CacheKeyOptions, phases: CachedPhase[]) => {
+    const entry: CacheEntry = { version: CACHE_VERSION, key, kind, options: keyOptions, phases };
+    await mkdir(dir, { recursive: true });
+    await writeFile(entryFile(dir, kind, key), JSON.stringify(entry));
+  };
+
+  return {
+    dir,
+
+    async lookup(ip, keyOptions) {
+      if (options.refresh) {
+        return [];
+      }
+
+      const exact = freshPhases(await readEntry(entryFile(dir, 'ip', ip)), keyOptions);
+
+      if (!options.prefix) {
+        return exact;
+      }
+
+      const shared = freshPhases(await readEntry(entryFile(dir, 'prefix', coveringPrefix(ip))), keyOptions);
+      return shared.length > exact.length ? shared : exact;
+    },
+
+    async store(ip, keyOptions, phases) {
+      const now = new Date().toISOString();
+      const cached = phases.map(({ summary: { cachedAt, ...summary }, samples }) => ({ summary, samples, cachedAt: cachedAt ?? now }));
+
+      await writeEntry('ip', ip, keyOptions, cached);
+
+      // Neighbouring addresses usually share a country, not necessarily a city, and their probe RTTs
+      // describe a different host, so the prefix entry keeps only the coarse phases without samples.
+      const coarse = cached.filter(p => p.summary.phase !== 'city').map(p => ({ ...p, samples: [] }));
+      if (options.prefix && coarse.length > 0) {
+        await writeEntry('prefix', coveringPrefix(ip), keyOptions, coarse);
+      }
+    },
+
+    async list() {
+      let files: string[];
+      try {
+        files = (await readdir(dir)).filter(f => /^(ip|prefix)-.*\.json$/.test(f)).sort();
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+
+      const summaries: CacheEntrySummary[] = [];
+      for (const file of files) {
+        const entry = await readEntry(join(dir, file));
+        if (!entry || entry.phases.length === 0) {
+          continue;
+        }
+        const last = entry.phases[entry.phases.length - 1];
+        summaries.push({
+          key: entry.key,
+          kind: entry.kind,
+          options: entry.options,
+          phases: entry.phases.map(p => p.summary.phase),
+          cachedAt: last.cachedAt,
+          expired: !entry.phases.every(isFresh)
+        });
+      }
+      return summaries;
+    },
+
+    async clear(ip) {
+      const files = ip
+        ? [entryFile(dir, 'ip', ip), entryFile(dir, 'prefix', coveringPrefix(ip))]
+        : (await readdir(dir).catch(() => [] as string[]))
+          .filter(f => /^(ip|prefix)-.*\.json$/.test(f))
+          .map(f => join(dir, f));
+
+      let removed = 0;
+      for (const file of files) {
+        try {
+          await rm(file);
+          removed++;
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      }
+      return removed;
+    }
+  };
+}
@@ -0,0 +1,284 @@
+import { codedError, errorCode } from './errors.js';
+
+export type OptionType = 'boolean' | 'string' | 'integer' | 'duration' | 'choice' | 'path' | 'directory';
+
+export interface OptionSpec {
+  name: string;
+  short?: string;
+  type: OptionType;
+  description: string;
+  // Placeholder of the value in the help, e.g. <number>.
+  value?: string;
+  choices?: readonly string[];
+  min?: number;
+  max?: number;
+  multiple?: boolean;
+  // Converts a value that the type alone cannot check, throwing an error that completes "--name ...".
+  parse?: (value: string) => unknown;
+  group?: string;
+}
+
+export interface PositionalSpec {
+  name: string;
+  type?: 'path';
+  // Only these values are accepted.
+  choices?: readonly string[];
+  // Offered by the shell completion without restricting the value.
+  hints?: readonly string[];
+}
+
+export interface CommandSpec {
+  name: string;
+  summary: string;
+  usage: string[];
+  positionals: PositionalSpec[];
+  options: OptionSpec[];
+}
+
+// Options are keyed by their camel-cased name. Handlers narrow them to the type of their command.
+export interface ParsedCommand<T = Record<string, unknown>> {
+  command: CommandSpec;
+  options: T;
+  positionals: string[];
+  help: boolean;
+}
+
+export const PROGRAM_NAME = 'geolocate';
+
+export const EXIT_CODES = {
+  ok: 0,
+  failure: 1,
+  usage: 2,
+  noResults: 3,
+  rateLimited: 4,
+  apiError: 5
+} as const;
+
+export const HELP_OPTION: OptionSpec = { name: 'help', short: 'h', type: 'boolean', description: 'Show this help' };
+
+export const VERSION_OPTION: OptionSpec = { name: 'version', short: 'V', type: 'boolean', description: 'Print the version' };
+
+export function exitCodeOf(error: unknown): number {
+  switch (errorCode(error)) {
+    case 'INVALID_INPUT':
+      return EXIT_CODES.usage;
+    case 'NO_RESULTS':
+      return EXIT_CODES.noResults;
+    case 'RATE_LIMITED':
+    case 'BUDGET_EXCEEDED':
+      return EXIT_CODES.rateLimited;
+    case 'API_ERROR':
+      return EXIT_CODES.apiError;
+    default:
+      return EXIT_CODES.failure;
+  }
+}
+
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([smhd]?)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const unitMs = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2] || 'h']!;
+  return Number(match[1]) * unitMs;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return row[b.length];
+}
+
+// The closest candidate within a third of the input's length, or the only one it abbreviates.
+export function suggest(input: string, candidates: readonly string[]): string | null {
+  const prefixed = candidates.filter(c => input.length >= 3 && c.startsWith(input));
+  if (prefixed.length === 1) {
+    return prefixed[0];
+  }
+
+  let best: string | null = null;
+  let bestDistance = Math.max(1, Math.floor(input.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function didYouMean(input: string, candidates: readonly string[]): string {
+  const suggestion = suggest(input, candidates);
+  return suggestion ? `, did you mean ${suggestion}?` : '';
+}
+
+function optionKey(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function describeRange({ min, max }: OptionSpec): string {
+  if (min !== undefined && max !== undefined) {
+    return `an integer between ${min} and ${max}`;
+  }
+  if (min === 1) {
+    return 'a positive integer';
+  }
+  return min === undefined ? 'an integer' : `an integer of at least ${min}`;
+}
+
+function parseValue(spec: OptionSpec, flag: string, value: string): unknown {
+  if (spec.parse) {
+    try {
+      return spec.parse(value);
+    } catch (error: any) {
+      throw codedError('INVALID_INPUT', `${flag} ${error.message}`);
+    }
+  }
+
+  switch (spec.type) {
+    case 'integer': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isInteger(number) || number < (spec.min ?? -Infinity) || number > (spec.max ?? Infinity)) {
+        throw codedError('INVALID_INPUT', `${flag} requires ${describeRange(spec)}, got ${value}`);
+      }
+      return number;
+    }
+    case 'duration': {
+      const duration = parseDuration(value);
+      if (duration === null || duration <= 0) {
+        throw codedError('INVALID_INPUT', `${flag} requires a duration such as 90s, 30m, 12h or 7d, got ${value}`);
+      }
+      return duration;
+    }
+    case 'choice':
+      if (!spec.choices!.includes(value)) {
+        throw codedError('INVALID_INPUT', `${flag} must be one of ${spec.choices!.join(', ')}${didYouMean(value, spec.choices!)}`);
+      }
+      return value;
+    default:
+      if (value === '') {
+        throw codedError('INVALID_INPUT', `${flag} requires a value`);
+      }
+      return value;
+  }
+}
+
+function findOption(command: CommandSpec, flag: string): OptionSpec | undefined {
+  return [...command.options, HELP_OPTION].find(o => flag === `--${o.name}` || (o.short !== undefined && flag === `-${o.short}`));
+}
+
+// Options may come before, after or between the positionals, and take their value as the next
+// argument or after "=". Everything after "--" is positional.
+export function parseCommandLine(command: CommandSpec, args: string[]): ParsedCommand {
+  const options: Record<string, unknown> = {};
+  const positionals: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = equals > 0 ? arg.slice(0, equals) : arg;
+    const spec = findOption(command, flag);
+
+    if (!spec) {
+      const flags = command.options.map(o => `--${o.name}`);
+      throw codedError('INVALID_INPUT', `Unknown option ${flag} for ${PROGRAM_NAME} ${command.name}${didYouMean(flag, flags)}`);
+    }
+
+    const key = optionKey(spec.name);
+
+    if (spec.type === 'boolean') {
+      if (equals > 0) {
+        throw codedError('INVALID_INPUT', `${flag} does not take a value`);
+      }
+      if (spec === HELP_OPTION) {
+        help = true;
+      } else {
+        options[key] = true;
+      }
+      continue;
+    }
+
+    const value = equals > 0 ? arg.slice(equals + 1) : args[i + 1];
+    if (value === undefined || (equals < 0 && value.startsWith('--'))) {
+      throw codedError('INVALID_INPUT', `${flag} requires ${spec.value ? `a <${spec.value}>` : 'a value'}`);
+    }
+    if (equals < 0) {
+      i++;
+    }
+
+    const parsed = parseValue(spec, flag, value);
+    options[key] = spec.multiple ? [...(options[key] as unknown[] | undefined ?? []), parsed] : parsed;
+  }
+
+  if (!help) {
+    checkPositionals(command, positionals);
+  }
+
+  return { command, options, positionals, help };
+}
+
+function checkPositionals(command: CommandSpec, positionals: string[]): void {
+  if (positionals.length > command.positionals.length) {
+    const extra = positionals[command.positionals.length];
+    throw codedError('INVALID_INPUT', command.positionals.length === 0
+      ? `${PROGRAM_NAME} ${command.name} takes no arguments, got ${extra}`
+      : `Unexpected argument ${extra}, ${PROGRAM_NAME} ${command.name} takes ${command.positionals.map(p => `<${p.name}>`).join(' ')}`);
+  }
+
+  for (const [i, value] of positionals.entries()) {
+    const { name, choices } = command.positionals[i];
+    if (choices && !choices.includes(value)) {
+      throw codedError('INVALID_INPUT', `Unknown ${name} ${value} for ${PROGRAM_NAME} ${command.name}, use one of ${choices.join(', ')}${didYouMean(value, choices)}`);
+    }
+  }
+}
+
+function optionLabel(spec: OptionSpec): string {
+  const names = [spec.short ? `-${spec.short}` : '', `--${spec.name}`].filter(Boolean).join(', ');
+  return spec.type === 'boolean' ? names : `${names} <${spec.value ?? 'value'}>`;
+}
+
+// The options of a command as help lines, under a heading per group.
+export function formatOptions(options: OptionSpec[], heading = 'Options'): string[] {
+  const lines: string[] = [];
+  const groups = [...new Set(options.map(o => o.group ?? heading))];
+
+  for (const group of groups) {
+    lines.push('', `${group}:`);
+    for (const spec of options.filter(o => (o.group ?? heading) === group)) {
+      const label = optionLabel(spec);
+      lines.push(`  ${label.padEnd(21)} ${spec.description}`);
+    }
+  }
+
+  return lines;
+}
+
+export function formatCommandHelp(command: CommandSpec): string {
+  const usage = command.usage.map((line, i) => `${i === 0 ? 'Usage:' : '      '} ${PROGRAM_NAME} ${line}`);
+  return [...usage, '', command.summary, ...formatOptions([...command.options, HELP_OPTION])].join('\n');
+}
@@ -0,0 +1,374 @@
+import { BATCH_FORMATS, BatchFormat } from './batch.js';
+import { MAX_PROBES_PER_MEASUREMENT } from './budget.js';
+import type { CommandSpec, OptionSpec } from './cli.js';
+import { COMPLETION_SHELLS } from './completion.js';
+import { PROJECT_CONFIG_FILE } from './config.js';
+import { CONTINENTS, getCountryContinent } from './countries.js';
+import { DEFAULT_JOB_CONCURRENCY } from './jobs.js';
+import { DEFAULT_PREFIX_SAMPLES } from './lib.js';
+import {
+  DEFAULT_BEAM_WIDTH, DEFAULT_THRESHOLDS, DEFAULT_POLL_TIMEOUT_MS, MEASUREMENT_METHODS, MeasurementMethod, PhaseName
+} from './measure.js';
+import { OUTPUT_FORMATS, OutputFormat } from './output.js';
+import { DEFAULT_PATH_PROBES } from './path.js';
+
+export interface ListenAddress {
+  host: string;
+  port: number;
+}
+
+// The parsed options of each command, as set by the parser from the command's spec.
+export interface ConfigSelection {
+  profile?: string;
+  config?: string;
+}
+
+export interface LocateCommandOptions extends ConfigSelection {
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  debug?: boolean;
+  output?: OutputFormat;
+  anycast?: boolean;
+  continent?: string;
+  country?: string;
+  phaseLimit?: [PhaseName, number][];
+  force?: boolean;
+  budget?: number;
+  dryRun?: boolean;
+  beam?: number;
+  adaptive?: boolean;
+  repeat?: number;
+  resume?: boolean;
+  wait?: boolean;
+  pollTimeout?: number;
+  compare?: string[];
+  path?: boolean;
+  excludeAsn?: number[];
+  excludeTag?: string[];
+  requireTag?: string[];
+  keepOutliers?: boolean;
+  samples?: number;
+  record?: string;
+  replay?: string;
+  noCache?: boolean;
+  refresh?: boolean;
+  cacheTtl?: number;
+  cachePrefix?: boolean;
+  noHistory?: boolean;
+  file?: string;
+  concurrency?: number;
+  format?: BatchFormat;
+}
+
+export interface VerifyCommandOptions extends ConfigSelection {
+  claim?: string;
+  limit?: number;
+  far?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  output?: OutputFormat;
+  force?: boolean;
+  budget?: number;
+}
+
+export interface ValidateGeofeedCommandOptions extends ConfigSelection {
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  output?: OutputFormat;
+  samples?: number;
+  budget?: number;
+  force?: boolean;
+  noCache?: boolean;
+}
+
+export interface ServeCommandOptions extends ConfigSelection {
+  listen?: ListenAddress;
+  concurrency?: number;
+  noCache?: boolean;
+  noHistory?: boolean;
+  wait?: boolean;
+  allowForce?: boolean;
+}
+
+export interface HistoryCommandOptions {
+  output?: OutputFormat;
+}
+
+export interface ConfigCommandOptions extends ConfigSelection {
+  output?: OutputFormat;
+}
+
+function parseContinent(value: string): string {
+  const code = value.toUpperCase();
+  if (!CONTINENTS.some(c => c.code === code)) {
+    throw new Error(`must be one of ${CONTINENTS.map(c => c.code).join(', ')}`);
+  }
+  return code;
+}
+
+function parseCountry(value: string): string {
+  const code = value.toUpperCase();
+  if (!getCountryContinent(code)) {
+    throw new Error('requires an ISO 3166-1 alpha-2 country code, e.g. DE');
+  }
+  return code;
+}
+
+function parsePhaseLimit(value: string): [PhaseName, number] {
+  const match = /^(continent|country|state|city|anycast)=(\d+)$/.exec(value);
+  if (!match || Number(match[2]) < 1) {
+    throw new Error('requires <phase>=<number>, e.g. city=100');
+  }
+  return [match[1] as PhaseName, Number(match[2])];
+}
+
+function parseAsn(value: string): number {
+  const asn = Number(value.replace(/^AS/i, ''));
+  if (!Number.isInteger(asn) || asn < 1) {
+    throw new Error('requires an AS number, e.g. 16509');
+  }
+  return asn;
+}
+
+function parseListen(value: string): ListenAddress {
+  const match = /^(?:(.+):)?(\d+)$/.exec(value);
+  if (!match || Number(match[2]) > 65535) {
+    throw new Error('requires a port or host:port, e.g. 8080 or 0.0.0.0:8080');
+  }
+  return { host: match[1]?.replace(/^\[(.*)\]$/, '$1') ?? '127.0.0.1', port: Number(match[2]) };
+}
+
+const LIMIT: OptionSpec = {
+  name: 'limit', short: 'L', type: 'integer', min: 1, max: MAX_PROBES_PER_MEASUREMENT, value: 'number', description: 'Number of probes per measurement (default: 50)'
+};
+const METHOD: OptionSpec = {
+  name: 'method', short: 'm', type: 'choice', choices: MEASUREMENT_METHODS, value: 'method',
+  description: 'Latency method: ping, tcp-ping, traceroute or auto (default: traceroute)'
+};
+const PORT: OptionSpec = {
+  name: 'port', short: 'p', type: 'integer', min: 1, max: 65535, value: 'port', description: 'Destination port for tcp-ping (default: 80)'
+};
+const OUTPUT: OptionSpec = {
+  name: 'output', short: 'o', type: 'choice', choices: OUTPUT_FORMATS, value: 'format', description: 'Output format: text, json or ndjson (default: text)'
+};
+const FORCE: OptionSpec = {
+  name: 'force', type: 'boolean', description: 'Measure private, reserved and other non-routable addresses anyway'
+};
+const BUDGET: OptionSpec = {
+  name: 'budget', type: 'integer', min: 1, value: 'credits', description: 'Spread probes over the phases so that a run never uses more credits'
+};
+const WAIT: OptionSpec = {
+  name: 'wait', type: 'boolean', description: 'Wait for the rate limit to reset instead of failing when credits run out'
+};
+const SAMPLES: OptionSpec = {
+  name: 'samples', type: 'integer', min: 1, value: 'number',
+  description: `Responsive addresses geolocated per prefix (default: ${DEFAULT_PREFIX_SAMPLES}, 1 for validate-geofeed)`
+};
+const CONCURRENCY: OptionSpec = {
+  name: 'concurrency', short: 'c', type: 'integer', min: 1, value: 'n', description: 'Number of targets measured in parallel (default: 2)'
+};
+const NO_CACHE: OptionSpec = { name: 'no-cache', type: 'boolean', description: 'Neither read nor write the result cache' };
+const NO_HISTORY: OptionSpec = { name: 'no-history', type: 'boolean', description: 'Do not add the run to the location history' };
+
+const CONFIG_OPTIONS: OptionSpec[] = [
+  {
+    name: 'profile', type: 'string', value: 'name',
+    description: 'Apply a configuration profile: fast, accurate, cheap or one from a config file'
+  },
+  { name: 'config', type: 'path', value: 'path', description: `Read the configuration from this file instead of ./${PROJECT_CONFIG_FILE}` }
+];
+
+const LOCATE_OPTIONS: OptionSpec[] = [
+  LIMIT,
+  METHOD,
+  PORT,
+  { name: 'debug', short: 'd', type: 'boolean', description: 'Show detailed traceroute data for debugging' },
+  OUTPUT,
+  { name: 'anycast', type: 'boolean', description: 'Map the sites of an anycast address instead of stopping' },
+  {
+    name: 'continent', type: 'string', value: 'code', parse: parseContinent,
+    description: 'Skip continent detection and start in a continent, e.g. EU'
+  },
+  {
+    name: 'country', type: 'string', value: 'code', parse: parseCountry,
+    description: 'Skip continent and country detection and start in a country, e.g. DE'
+  },
+  {
+    name: 'phase-limit', type: 'string', value: 'p=n', multiple: true, parse: parsePhaseLimit,
+    description: 'Probes for one phase, e.g. city=100 or continent=3 (per continent)'
+  },
+  FORCE,
+  BUDGET,
+  { name: 'dry-run', type: 'boolean', description: 'Print the planned measurements and their worst-case cost, measure nothing' },
+  {
+    name: 'beam', type: 'integer', min: 1, value: 'number',
+    description: `Continents and countries tried when the best latency stays above ${DEFAULT_THRESHOLDS.backtrackRttMs} ms (default: ${DEFAULT_BEAM_WIDTH}, 1 to never backtrack)`
+  },
+  { name: 'adaptive', type: 'boolean', description: 'Start every phase with a quarter of its probes and stop early on a clear leader' },
+  {
+    name: 'repeat', type: 'integer', min: 2, value: 'number', description: 'Measure an IP address several times without the cache and merge the runs'
+  },
+  { name: 'resume', type: 'boolean', description: 'Continue the last interrupted run of the target without paying for its phases again' },
+  WAIT,
+  {
+    name: 'poll-timeout', type: 'duration', value: 'time',
+    description: `Stop waiting for a measurement after e.g. 90s or 5m (default: ${DEFAULT_POLL_TIMEOUT_MS / 60000}m)`
+  },
+  {
+    name: 'compare', type: 'path', value: 'path', multiple: true,
+    description: 'Check the location a MaxMind (.mmdb) or CSV database claims, may be repeated'
+  },
+  {
+    name: 'path', type: 'boolean',
+    description: `Trace the path from the ${DEFAULT_PATH_PROBES} best probes with mtr and check the last hop's network`
+  },
+  {
+    name: 'exclude-asn', type: 'string', value: 'asn', multiple: true, parse: parseAsn,
+    description: 'Ignore probes in this network, e.g. 16509, may be repeated'
+  },
+  {
+    name: 'exclude-tag', type: 'string', value: 'tag', multiple: true,
+    description: 'Ignore probes with this tag, e.g. datacenter-network, may be repeated'
+  },
+  {
+    name: 'require-tag', type: 'string', value: 'tag', multiple: true,
+    description: 'Only use probes with this tag, e.g. eyeball-network, may be repeated'
+  },
+  { name: 'keep-outliers', type: 'boolean', description: 'Keep probes that disagree with the others in their city or with earlier phases' },
+  SAMPLES,
+  { name: 'record', type: 'directory', value: 'dir', description: 'Save every Globalping request and response to a directory' },
+  { name: 'replay', type: 'directory', value: 'dir', description: 'Run offline from a directory created with --record' },
+  ...CONFIG_OPTIONS,
+  { ...NO_CACHE, group: 'Cache Options' },
+  { name: 'refresh', type: 'boolean', group: 'Cache Options', description: 'Measure again and overwrite cached results' },
+  {
+    name: 'cache-ttl', type: 'duration', value: 'time', group: 'Cache Options',
+    description: 'Maximum age of reused results, e.g. 30m, 12h or 7d (default: 7d)'
+  },
+  {
+    name: 'cache-prefix', type: 'boolean', group: 'Cache Options',
+    description: 'Share continent, country and state results across the covering /24 or /48'
+  },
+  { ...NO_HISTORY, group: 'Cache Options' },
+  {
+    name: 'file', short: 'f', type: 'path', value: 'path', group: 'Batch Options',
+    description: 'Read IP addresses or hostnames from a file, one per line (- for stdin)'
+  },
+  { ...CONCURRENCY, group: 'Batch Options' },
+  {
+    name: 'format', type: 'choice', choices: BATCH_FORMATS, value: 'format', group: 'Batch Options',
+    description: 'Result table format: csv or json (default: csv)'
+  }
+];
+
+// Options that only make sense for a single target.
+const SINGLE_TARGET_OPTIONS = ['debug', 'output', 'repeat', 'path', 'samples', 'record', 'replay', 'file'];
+
+export const LOCATE_COMMAND: CommandSpec = {
+  name: 'locate',
+  summary: 'Geolocate an IP address, hostname, URL or prefix using latency measurements from probes worldwide.',
+  usage: ['[locate] <IP_ADDRESS|HOSTNAME|URL|PREFIX> [OPTIONS]', '--file <PATH|-> [OPTIONS]'],
+  positionals: [{ name: 'target' }],
+  options: LOCATE_OPTIONS
+};
+
+export const BATCH_COMMAND: CommandSpec = {
+  name: 'batch',
+  summary: 'Geolocate the IP addresses or hostnames in a file, one per line (- for stdin), and print a result table.',
+  usage: ['batch <PATH|-> [OPTIONS]'],
+  positionals: [{ name: 'path', type: 'path' }],
+  options: LOCATE_OPTIONS
+    .filter(o => !SINGLE_TARGET_OPTIONS.includes(o.name))
+    .map(({ group, ...o }) => group === 'Cache Options' ? { ...o, group } : o)
+};
+
+export const VERIFY_COMMAND: CommandSpec = {
+  name: 'verify',
+  summary: 'Check whether an IP address can be in a claimed location, from probes near it and on every continent.',
+  usage: ['verify <IP_ADDRESS> --claim <CITY, CC|CC|LAT,LON> [OPTIONS]'],
+  positionals: [{ name: 'ip' }],
+  options: [
+    { name: 'claim', type: 'string', value: 'location', description: 'Claimed location: "Frankfurt, DE", "DE" or "50.11,8.68"' },
+    { ...LIMIT, description: 'Probes nearest to the claimed location (default: 20)' },
+    { name: 'far', type: 'integer', min: 0, value: 'number', description: 'Probes on every continent (default: 2)' },
+    { ...METHOD, description: 'Latency method: ping, tcp-ping, traceroute or auto (default: auto)' },
+    PORT,
+    OUTPUT,
+    FORCE,
+    BUDGET,
+    ...CONFIG_OPTIONS
+  ]
+};
+
+export const VALIDATE_GEOFEED_COMMAND: CommandSpec = {
+  name: 'validate-geofeed',
+  summary: 'Measure the prefixes of an RFC 8805 geofeed and report the entries whose location does not match.',
+  usage: ['validate-geofeed <PATH> [OPTIONS]'],
+  positionals: [{ name: 'path', type: 'path' }],
+  options: [LIMIT, METHOD, PORT, OUTPUT, SAMPLES, BUDGET, FORCE, NO_CACHE, ...CONFIG_OPTIONS]
+};
+
+export const SERVE_COMMAND: CommandSpec = {
+  name: 'serve',
+  summary: 'Run an HTTP API that queues geolocation jobs and streams their progress.',
+  usage: ['serve [--listen [HOST:]PORT] [-c <n>]'],
+  positionals: [],
+  options: [
+    {
+      name: 'listen', type: 'string', value: 'addr', parse: parseListen,
+      description: 'Address of the HTTP API, a port or host:port (default: 127.0.0.1:8080)'
+    },
+    { ...CONCURRENCY, description: `Jobs measured in parallel (default: ${DEFAULT_JOB_CONCURRENCY})` },
+    NO_CACHE,
+    NO_HISTORY,
+    WAIT,
+    { name: 'allow-force', type: 'boolean', description: 'Accept jobs with force to measure non-routable addresses' },
+    ...CONFIG_OPTIONS
+  ]
+};
+
+export const HISTORY_COMMAND: CommandSpec = {
+  name: 'history',
+  summary: 'List the location history of measured addresses, print the one of an address or clear it.',
+  usage: ['history list|clear [IP_ADDRESS]|<IP_ADDRESS> [-o json]'],
+  positionals: [{ name: 'command', hints: ['list', 'clear'] }, { name: 'ip' }],
+  options: [OUTPUT]
+};
+
+export const CACHE_COMMAND: CommandSpec = {
+  name: 'cache',
+  summary: 'List or clear the cached phase results.',
+  usage: ['cache list|clear [IP_ADDRESS]'],
+  positionals: [{ name: 'command', choices: ['list', 'clear'] }, { name: 'ip' }],
+  options: []
+};
+
+export const CONFIG_COMMAND: CommandSpec = {
+  name: 'config',
+  summary: 'Print every setting of the configuration with its effective value and where it came from.',
+  usage: ['config show [--profile <name>] [--config <path>] [-o json]'],
+  positionals: [{ name: 'command', choices: ['show'] }],
+  options: [...CONFIG_OPTIONS, OUTPUT]
+};
+
+export const COMPLETION_COMMAND: CommandSpec = {
+  name: 'completion',
+  summary: 'Print a completion script for bash, zsh or fish.',
+  usage: ['completion bash|zsh|fish'],
+  positionals: [{ name: 'shell', choices: COMPLETION_SHELLS }],
+  options: []
+};
+
+export const COMMANDS: CommandSpec[] = [
+  LOCATE_COMMAND,
+  BATCH_COMMAND,
+  VERIFY_COMMAND,
+  VALIDATE_GEOFEED_COMMAND,
+  SERVE_COMMAND,
+  HISTORY_COMMAND,
+  CACHE_COMMAND,
+  CONFIG_COMMAND,
+  COMPLETION_COMMAND
+];
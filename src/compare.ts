@@ -0,0 +1,112 @@
+import { distanceKm, maxDistanceKm } from './geo.js';
+import type { DatabaseRecord, GeoDatabase } from './geodb.js';
+import type { GeolocationRun } from './measure.js';
+
+export type PlausibilityVerdict = 'plausible' | 'implausible' | 'unknown';
+
+export interface LatencyViolation {
+  city: string;
+  country: string;
+  rtt: number;
+  maxDistanceKm: number;
+  distanceKm: number;
+}
+
+export interface DatabaseComparison {
+  database: string;
+  claim: DatabaseRecord | null;
+  distanceKm: number | null;
+  countryMatch: boolean | null;
+  stateMatch: boolean | null;
+  cityMatch: boolean | null;
+  verdict: PlausibilityVerdict;
+  reason: string;
+  probesChecked: number;
+  violations: number;
+  worstViolation: LatencyViolation | null;
+}
+
+function matches(claimed: string | null | undefined, measured: string | null | undefined): boolean | null {
+  if (!claimed || !measured || measured === 'Unknown') {
+    return null;
+  }
+  return claimed.localeCompare(measured, 'en', { sensitivity: 'base' }) === 0;
+}
+
+// Every probe bounds the target to a disk of 100 km per ms of round trip. A claimed location outside
+// the disk of any probe, even allowing for the database's own accuracy radius, cannot be right.
+export function compareWithDatabase(run: GeolocationRun, database: GeoDatabase): DatabaseComparison {
+  let claim: DatabaseRecord | null;
+  let lookupError: string | null = null;
+  try {
+    claim = database.lookup(run.target);
+  } catch (error: any) {
+    claim = null;
+    lookupError = error.message;
+  }
+
+  const best = run.isAnycast ? null : run.results[0] ?? null;
+  const comparison: DatabaseComparison = {
+    database: database.name,
+    claim,
+    distanceKm: null,
+    countryMatch: best ? matches(claim?.country, best.country) : null,
+    stateMatch: best?.state ? matches(claim?.state, best.state) : null,
+    cityMatch: best?.city ? matches(claim?.city, best.city) : null,
+    verdict: 'unknown',
+    reason: '',
+    probesChecked: 0,
+    violations: 0,
+    worstViolation: null
+  };
+
+  if (!claim) {
+    return { ...comparison, reason: lookupError ?? `${run.target} is not in the database` };
+  }
+
+  if (run.isAnycast) {
+    return { ...comparison, reason: 'The target is anycast, so it has no single location to check' };
+  }
+
+  if (claim.latitude === null || claim.longitude === null) {
+    return { ...comparison, reason: 'The database has no coordinates for this address' };
+  }
+
+  const claimed = { latitude: claim.latitude, longitude: claim.longitude };
+  const tolerance = claim.accuracyRadiusKm ?? 0;
+  let worstExcess = 0;
+
+  for (const sample of run.samples) {
+    const distance = distanceKm(claimed, sample);
+    const bound = maxDistanceKm(sample.rtt);
+    comparison.probesChecked++;
+
+    if (distance - tolerance > bound) {
+      comparison.violations++;
+      if (distance - tolerance - bound > worstExcess) {
+        worstExcess = distance - tolerance - bound;
+        comparison.worstViolation = { city: sample.city, country: sample.country, rtt: sample.rtt, maxDistanceKm: bound, distanceKm: distance };
+      }
+    }
+  }
+
+  if (run.estimate) {
+    comparison.distanceKm = distanceKm(claimed, run.estimate);
+  }
+
+  if (comparison.probesChecked === 0) {
+    return { ...comparison, reason: 'No probe measured the target' };
+  }
+
+  const worst = comparison.worstViolation;
+  if (worst) {
+    return {
+      ...comparison,
+      verdict: 'implausible',
+      reason: `${worst.city}, ${worst.country} measured ${worst.rtt.toFixed(2)} ms, which puts the target within ${Math.round(worst.maxDistanceKm)} km of it, but the claimed location is ${Math.round(worst.distanceKm)} km away`
+    };
+  }
+
+  const probes = comparison.probesChecked === 1 ? 'the only probe' : `all ${comparison.probesChecked} probes`;
+  return { ...comparison, verdict: 'plausible', reason: `Within the latency bound of ${probes}` };
+}
@@ -0,0 +1,192 @@
+import { CommandSpec, HELP_OPTION, OptionSpec, PositionalSpec, PROGRAM_NAME } from './cli.js';
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+export type CompletionShell = typeof COMPLETION_SHELLS[number];
+
+function optionsOf(command: CommandSpec): OptionSpec[] {
+  return [...command.options, HELP_OPTION];
+}
+
+function flagsOf(spec: OptionSpec): string[] {
+  return [...(spec.short ? [`-${spec.short}`] : []), `--${spec.name}`];
+}
+
+function positionalWords(positional: PositionalSpec | undefined): string[] {
+  return [...(positional?.choices ?? []), ...(positional?.hints ?? [])];
+}
+
+// The first word picks the command, anything else is the target of the default command.
+function bashCommand(command: CommandSpec, isDefault: boolean): string[] {
+  const valued = optionsOf(command).filter(o => o.type !== 'boolean');
+  const words = optionsOf(command).flatMap(flagsOf).join(' ');
+  const lines = [`    ${isDefault ? '*' : command.name})`, '      case "$prev" in'];
+
+  for (const spec of valued) {
+    const flags = flagsOf(spec).join('|');
+    if (spec.choices) {
+      lines.push(`        ${flags}) COMPREPLY=($(compgen -W "${spec.choices.join(' ')}" -- "$cur")); return ;;`);
+    } else if (spec.type === 'path') {
+      lines.push(`        ${flags}) COMPREPLY=($(compgen -f -- "$cur")); return ;;`);
+    } else if (spec.type === 'directory') {
+      lines.push(`        ${flags}) COMPREPLY=($(compgen -d -- "$cur")); return ;;`);
+    } else {
+      lines.push(`        ${flags}) return ;;`);
+    }
+  }
+
+  const positional = command.positionals[0];
+  const argumentReply = isDefault
+    ? 'COMPREPLY=($(compgen -W "$commands" -- "$cur"))'
+    : positional?.type === 'path'
+      ? 'COMPREPLY=($(compgen -f -- "$cur"))'
+      : `COMPREPLY=($(compgen -W "${positionalWords(positional).join(' ')}" -- "$cur"))`;
+
+  lines.push(
+    '      esac',
+    '      if [[ "$cur" == -* ]]; then',
+    `        COMPREPLY=($(compgen -W "${words}" -- "$cur"))`,
+    isDefault ? '      elif (( COMP_CWORD == 1 )); then' : '      else',
+    `        ${argumentReply}`,
+    '      fi',
+    '      ;;'
+  );
+  return lines;
+}
+
+function bashScript(commands: CommandSpec[]): string {
+  const [locate, ...others] = commands;
+
+  return [
+    `# bash completion for ${PROGRAM_NAME}, load it with: source <(${PROGRAM_NAME} completion bash)`,
+    `_${PROGRAM_NAME}() {`,
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}" command=""',
+    `  local commands="${commands.map(c => c.name).join(' ')}"`,
+    '  COMPREPLY=()',
+    '  if (( COMP_CWORD > 1 )); then',
+    '    command="${COMP_WORDS[1]}"',
+    '  fi',
+    '  case "$command" in',
+    ...others.flatMap(c => bashCommand(c, false)),
+    ...bashCommand(locate, true),
+    '  esac',
+    '}',
+    `complete -o default -F _${PROGRAM_NAME} ${PROGRAM_NAME}`,
+    ''
+  ].join('\n');
+}
+
+function zshEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/'/g, `'\\''`).replace(/([[\]:])/g, '\\$1');
+}
+
+function zshAction(type: OptionSpec['type'] | PositionalSpec['type'], words: readonly string[]): string {
+  if (type === 'path') {
+    return '_files';
+  }
+  if (type === 'directory') {
+    return '_files -/';
+  }
+  return words.length > 0 ? `(${words.join(' ')})` : '';
+}
+
+function zshOption(spec: OptionSpec): string {
+  const flags = flagsOf(spec);
+  const exclusive = spec.multiple ? '*' : flags.length > 1 ? `(${flags.join(' ')})` : '';
+  const names = flags.length > 1 ? `{${flags.join(',')}}` : flags[0];
+  const value = spec.type === 'boolean' ? '' : `:${spec.value ?? 'value'}:${zshAction(spec.type, spec.choices ?? [])}`;
+  return `'${exclusive}'${names}'[${zshEscape(spec.description)}]${value}'`;
+}
+
+function zshCommand(command: CommandSpec): string[] {
+  const positionals = command.positionals.map((p, i) => `'${i + 1}:${p.name}:${zshAction(p.type, positionalWords(p))}'`);
+  const specs = [...optionsOf(command).map(zshOption), ...positionals];
+  return [`    (${command.name})`, '      _arguments -S \\', ...specs.map((s, i) => `        ${s}${i < specs.length - 1 ? ' \\' : ''}`), '      ;;'];
+}
+
+function zshScript(commands: CommandSpec[]): string {
+  return [
+    `#compdef ${PROGRAM_NAME}`,
+    `# zsh completion for ${PROGRAM_NAME}, load it with: source <(${PROGRAM_NAME} completion zsh)`,
+    '',
+    `_${PROGRAM_NAME}() {`,
+    '  local -a commands',
+    '  commands=(',
+    ...commands.map(c => `    '${c.name}:${zshEscape(c.summary)}'`),
+    '  )',
+    `  local command=${commands[0].name}`,
+    '',
+    '  if (( CURRENT > 2 )) && (( ${commands[(I)${words[2]}:*]} )); then',
+    '    command=${words[2]}',
+    '    words=(${words[1]} ${words[3,-1]})',
+    '    (( CURRENT-- ))',
+    "  elif (( CURRENT == 2 )) && [[ ${words[2]} != -* ]]; then",
+    "    _describe -t commands 'command' commands",
+    '    return',
+    '  fi',
+    '',
+    '  case $command in',
+    ...commands.flatMap(zshCommand),
+    '  esac',
+    '}',
+    '',
+    `compdef _${PROGRAM_NAME} ${PROGRAM_NAME}`,
+    ''
+  ].join('\n');
+}
+
+function fishEscape(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fishScript(commands: CommandSpec[]): string {
+  const [locate, ...others] = commands;
+  const names = commands.map(c => c.name).join(' ');
+  const condition = (command: CommandSpec) => command === locate
+    ? `not __fish_seen_subcommand_from ${others.map(c => c.name).join(' ')}`
+    : `__fish_seen_subcommand_from ${command.name}`;
+  const lines = [
+    `# fish completion for ${PROGRAM_NAME}, load it with: ${PROGRAM_NAME} completion fish | source`,
+    `complete -c ${PROGRAM_NAME} -f`,
+    ...commands.map(c => `complete -c ${PROGRAM_NAME} -n 'not __fish_seen_subcommand_from ${names}' -a ${c.name} -d ${fishEscape(c.summary)}`)
+  ];
+
+  for (const command of commands) {
+    const when = `-n ${fishEscape(condition(command))}`;
+
+    for (const spec of optionsOf(command)) {
+      const flags = [spec.short ? `-s ${spec.short}` : '', `-l ${spec.name}`].filter(Boolean).join(' ');
+      const value = spec.type === 'boolean'
+        ? ''
+        : spec.choices
+          ? ` -x -a ${fishEscape(spec.choices.join(' '))}`
+          : spec.type === 'path'
+            ? ' -r -F'
+            : spec.type === 'directory'
+              ? ` -x -a '(__fish_complete_directories)'`
+              : ' -x';
+      lines.push(`complete -c ${PROGRAM_NAME} ${when} ${flags}${value} -d ${fishEscape(spec.description)}`);
+    }
+
+    const positional = command.positionals[0];
+    if (command !== locate && positional?.type === 'path') {
+      lines.push(`complete -c ${PROGRAM_NAME} ${when} -F`);
+    } else if (command !== locate && positionalWords(positional).length > 0) {
+      lines.push(`complete -c ${PROGRAM_NAME} ${when} -a ${fishEscape(positionalWords(positional).join(' '))}`);
+    }
+  }
+
+  return [...lines, ''].join('\n');
+}
+
+// The commands come with the default one first, whose name may be left out on the command line.
+export function completionScript(shell: CompletionShell, commands: CommandSpec[]): string {
+  switch (shell) {
+    case 'bash':
+      return bashScript(commands);
+    case 'zsh':
+      return zshScript(commands);
+    case 'fish':
+      return fishScript(commands);
+  }
+}
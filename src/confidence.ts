@@ -0,0 +1,102 @@
+import type { GeolocationRun, PhaseSummary } from './measure.js';
+
+export type ConfidenceLabel = 'Very High' | 'High' | 'Medium' | 'Low';
+
+export type ConfidenceFactorName = 'latency' | 'samples' | 'separation' | 'consistency' | 'rejections';
+
+export interface ConfidenceFactor {
+  name: ConfidenceFactorName;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ConfidenceScore {
+  score: number;
+  label: ConfidenceLabel;
+  factors: ConfidenceFactor[];
+}
+
+export interface ConfidenceLevels {
+  veryHigh: number;
+  high: number;
+  medium: number;
+}
+
+// The lowest score of each label, anything below `medium` is Low.
+export const DEFAULT_CONFIDENCE_LEVELS: ConfidenceLevels = { veryHigh: 80, high: 60, medium: 40 };
+
+const WEIGHTS: Record<ConfidenceFactorName, number> = {
+  latency: 35,
+  samples: 20,
+  separation: 20,
+  consistency: 10,
+  rejections: 15
+};
+
+export function getConfidenceLabel(score: number, levels: ConfidenceLevels = DEFAULT_CONFIDENCE_LEVELS): ConfidenceLabel {
+  if (score >= levels.veryHigh) {
+    return 'Very High';
+  } else if (score >= levels.high) {
+    return 'High';
+  } else if (score >= levels.medium) {
+    return 'Medium';
+  }
+  return 'Low';
+}
+
+function factor(name: ConfidenceFactorName, ratio: number, detail: string): ConfidenceFactor {
+  const clamped = Math.max(0, Math.min(1, ratio));
+  return {
+    name,
+    points: Math.round(clamped * WEIGHTS[name] * 10) / 10,
+    maxPoints: WEIGHTS[name],
+    detail
+  };
+}
+
+export function scoreFinalPhase(phase: PhaseSummary, levels: ConfidenceLevels = DEFAULT_CONFIDENCE_LEVELS): ConfidenceScore | null {
+  const [best, runnerUp] = phase.candidates;
+
+  if (!best) {
+    return null;
+  }
+
+  const factors: ConfidenceFactor[] = [];
+
+  // A small RTT bounds the distance between the best probe and the target.
+  factors.push(factor('latency', Math.exp(-best.minRtt / 8), `${best.minRtt.toFixed(2)} ms to the closest probe`));
+
+  factors.push(factor('samples', 1 - Math.exp(-best.samples / 3), `${best.samples} probe${best.samples === 1 ? '' : 's'} in ${best.code}`));
+
+  if (runnerUp) {
+    const gap = runnerUp.minRtt - best.minRtt;
+    factors.push(factor('separation', gap / (gap + 2), `${gap.toFixed(2)} ms ahead of ${runnerUp.code}`));
+  } else {
+    factors.push(factor('separation', 0.5, 'no other candidate to compare against'));
+  }
+
+  if (best.samples > 1) {
+    factors.push(factor('consistency', Math.exp(-best.stdDev / (best.avgRtt + 1)), `${best.stdDev.toFixed(2)} ms standard deviation`));
+  } else {
+    factors.push(factor('consistency', 0.5, 'single sample, variance unknown'));
+  }
+
+  const total = phase.rejected + phase.candidates.reduce((sum, c) => sum + c.samples, 0);
+  const rejectedRatio = total > 0 ? phase.rejected / total : 1;
+  factors.push(factor('rejections', 1 - rejectedRatio, `${phase.rejected} of ${total} probe results rejected`));
+
+  const score = Math.round(factors.reduce((sum, f) => sum + f.points, 0));
+
+  return { score, label: getConfidenceLabel(score, levels), factors };
+}
+
+export function scoreConfidence(run: GeolocationRun, levels: ConfidenceLevels = DEFAULT_CONFIDENCE_LEVELS): ConfidenceScore | null {
+  const phases = run.phases.filter(p => !p.abandoned);
+
+  if (run.isAnycast || phases.length === 0) {
+    return null;
+  }
+
+  return scoreFinalPhase(phases[phases.length - 1], levels);
+}
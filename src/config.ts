@@ -0,0 +1,281 @@
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { ConfidenceLevels, DEFAULT_CONFIDENCE_LEVELS } from './confidence.js';
+import {
+  DEFAULT_BEAM_WIDTH, DEFAULT_CLIENT_TIMEOUT_MS, DEFAULT_POLL_TIMEOUT_MS, DEFAULT_THRESHOLDS, MEASUREMENT_METHODS, MeasurementMethod,
+  PhaseName, Thresholds
+} from './measure.js';
+import { DEFAULT_CONTINENT_PROBES } from './pipeline.js';
+import { MAX_PROBES_PER_MEASUREMENT } from './budget.js';
+import type { ProbeFilter } from './quality.js';
+
+export interface GeolocateConfig {
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  budget?: number;
+  adaptive?: boolean;
+  beamWidth?: number;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  probeFilter?: ProbeFilter;
+  pollTimeoutMs?: number;
+  clientTimeoutMs?: number;
+  wait?: boolean;
+  thresholds?: Partial<Thresholds>;
+  confidence?: Partial<ConfidenceLevels>;
+}
+
+export interface ConfigFile extends GeolocateConfig {
+  profile?: string;
+  profiles?: Record<string, GeolocateConfig>;
+}
+
+export interface ConfigLayer {
+  name: string;
+  config: GeolocateConfig;
+}
+
+export interface ResolvedConfig {
+  config: GeolocateConfig;
+  profile: string | null;
+  profiles: string[];
+  files: { path: string; found: boolean }[];
+  layers: ConfigLayer[];
+}
+
+export interface ConfigSetting {
+  key: string;
+  value: unknown;
+  source: string;
+}
+
+export interface LoadConfigOptions {
+  path?: string;
+  profile?: string;
+  userPath?: string;
+  cwd?: string;
+}
+
+export const PROJECT_CONFIG_FILE = 'geolocate.config.json';
+
+// Defaults of the settings that have one in the CLI, used to print the effective configuration.
+export const CONFIG_DEFAULTS = {
+  limit: 50,
+  method: 'traceroute' as MeasurementMethod,
+  adaptive: false,
+  beamWidth: DEFAULT_BEAM_WIDTH,
+  phaseLimits: { continent: DEFAULT_CONTINENT_PROBES } as Partial<Record<PhaseName, number>>,
+  pollTimeoutMs: DEFAULT_POLL_TIMEOUT_MS,
+  clientTimeoutMs: DEFAULT_CLIENT_TIMEOUT_MS,
+  wait: false,
+  thresholds: DEFAULT_THRESHOLDS,
+  confidence: DEFAULT_CONFIDENCE_LEVELS
+};
+
+export const BUILTIN_PROFILES: Record<string, GeolocateConfig> = {
+  fast: { limit: 30, adaptive: true, beamWidth: 1, pollTimeoutMs: 60 * 1000 },
+  accurate: { limit: 200, beamWidth: 3, phaseLimits: { continent: 10 } },
+  cheap: { limit: 20, adaptive: true, beamWidth: 1, phaseLimits: { continent: 3 } }
+};
+
+const PHASES: PhaseName[] = ['continent', 'country', 'state', 'city', 'anycast'];
+
+type Check = (value: unknown, path: string) => void;
+
+const integer = (min: number, max = Infinity): Check => (value, path) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${path} must be ${max < Infinity ? `an integer between ${min} and ${max}` : min === 0 ? 'a non-negative integer' : 'a positive integer'}`);
+  }
+};
+
+const positiveNumber: Check = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${path} must be a positive number`);
+  }
+};
+
+const boolean: Check = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${path} must be true or false`);
+  }
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path) => {
+  if (typeof value !== 'string' || !values.includes(value)) {
+    throw new Error(`${path} must be one of ${values.join(', ')}`);
+  }
+};
+
+const listOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be a list`);
+  }
+  value.forEach((item, i) => check(item, `${path}[${i}]`));
+};
+
+const text: Check = (value, path) => {
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`${path} must be a non-empty string`);
+  }
+};
+
+const object = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  for (const [key, field] of Object.entries(value)) {
+    const name = path ? `${path}.${key}` : key;
+    if (!fields[key]) {
+      throw new Error(`${name} is not a known setting`);
+    }
+    fields[key](field, name);
+  }
+};
+
+const SETTINGS: Record<keyof GeolocateConfig, Check> = {
+  limit: integer(1, MAX_PROBES_PER_MEASUREMENT),
+  method: oneOf(MEASUREMENT_METHODS),
+  port: integer(1, 65535),
+  budget: integer(1),
+  adaptive: boolean,
+  beamWidth: integer(1),
+  phaseLimits: object(Object.fromEntries(PHASES.map(phase => [phase, integer(1)]))),
+  probeFilter: object({
+    excludeAsns: listOf(integer(1)),
+    excludeTags: listOf(text),
+    requireTags: listOf(text),
+    rejectOutliers: boolean
+  }),
+  pollTimeoutMs: positiveNumber,
+  clientTimeoutMs: positiveNumber,
+  wait: boolean,
+  thresholds: object({
+    anycastRttMs: positiveNumber,
+    anycastMinLocations: integer(1),
+    maxTrailingTimeouts: integer(0),
+    minResponsiveHop: integer(1),
+    backtrackRttMs: positiveNumber
+  }),
+  confidence: object({
+    veryHigh: integer(0, 100),
+    high: integer(0, 100),
+    medium: integer(0, 100)
+  })
+};
+
+const checkSettings = object(SETTINGS);
+
+const checkFile = object({
+  ...SETTINGS,
+  profile: text,
+  profiles: (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`${path} must be an object`);
+    }
+    for (const [name, profile] of Object.entries(value)) {
+      checkSettings(profile, `${path}.${name}`);
+    }
+  }
+});
+
+export function validateConfig(value: unknown): ConfigFile {
+  checkFile(value, '');
+  return value as ConfigFile;
+}
+
+export function defaultUserConfigPath(): string {
+  if (process.platform === 'win32' && process.env.APPDATA) {
+    return join(process.env.APPDATA, 'geolocate', 'config.json');
+  }
+
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'geolocate', 'config.json');
+}
+
+async function readConfigFile(path: string, required: boolean): Promise<ConfigFile | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT' && !required) {
+      return null;
+    }
+    throw new Error(`Unable to read ${path}: ${error.code === 'ENOENT' ? 'no such file' : error.message}`);
+  }
+
+  try {
+    return validateConfig(JSON.parse(content));
+  } catch (error: any) {
+    throw new Error(`${path}: ${error instanceof SyntaxError ? `not valid JSON, ${error.message}` : error.message}`);
+  }
+}
+
+// Nested settings are merged key by key, so that a profile can change a single threshold.
+export function mergeConfig(base: GeolocateConfig, override: GeolocateConfig): GeolocateConfig {
+  const merged: GeolocateConfig = { ...base, ...override };
+
+  for (const key of ['phaseLimits', 'probeFilter', 'thresholds', 'confidence'] as const) {
+    if (base[key] || override[key]) {
+      (merged as Record<string, unknown>)[key] = { ...base[key], ...override[key] };
+    }
+  }
+
+  return merged;
+}
+
+function settingsOf({ profile, profiles, ...settings }: ConfigFile): GeolocateConfig {
+  return settings;
+}
+
+// Reads the user configuration and the one of the project, an explicit path replacing the latter, and
+// applies the chosen profile on top. Command line options override the result.
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+  const userPath = options.userPath ?? defaultUserConfigPath();
+  const projectPath = options.path ? resolve(options.path) : join(options.cwd ?? process.cwd(), PROJECT_CONFIG_FILE);
+  const user = await readConfigFile(userPath, false);
+  const project = await readConfigFile(projectPath, options.path !== undefined);
+
+  const profiles = { ...BUILTIN_PROFILES, ...user?.profiles, ...project?.profiles };
+  const profile = options.profile ?? project?.profile ?? user?.profile ?? null;
+
+  if (profile !== null && !profiles[profile]) {
+    throw new Error(`Unknown profile "${profile}", available are ${Object.keys(profiles).join(', ')}`);
+  }
+
+  const layers: ConfigLayer[] = [
+    ...(user ? [{ name: userPath, config: settingsOf(user) }] : []),
+    ...(project ? [{ name: projectPath, config: settingsOf(project) }] : []),
+    ...(profile !== null ? [{ name: `profile ${profile}`, config: profiles[profile] }] : [])
+  ];
+  const config = layers.reduce((merged, layer) => mergeConfig(merged, layer.config), {} as GeolocateConfig);
+
+  const levels = { ...DEFAULT_CONFIDENCE_LEVELS, ...config.confidence };
+  if (!(levels.veryHigh >= levels.high && levels.high >= levels.medium)) {
+    throw new Error(`The confidence levels must not decrease from medium to veryHigh, got ${JSON.stringify(levels)}`);
+  }
+
+  return {
+    config,
+    profile,
+    profiles: Object.keys(profiles),
+    files: [{ path: userPath, found: user !== null }, { path: projectPath, found: project !== null }],
+    layers
+  };
+}
+
+function flatten(value: unknown, prefix = ''): [string, unknown][] {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, v]) => flatten(v, prefix ? `${prefix}.${key}` : key));
+  }
+  return [[prefix, value]];
+}
+
+// Every setting with its effective value and where it came from, defaults included.
+export function describeConfig({ config, layers }: ResolvedConfig): ConfigSetting[] {
+  const effective = mergeConfig(CONFIG_DEFAULTS, config);
+
+  return flatten(effective).map(([key, value]) => {
+    const layer = [...layers].reverse().find(l => flatten(l.config).some(([k]) => k === key));
+    return { key, value, source: layer?.name ?? 'default' };
+  });
+}
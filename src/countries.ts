@@ -1,4 +1,5 @@
 import { countries, continents } from 'countries-list';
+import { distanceKm, GeoPoint } from './geo.js';
 
 export const CONTINENTS = [
   { code: 'AF', name: continents.AF, magic: 'africa' },
@@ -36,3 +37,137 @@ export function getCountryContinent(code: string): string | null {
 export function getStateName(code: string): string {
   return US_STATES[code] || code;
 }
+
+export interface Subdivision {
+  code: string;
+  name: string;
+  points: Array<[number, number]>;
+}
+
+// Probes in these countries carry no state, so each one is assigned to the subdivision with the closest
+// reference point: the capital plus the largest cities near a border.
+export const SUBDIVISIONS: Record<string, Subdivision[]> = {
+  AU: [
+    { code: 'ACT', name: 'Australian Capital Territory', points: [[-35.28, 149.13]] },
+    { code: 'NSW', name: 'New South Wales', points: [[-33.87, 151.21], [-32.93, 151.78]] },
+    { code: 'NT', name: 'Northern Territory', points: [[-12.46, 130.84]] },
+    { code: 'QLD', name: 'Queensland', points: [[-27.47, 153.03], [-19.26, 146.82], [-16.92, 145.77]] },
+    { code: 'SA', name: 'South Australia', points: [[-34.93, 138.6]] },
+    { code: 'TAS', name: 'Tasmania', points: [[-42.88, 147.33]] },
+    { code: 'VIC', name: 'Victoria', points: [[-37.81, 144.96]] },
+    { code: 'WA', name: 'Western Australia', points: [[-31.95, 115.86]] }
+  ],
+  BR: [
+    { code: 'AC', name: 'Acre', points: [[-9.97, -67.81]] },
+    { code: 'AL', name: 'Alagoas', points: [[-9.65, -35.73]] },
+    { code: 'AM', name: 'Amazonas', points: [[-3.12, -60.02]] },
+    { code: 'AP', name: 'Amapá', points: [[0.03, -51.07]] },
+    { code: 'BA', name: 'Bahia', points: [[-12.97, -38.5]] },
+    { code: 'CE', name: 'Ceará', points: [[-3.73, -38.52]] },
+    { code: 'DF', name: 'Distrito Federal', points: [[-15.79, -47.88]] },
+    { code: 'ES', name: 'Espírito Santo', points: [[-20.32, -40.34]] },
+    { code: 'GO', name: 'Goiás', points: [[-16.68, -49.25]] },
+    { code: 'MA', name: 'Maranhão', points: [[-2.53, -44.3]] },
+    { code: 'MG', name: 'Minas Gerais', points: [[-19.92, -43.94], [-18.92, -48.28]] },
+    { code: 'MS', name: 'Mato Grosso do Sul', points: [[-20.47, -54.62]] },
+    { code: 'MT', name: 'Mato Grosso', points: [[-15.6, -56.1]] },
+    { code: 'PA', name: 'Pará', points: [[-1.46, -48.49]] },
+    { code: 'PB', name: 'Paraíba', points: [[-7.12, -34.86]] },
+    { code: 'PE', name: 'Pernambuco', points: [[-8.05, -34.88]] },
+    { code: 'PI', name: 'Piauí', points: [[-5.09, -42.8]] },
+    { code: 'PR', name: 'Paraná', points: [[-25.43, -49.27], [-23.31, -51.16]] },
+    { code: 'RJ', name: 'Rio de Janeiro', points: [[-22.91, -43.17]] },
+    { code: 'RN', name: 'Rio Grande do Norte', points: [[-5.79, -35.21]] },
+    { code: 'RO', name: 'Rondônia', points: [[-8.76, -63.9]] },
+    { code: 'RR', name: 'Roraima', points: [[2.82, -60.67]] },
+    { code: 'RS', name: 'Rio Grande do Sul', points: [[-30.03, -51.23]] },
+    { code: 'SC', name: 'Santa Catarina', points: [[-27.6, -48.55], [-26.3, -48.85]] },
+    { code: 'SE', name: 'Sergipe', points: [[-10.91, -37.07]] },
+    { code: 'SP', name: 'São Paulo', points: [[-23.55, -46.63], [-22.91, -47.06], [-21.18, -47.81]] },
+    { code: 'TO', name: 'Tocantins', points: [[-10.18, -48.33]] }
+  ],
+  CA: [
+    { code: 'AB', name: 'Alberta', points: [[53.55, -113.49], [51.05, -114.07]] },
+    { code: 'BC', name: 'British Columbia', points: [[48.43, -123.37], [49.28, -123.12], [49.89, -119.5]] },
+    { code: 'MB', name: 'Manitoba', points: [[49.9, -97.14]] },
+    { code: 'NB', name: 'New Brunswick', points: [[45.96, -66.64], [46.09, -64.78]] },
+    { code: 'NL', name: 'Newfoundland and Labrador', points: [[47.56, -52.71]] },
+    { code: 'NS', name: 'Nova Scotia', points: [[44.65, -63.58]] },
+    { code: 'NT', name: 'Northwest Territories', points: [[62.45, -114.37]] },
+    { code: 'NU', name: 'Nunavut', points: [[63.75, -68.52]] },
+    { code: 'ON', name: 'Ontario', points: [[43.65, -79.38], [45.42, -75.7], [42.98, -81.25], [48.38, -89.25]] },
+    { code: 'PE', name: 'Prince Edward Island', points: [[46.24, -63.13]] },
+    { code: 'QC', name: 'Quebec', points: [[46.81, -71.21], [45.5, -73.57]] },
+    { code: 'SK', name: 'Saskatchewan', points: [[50.45, -104.61], [52.13, -106.67]] },
+    { code: 'YT', name: 'Yukon', points: [[60.72, -135.06]] }
+  ],
+  IN: [
+    { code: 'AP', name: 'Andhra Pradesh', points: [[16.51, 80.52], [17.69, 83.22]] },
+    { code: 'AR', name: 'Arunachal Pradesh', points: [[27.08, 93.61]] },
+    { code: 'AS', name: 'Assam', points: [[26.14, 91.74]] },
+    { code: 'BR', name: 'Bihar', points: [[25.59, 85.14]] },
+    { code: 'CH', name: 'Chandigarh', points: [[30.73, 76.78]] },
+    { code: 'CT', name: 'Chhattisgarh', points: [[21.25, 81.63]] },
+    { code: 'DL', name: 'Delhi', points: [[28.61, 77.21]] },
+    { code: 'GA', name: 'Goa', points: [[15.49, 73.83]] },
+    { code: 'GJ', name: 'Gujarat', points: [[23.22, 72.64], [23.02, 72.57], [21.17, 72.83]] },
+    { code: 'HP', name: 'Himachal Pradesh', points: [[31.1, 77.17]] },
+    { code: 'HR', name: 'Haryana', points: [[28.46, 77.03], [28.41, 77.32]] },
+    { code: 'JH', name: 'Jharkhand', points: [[23.34, 85.31]] },
+    { code: 'JK', name: 'Jammu and Kashmir', points: [[34.08, 74.8]] },
+    { code: 'KA', name: 'Karnataka', points: [[12.97, 77.59]] },
+    { code: 'KL', name: 'Kerala', points: [[8.52, 76.94], [9.93, 76.26]] },
+    { code: 'MH', name: 'Maharashtra', points: [[19.08, 72.88], [18.52, 73.86], [21.15, 79.09]] },
+    { code: 'ML', name: 'Meghalaya', points: [[25.58, 91.89]] },
+    { code: 'MN', name: 'Manipur', points: [[24.82, 93.94]] },
+    { code: 'MP', name: 'Madhya Pradesh', points: [[23.26, 77.41], [22.72, 75.86]] },
+    { code: 'MZ', name: 'Mizoram', points: [[23.73, 92.72]] },
+    { code: 'NL', name: 'Nagaland', points: [[25.67, 94.11]] },
+    { code: 'OD', name: 'Odisha', points: [[20.3, 85.82]] },
+    { code: 'PB', name: 'Punjab', points: [[30.9, 75.86], [31.63, 74.87], [31.33, 75.58]] },
+    { code: 'RJ', name: 'Rajasthan', points: [[26.91, 75.79]] },
+    { code: 'SK', name: 'Sikkim', points: [[27.33, 88.61]] },
+    { code: 'TG', name: 'Telangana', points: [[17.39, 78.49]] },
+    { code: 'TN', name: 'Tamil Nadu', points: [[13.08, 80.27], [11.02, 76.96]] },
+    { code: 'TR', name: 'Tripura', points: [[23.83, 91.29]] },
+    { code: 'UK', name: 'Uttarakhand', points: [[30.32, 78.03]] },
+    { code: 'UP', name: 'Uttar Pradesh', points: [[26.85, 80.95], [28.54, 77.39], [26.45, 80.33]] },
+    { code: 'WB', name: 'West Bengal', points: [[22.57, 88.36]] }
+  ],
+  RU: [
+    { code: 'CEN', name: 'Central Federal District', points: [[55.76, 37.62], [51.66, 39.2]] },
+    { code: 'FE', name: 'Far Eastern Federal District', points: [[43.12, 131.89], [48.48, 135.08], [62.03, 129.73]] },
+    { code: 'NCA', name: 'North Caucasian Federal District', points: [[44.05, 43.06], [42.98, 47.5]] },
+    { code: 'NW', name: 'Northwestern Federal District', points: [[59.94, 30.31], [54.71, 20.51], [64.54, 40.54]] },
+    { code: 'SIB', name: 'Siberian Federal District', points: [[55.01, 82.93], [54.99, 73.37], [56.01, 92.87], [52.29, 104.28]] },
+    { code: 'SOU', name: 'Southern Federal District', points: [[47.24, 39.71], [45.04, 38.98], [48.71, 44.51]] },
+    { code: 'URA', name: 'Ural Federal District', points: [[56.84, 60.61], [55.16, 61.4], [57.15, 65.53]] },
+    { code: 'VOL', name: 'Volga Federal District', points: [[56.33, 44], [55.8, 49.11], [53.2, 50.15], [54.74, 55.97], [58.01, 56.25]] }
+  ]
+};
+
+export function hasSubdivisions(country: string): boolean {
+  return country === 'US' || country in SUBDIVISIONS;
+}
+
+export function getSubdivisionName(country: string, code: string): string {
+  if (country === 'US') {
+    return getStateName(code);
+  }
+  return SUBDIVISIONS[country]?.find(s => s.code === code)?.name || code;
+}
+
+export function nearestSubdivision(country: string, point: GeoPoint): Subdivision | null {
+  let best: { subdivision: Subdivision; distance: number } | null = null;
+
+  for (const subdivision of SUBDIVISIONS[country] ?? []) {
+    for (const [latitude, longitude] of subdivision.points) {
+      const distance = distanceKm(point, { latitude, longitude });
+      if (!best || distance < best.distance) {
+        best = { subdivision, distance };
+      }
+    }
+  }
+
+  return best?.subdivision ?? null;
+}
@@ -0,0 +1,19 @@
+export type ErrorCode = 'INVALID_INPUT' | 'RATE_LIMITED' | 'BUDGET_EXCEEDED' | 'API_ERROR' | 'NO_RESULTS';
+
+export const ERROR_CODES: readonly ErrorCode[] = ['INVALID_INPUT', 'RATE_LIMITED', 'BUDGET_EXCEEDED', 'API_ERROR', 'NO_RESULTS'];
+
+export type GeolocateError = Error & { code: ErrorCode };
+
+export function codedError(code: ErrorCode, message: string): GeolocateError {
+  return Object.assign(new Error(message), { code });
+}
+
+// A failed Globalping request, where a 429 means that the credits ran out.
+export function apiError(message: string, result: { response?: Response }): GeolocateError {
+  return codedError(result.response?.status === 429 ? 'RATE_LIMITED' : 'API_ERROR', message);
+}
+
+export function errorCode(error: unknown): ErrorCode | null {
+  const code = (error as { code?: unknown } | null)?.code;
+  return ERROR_CODES.includes(code as ErrorCode) ? code as ErrorCode : null;
+}
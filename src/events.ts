@@ -0,0 +1,228 @@
+import type {
+  Backtrack, LatencyAnalysis, LatencyMethod, LatencyTestResult, MeasurementProbe, PhaseName, PhaseSummary, ProbeSample
+} from './measure.js';
+import type { MeasurementLocations } from 'globalping';
+import type { BudgetAllocation } from './budget.js';
+import type { HistoryEntry, LocationChangeLevel } from './history.js';
+import type { SpecialPurposeRange } from './ip.js';
+import type { PipelineScope } from './pipeline.js';
+import type { AddressFamily, RegionalAnswer, ResolvedAddress } from './resolve.js';
+import type { RetryInfo } from './retry.js';
+
+export interface TargetResolvedEvent {
+  type: 'target-resolved';
+  target: string;
+  hostname: string;
+  addresses: ResolvedAddress[];
+}
+
+export interface ResolutionMismatchEvent {
+  type: 'resolution-mismatch';
+  hostname: string;
+  mismatches: RegionalAnswer[];
+}
+
+export interface AddressStartEvent {
+  type: 'address-start';
+  address: string;
+  family: AddressFamily;
+  index: number;
+  total: number;
+}
+
+export interface GeofeedEntryEvent {
+  type: 'geofeed-entry';
+  prefix: string;
+  line: number;
+  index: number;
+  total: number;
+}
+
+export interface PrefixHostEvent {
+  type: 'prefix-host';
+  prefix: string;
+  address: string;
+  responsive: boolean;
+  sample: number;
+  samples: number;
+}
+
+export interface RepeatRunEvent {
+  type: 'repeat-run';
+  target: string;
+  run: number;
+  runs: number;
+}
+
+export interface LocationChangedEvent {
+  type: 'location-changed';
+  target: string;
+  level: LocationChangeLevel;
+  from: HistoryEntry;
+  to: HistoryEntry;
+}
+
+export interface UnreachableTargetEvent {
+  type: 'unreachable-target';
+  address: string;
+  range: SpecialPurposeRange;
+  message: string;
+}
+
+export interface BudgetEvent {
+  type: 'budget';
+  allocation: BudgetAllocation;
+}
+
+export interface ResumeEvent {
+  type: 'resume';
+  target: string;
+  phases: PhaseName[];
+  measurements: number;
+  credits: number;
+  updatedAt: string;
+}
+
+export interface RetryEvent extends RetryInfo {
+  type: 'retry';
+}
+
+export interface PhaseStartEvent {
+  type: 'phase-start';
+  phase: PhaseName;
+  scope: PipelineScope;
+  step: number;
+}
+
+export interface PhaseReusedEvent {
+  type: 'phase-reused';
+  phase: PhaseName;
+  step: number;
+  summary: PhaseSummary;
+}
+
+export interface EarlyStopEvent {
+  type: 'early-stop';
+  phase: PhaseName;
+  scope: PipelineScope;
+  leader: string;
+  probesUsed: number;
+  spareProbes: number;
+}
+
+export interface FollowUpEvent {
+  type: 'follow-up';
+  phase: PhaseName;
+  scope: PipelineScope;
+  candidates: string[];
+  probes: number;
+}
+
+export interface MeasurementCreatedEvent {
+  type: 'measurement-created';
+  phase: PhaseName;
+  measurementId: string;
+  probesCount: number;
+  method: LatencyMethod;
+  locations: MeasurementLocations;
+  resumed: boolean;
+  cost: number;
+  creditsRemaining: number | null;
+  rateLimitRemaining: number | null;
+}
+
+export interface ProgressEvent {
+  type: 'progress';
+  phase: PhaseName;
+  finished: number;
+  total: number;
+  best?: { code: string; latency: number };
+}
+
+export interface PollTimeoutEvent {
+  type: 'poll-timeout';
+  phase: PhaseName;
+  measurementId: string;
+  finished: number;
+  total: number;
+}
+
+export interface ProbeResultEvent {
+  type: 'probe-result';
+  phase: PhaseName;
+  probe: MeasurementProbe;
+  result: LatencyTestResult;
+  analysis: LatencyAnalysis;
+}
+
+export interface MethodFallbackEvent {
+  type: 'method-fallback';
+  phase: PhaseName;
+  from: LatencyMethod;
+  to: LatencyMethod;
+}
+
+export interface PhaseEndEvent {
+  type: 'phase-end';
+  phase: PhaseName;
+  summary: PhaseSummary;
+  samples: ProbeSample[];
+  anycast: boolean;
+}
+
+export interface BacktrackEvent {
+  type: 'backtrack';
+  phase: PhaseName;
+  scope: PipelineScope;
+  from: string;
+  to: string;
+  rtt: number | null;
+}
+
+export interface BacktrackEndEvent {
+  type: 'backtrack-end';
+  backtrack: Backtrack;
+}
+
+export interface PathStartEvent {
+  type: 'path-start';
+  target: string;
+  measurementId: string;
+  probesCount: number;
+  cost: number;
+}
+
+export interface AnycastEvent {
+  type: 'anycast';
+  phase: PhaseName;
+  mapping: boolean;
+}
+
+export type GeolocateEvent =
+  | TargetResolvedEvent
+  | ResolutionMismatchEvent
+  | AddressStartEvent
+  | GeofeedEntryEvent
+  | PrefixHostEvent
+  | RepeatRunEvent
+  | LocationChangedEvent
+  | UnreachableTargetEvent
+  | BudgetEvent
+  | ResumeEvent
+  | RetryEvent
+  | PhaseStartEvent
+  | PhaseReusedEvent
+  | MeasurementCreatedEvent
+  | ProgressEvent
+  | PollTimeoutEvent
+  | ProbeResultEvent
+  | MethodFallbackEvent
+  | EarlyStopEvent
+  | FollowUpEvent
+  | PhaseEndEvent
+  | BacktrackEvent
+  | BacktrackEndEvent
+  | AnycastEvent
+  | PathStartEvent;
+
+export type GeolocateEventListener = (event: GeolocateEvent) => void;
@@ -0,0 +1,131 @@
+export const EARTH_RADIUS_KM = 6371;
+
+// Light in fiber covers roughly 200 km per ms, so every ms of round trip bounds the distance to 100 km.
+export const FIBER_KM_PER_RTT_MS = 100;
+
+const MAX_CONSTRAINTS = 50;
+const GRID_SIZE = 80;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DistanceConstraint extends GeoPoint {
+  rtt: number;
+}
+
+export interface LocationEstimate extends GeoPoint {
+  radiusKm: number;
+  constraints: number;
+  violated: number;
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
+
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function maxDistanceKm(rtt: number): number {
+  return rtt * FIBER_KM_PER_RTT_MS;
+}
+
+function normalizeLongitude(longitude: number): number {
+  return ((longitude + 540) % 360) - 180;
+}
+
+function centroid(points: GeoPoint[]): GeoPoint {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+
+  for (const p of points) {
+    const lat = toRadians(p.latitude);
+    const lon = toRadians(p.longitude);
+    x += Math.cos(lat) * Math.cos(lon);
+    y += Math.cos(lat) * Math.sin(lon);
+    z += Math.sin(lat);
+  }
+
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    longitude: toDegrees(Math.atan2(y, x))
+  };
+}
+
+function gridAround(center: GeoPoint, radiusKm: number): { points: GeoPoint[]; cellKm: number } {
+  const latSpan = Math.min(90, toDegrees(radiusKm / EARTH_RADIUS_KM));
+  const cosLat = Math.cos(toRadians(center.latitude));
+  const lonSpan = cosLat < 0.01 ? 180 : Math.min(180, latSpan / cosLat);
+  const points: GeoPoint[] = [];
+
+  for (let i = 0; i <= GRID_SIZE; i++) {
+    const latitude = center.latitude - latSpan + (2 * latSpan * i) / GRID_SIZE;
+    if (latitude < -90 || latitude > 90) {
+      continue;
+    }
+    for (let j = 0; j <= GRID_SIZE; j++) {
+      const longitude = normalizeLongitude(center.longitude - lonSpan + (2 * lonSpan * j) / GRID_SIZE);
+      points.push({ latitude, longitude });
+    }
+  }
+
+  return { points, cellKm: (2 * radiusKm) / GRID_SIZE };
+}
+
+// Constraint-based geolocation: every probe limits the target to a disk around itself, the estimate
+// is the centre of the area that the most disks agree on.
+export function estimateLocation(samples: DistanceConstraint[]): LocationEstimate | null {
+  const constraints = samples
+    .filter(s => Number.isFinite(s.latitude) && Number.isFinite(s.longitude) && s.rtt >= 0)
+    .sort((a, b) => a.rtt - b.rtt)
+    .slice(0, MAX_CONSTRAINTS);
+
+  if (constraints.length === 0) {
+    return null;
+  }
+
+  const anchor = constraints[0];
+  const { points, cellKm } = gridAround(anchor, Math.max(maxDistanceKm(anchor.rtt), 1));
+
+  let bestScore = -1;
+  let feasible: GeoPoint[] = [];
+
+  for (const point of points) {
+    let score = 0;
+    for (const c of constraints) {
+      if (distanceKm(point, c) <= maxDistanceKm(c.rtt) + cellKm) {
+        score++;
+      }
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      feasible = [point];
+    } else if (score === bestScore) {
+      feasible.push(point);
+    }
+  }
+
+  const center = centroid(feasible);
+  const radiusKm = Math.max(...feasible.map(p => distanceKm(center, p))) + cellKm / 2;
+
+  return {
+    latitude: center.latitude,
+    longitude: center.longitude,
+    radiusKm,
+    constraints: constraints.length,
+    violated: constraints.length - bestScore
+  };
+}
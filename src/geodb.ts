@@ -0,0 +1,450 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { formatIp, parseIp, ParsedIp } from './ip.js';
+
+export type GeoDatabaseFormat = 'mmdb' | 'csv';
+
+export interface DatabaseRecord {
+  network: string;
+  country: string | null;
+  state: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracyRadiusKm: number | null;
+}
+
+export interface GeoDatabase {
+  name: string;
+  format: GeoDatabaseFormat;
+  lookup(ip: string): DatabaseRecord | null;
+}
+
+// The location fields of an MMDB record. MaxMind and DB-IP nest them, IPinfo and most other vendors keep
+// them flat. Records have more fields than these, which are not read.
+interface MmdbRecord {
+  country?: { iso_code?: string } | string;
+  registered_country?: { iso_code?: string };
+  country_code?: string;
+  subdivisions?: { iso_code?: string }[];
+  region_code?: string;
+  city?: { names?: { en?: string } } | string;
+  location?: { latitude?: number; longitude?: number; accuracy_radius?: number };
+  latitude?: number | string;
+  longitude?: number | string;
+  lat?: number | string;
+  lng?: number | string;
+}
+
+interface MmdbMetadata {
+  node_count: number;
+  record_size: number;
+  ip_version: number;
+}
+
+type CsvColumn = 'network' | 'start' | 'end' | 'country' | 'state' | 'city' | 'latitude' | 'longitude' | 'accuracy';
+
+type CsvFields = Partial<Record<CsvColumn, string>>;
+
+type Guard<T> = (value: unknown) => value is T;
+
+interface CsvRange {
+  family: 4 | 6;
+  start: bigint;
+  end: bigint;
+  record: DatabaseRecord;
+}
+
+// The metadata section starts after the last occurrence of this marker, see the MaxMind DB spec.
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex');
+const DATA_SECTION_SEPARATOR = 16;
+
+const CSV_COLUMNS: Record<CsvColumn, string[]> = {
+  network: ['network', 'prefix', 'cidr', 'ip_prefix'],
+  start: ['start_ip', 'ip_start', 'first_ip', 'range_start'],
+  end: ['end_ip', 'ip_end', 'last_ip', 'range_end'],
+  country: ['country', 'country_code', 'country_iso_code', 'alpha2code'],
+  state: ['region', 'state', 'subdivision', 'region_code', 'subdivision_1_iso_code'],
+  city: ['city', 'city_name'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng'],
+  accuracy: ['accuracy_radius', 'accuracy_radius_km', 'radius']
+};
+
+// RFC 8805 geofeeds have no header: prefix, country, region, city and postal code.
+const GEOFEED_COLUMNS: CsvColumn[] = ['network', 'country', 'state', 'city'];
+
+function decodeUnsigned(buffer: Buffer, offset: number, size: number): number {
+  if (size <= 6) {
+    return size === 0 ? 0 : buffer.readUIntBE(offset, size);
+  }
+  let value = 0n;
+  for (let i = 0; i < size; i++) {
+    value = (value << 8n) | BigInt(buffer[offset + i]);
+  }
+  return Number(value);
+}
+
+// Decodes one value of the MaxMind DB data section format. Pointers are relative to `base`.
+function decodeValue(buffer: Buffer, base: number, offset: number): { value: unknown; next: number } {
+  const control = buffer[offset++];
+  let type = control >> 5;
+
+  if (type === 1) {
+    const size = (control >> 3) & 0x3;
+    const high = control & 0x7;
+    let pointer: number;
+    if (size === 0) {
+      pointer = (high << 8) | buffer[offset];
+    } else if (size === 1) {
+      pointer = ((high << 16) | buffer.readUInt16BE(offset)) + 2048;
+    } else if (size === 2) {
+      pointer = ((high << 24) | buffer.readUIntBE(offset, 3)) + 526336;
+    } else {
+      pointer = buffer.readUInt32BE(offset);
+    }
+    return { value: decodeValue(buffer, base, base + pointer).value, next: offset + size + 1 };
+  }
+
+  if (type === 0) {
+    type = 7 + buffer[offset++];
+  }
+
+  let size = control & 0x1f;
+  if (size === 29) {
+    size = 29 + buffer[offset++];
+  } else if (size === 30) {
+    size = 285 + buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (size === 31) {
+    size = 65821 + buffer.readUIntBE(offset, 3);
+    offset += 3;
+  }
+
+  switch (type) {
+    case 2:
+      return { value: buffer.toString('utf8', offset, offset + size), next: offset + size };
+    case 3:
+      return { value: buffer.readDoubleBE(offset), next: offset + 8 };
+    case 4:
+      return { value: buffer.subarray(offset, offset + size), next: offset + size };
+    case 5:
+    case 6:
+    case 9:
+    case 10:
+      return { value: decodeUnsigned(buffer, offset, size), next: offset + size };
+    case 8:
+      return { value: size === 4 ? buffer.readInt32BE(offset) : decodeUnsigned(buffer, offset, size), next: offset + size };
+    case 7: {
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < size; i++) {
+        const key = decodeValue(buffer, base, offset);
+        const value = decodeValue(buffer, base, key.next);
+        map[key.value as string] = value.value;
+        offset = value.next;
+      }
+      return { value: map, next: offset };
+    }
+    case 11: {
+      const array: unknown[] = [];
+      for (let i = 0; i < size; i++) {
+        const item = decodeValue(buffer, base, offset);
+        array.push(item.value);
+        offset = item.next;
+      }
+      return { value: array, next: offset };
+    }
+    case 14:
+      return { value: size !== 0, next: offset };
+    case 15:
+      return { value: buffer.readFloatBE(offset), next: offset + 4 };
+    default:
+      throw new Error(`Unsupported MaxMind DB data type ${type}`);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function toCode(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim().toUpperCase() : null;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function oneOf<A, B>(a: Guard<A>, b: Guard<B>): Guard<A | B> {
+  return (value): value is A | B => a(value) || b(value);
+}
+
+function arrayOf<T>(guard: Guard<T>): Guard<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard);
+}
+
+// A map whose listed fields, where present, have the expected type.
+function shape<T>(fields: Record<string, Guard<unknown>>): Guard<T> {
+  return (value): value is T => isMap(value) && Object.entries(fields).every(([key, guard]) => value[key] === undefined || guard(value[key]));
+}
+
+const isIsoCode = shape<{ iso_code?: string }>({ iso_code: isString });
+
+const MMDB_RECORD_FIELDS: Record<keyof MmdbRecord, Guard<unknown>> = {
+  country: oneOf(isIsoCode, isString),
+  registered_country: isIsoCode,
+  country_code: isString,
+  subdivisions: arrayOf(isIsoCode),
+  region_code: isString,
+  city: oneOf(shape({ names: shape({ en: isString }) }), isString),
+  location: shape({ latitude: isNumber, longitude: isNumber, accuracy_radius: isNumber }),
+  latitude: oneOf(isNumber, isString),
+  longitude: oneOf(isNumber, isString),
+  lat: oneOf(isNumber, isString),
+  lng: oneOf(isNumber, isString)
+};
+
+// A record without any location field, or with one of another type, comes from a database of another
+// kind, such as an ASN database, and would otherwise compare as an empty claim.
+function toMmdbRecord(name: string, network: string, value: unknown): MmdbRecord {
+  if (!isMap(value)) {
+    throw new Error(`The record of ${network} in ${name} is not a map`);
+  }
+
+  const fields = Object.entries(MMDB_RECORD_FIELDS).filter(([key]) => value[key] !== undefined);
+
+  if (fields.length === 0) {
+    throw new Error(`The record of ${network} in ${name} has no location fields`);
+  }
+
+  for (const [key, guard] of fields) {
+    if (!guard(value[key])) {
+      throw new Error(`The record of ${network} in ${name} has an unexpected ${key} field`);
+    }
+  }
+
+  return value as MmdbRecord;
+}
+
+function toDatabaseRecord(network: string, data: MmdbRecord): DatabaseRecord {
+  const country = typeof data.country === 'string' ? undefined : data.country?.iso_code;
+  const city = typeof data.city === 'string' ? data.city : data.city?.names?.en;
+
+  return {
+    network,
+    country: toCode(country ?? data.registered_country?.iso_code ?? data.country_code ?? data.country),
+    state: toCode(data.subdivisions?.[0]?.iso_code ?? data.region_code),
+    city: city ?? null,
+    latitude: toNumber(data.location?.latitude ?? data.latitude ?? data.lat),
+    longitude: toNumber(data.location?.longitude ?? data.longitude ?? data.lng),
+    accuracyRadiusKm: toNumber(data.location?.accuracy_radius)
+  };
+}
+
+const isMetadata = (value: unknown): value is MmdbMetadata => isMap(value)
+  && isNumber(value.node_count) && isNumber(value.record_size) && isNumber(value.ip_version);
+
+function networkOf(ip: ParsedIp, length: number): string {
+  const shift = BigInt((ip.family === 4 ? 32 : 128) - length);
+  return `${formatIp({ family: ip.family, value: (ip.value >> shift) << shift })}/${length}`;
+}
+
+export function openMmdb(name: string, buffer: Buffer): GeoDatabase {
+  const markerAt = buffer.lastIndexOf(METADATA_MARKER);
+
+  if (markerAt === -1) {
+    throw new Error(`${name} is not a MaxMind DB file`);
+  }
+
+  const metadataStart = markerAt + METADATA_MARKER.length;
+  const metadata = decodeValue(buffer, metadataStart, metadataStart).value;
+
+  if (!isMetadata(metadata)) {
+    throw new Error(`${name} has no node_count, record_size or ip_version in its metadata`);
+  }
+
+  const nodeCount = metadata.node_count;
+  const recordSize = metadata.record_size;
+  const nodeBytes = recordSize / 4;
+  const dataStart = nodeCount * nodeBytes + DATA_SECTION_SEPARATOR;
+
+  if (![24, 28, 32].includes(recordSize)) {
+    throw new Error(`Unsupported record size ${recordSize} in ${name}`);
+  }
+
+  const readRecord = (node: number, bit: number): number => {
+    const offset = node * nodeBytes;
+    if (recordSize === 24) {
+      return buffer.readUIntBE(offset + bit * 3, 3);
+    }
+    if (recordSize === 28) {
+      return bit === 0
+        ? ((buffer[offset + 3] & 0xf0) << 20) | buffer.readUIntBE(offset, 3)
+        : ((buffer[offset + 3] & 0x0f) << 24) | buffer.readUIntBE(offset + 4, 3);
+    }
+    return buffer.readUInt32BE(offset + bit * 4);
+  };
+
+  // IPv4 addresses live under ::/96 of an IPv6 tree.
+  let ipv4Start = 0;
+  if (metadata.ip_version === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) {
+      ipv4Start = readRecord(ipv4Start, 0);
+    }
+  }
+
+  return {
+    name,
+    format: 'mmdb',
+    lookup(ip) {
+      const parsed = parseIp(ip);
+
+      if (!parsed || (parsed.family === 6 && metadata.ip_version === 4)) {
+        return null;
+      }
+
+      const bits = parsed.family === 4 ? 32 : 128;
+      let node = parsed.family === 4 ? ipv4Start : 0;
+      let depth = 0;
+
+      while (node < nodeCount && depth < bits) {
+        node = readRecord(node, Number((parsed.value >> BigInt(bits - 1 - depth)) & 1n));
+        depth++;
+      }
+
+      if (node <= nodeCount) {
+        return null;
+      }
+
+      const network = networkOf(parsed, depth);
+      const data = decodeValue(buffer, dataStart, dataStart + node - nodeCount - DATA_SECTION_SEPARATOR).value;
+      return toDatabaseRecord(network, toMmdbRecord(name, network, data));
+    }
+  };
+}
+
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+function csvRange(fields: CsvFields): Omit<CsvRange, 'record'> | null {
+  if (fields.network) {
+    const [address, length] = fields.network.split('/');
+    const parsed = parseIp(address);
+    if (!parsed) {
+      return null;
+    }
+    const bits = parsed.family === 4 ? 32 : 128;
+    const hostBits = BigInt(bits - (length === undefined ? bits : Number(length)));
+    const start = (parsed.value >> hostBits) << hostBits;
+    return { family: parsed.family, start, end: start + (1n << hostBits) - 1n };
+  }
+
+  const start = parseIp(fields.start ?? '');
+  const end = parseIp(fields.end ?? '');
+  if (!start || !end || start.family !== end.family) {
+    return null;
+  }
+  return { family: start.family, start: start.value, end: end.value };
+}
+
+// Accepts a header naming the columns, as in most vendor exports, or a headerless RFC 8805 geofeed.
+export function openCsv(name: string, content: string): GeoDatabase {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+  const header = lines.length > 0 ? parseCsvLine(lines[0]).map(h => h.toLowerCase()) : [];
+  const hasHeader = header.some(h => CSV_COLUMNS.network.includes(h) || CSV_COLUMNS.start.includes(h));
+  const columns = hasHeader
+    ? header.map(h => (Object.keys(CSV_COLUMNS) as CsvColumn[]).find(column => CSV_COLUMNS[column].includes(h)))
+    : GEOFEED_COLUMNS;
+  const ranges: CsvRange[] = [];
+
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const values = parseCsvLine(line);
+    const fields: CsvFields = {};
+    columns.forEach((column, i) => {
+      if (column && values[i]) {
+        fields[column] = values[i];
+      }
+    });
+
+    const range = csvRange(fields);
+    if (!range) {
+      continue;
+    }
+
+    const country = toCode(fields.country);
+    ranges.push({
+      ...range,
+      record: {
+        network: fields.network ?? `${fields.start}-${fields.end}`,
+        country,
+        // Geofeeds use ISO 3166-2 codes such as US-CA.
+        state: toCode(fields.state)?.replace(/^[A-Z]{2}-/, '') ?? null,
+        city: fields.city || null,
+        latitude: toNumber(fields.latitude),
+        longitude: toNumber(fields.longitude),
+        accuracyRadiusKm: toNumber(fields.accuracy)
+      }
+    });
+  }
+
+  if (ranges.length === 0) {
+    throw new Error(`${name} contains no IP ranges`);
+  }
+
+  return {
+    name,
+    format: 'csv',
+    lookup(ip) {
+      const parsed = parseIp(ip);
+      let best: CsvRange | null = null;
+
+      for (const range of ranges) {
+        if (parsed && range.family === parsed.family && range.start <= parsed.value && parsed.value <= range.end
+          && (!best || range.end - range.start < best.end - best.start)) {
+          best = range;
+        }
+      }
+
+      return best?.record ?? null;
+    }
+  };
+}
+
+export async function openGeoDatabase(path: string): Promise<GeoDatabase> {
+  const buffer = await readFile(path);
+  const name = basename(path);
+  const isMmdb = extname(path).toLowerCase() === '.mmdb' || buffer.lastIndexOf(METADATA_MARKER) !== -1;
+
+  return isMmdb ? openMmdb(name, buffer) : openCsv(name, buffer.toString('utf8'));
+}
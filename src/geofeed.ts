@@ -0,0 +1,159 @@
+import { getCountryContinent } from './countries.js';
+import { parseCsvLine } from './geodb.js';
+import { formatCidr, parseCidr } from './ip.js';
+import type { ProbeResult } from './measure.js';
+import type { PhaseDefinition } from './pipeline.js';
+
+export interface GeofeedEntry {
+  prefix: string;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+}
+
+export interface GeofeedLine {
+  line: number;
+  prefix: string;
+  entry: GeofeedEntry | null;
+  error?: string;
+}
+
+export type GeofeedStatus = 'ok' | 'mismatch' | 'unmeasured' | 'invalid';
+
+export interface GeofeedCheck {
+  line: number;
+  prefix: string;
+  feed: GeofeedEntry | null;
+  measured: GeofeedEntry | null;
+  countryMatch: boolean | null;
+  regionMatch: boolean | null;
+  status: GeofeedStatus;
+  reason: string;
+  addresses: string[];
+  credits: number;
+}
+
+// Russian probes are grouped by federal district, which has no ISO 3166-2 code.
+const NO_ISO_REGIONS = ['RU'];
+
+function lineError(prefix: string, country: string, region: string): string | null {
+  const parsed = parseCidr(prefix);
+
+  if (!parsed) {
+    return `Invalid prefix ${prefix}`;
+  }
+  if (parsed.hostBits) {
+    return `${prefix} has host bits set, the prefix is ${formatCidr(parsed)}`;
+  }
+  if (country && !getCountryContinent(country)) {
+    return `Unknown country code ${country}`;
+  }
+  if (region && (!country || !new RegExp(`^${country}-[A-Z0-9]{1,3}$`).test(region))) {
+    return `Region ${region} is not an ISO 3166-2 code of ${country || 'the country'}`;
+  }
+
+  return null;
+}
+
+// Reads an RFC 8805 geofeed: prefix, country, region, city and postal code, without a header.
+export function parseGeofeed(content: string): GeofeedLine[] {
+  const lines: GeofeedLine[] = [];
+
+  for (const [index, text] of content.split(/\r?\n/).entries()) {
+    if (text.trim() === '' || text.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    const [prefix = '', country = '', region = '', city = ''] = parseCsvLine(text).map(f => f.trim());
+    const countryCode = country.toUpperCase();
+    const regionCode = region.toUpperCase();
+    const error = lineError(prefix, countryCode, regionCode);
+
+    lines.push(error
+      ? { line: index + 1, prefix, entry: null, error }
+      : {
+        line: index + 1,
+        prefix,
+        entry: { prefix: formatCidr(parseCidr(prefix)!), country: countryCode || null, region: regionCode || null, city: city || null }
+      });
+  }
+
+  return lines;
+}
+
+function feedField(value: string | null): string {
+  if (value === null) {
+    return '';
+  }
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatGeofeed(entries: GeofeedEntry[]): string {
+  return entries.map(e => [e.prefix, e.country, e.region, e.city].map(feedField).join(',')).join('\n');
+}
+
+export function isoRegion(country: string, state: string | null | undefined): string | null {
+  return state && !NO_ISO_REGIONS.includes(country) ? `${country}-${state}` : null;
+}
+
+function mostCommon(values: Array<string | null | undefined>): string | null {
+  const counts = new Map<string, number>();
+  let best: string | null = null;
+
+  for (const value of values) {
+    if (value && value !== 'Unknown') {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+      if (best === null || counts.get(value)! > counts.get(best)!) {
+        best = value;
+      }
+    }
+  }
+
+  return best;
+}
+
+// The sampled hosts vote: the most common country wins, then the most common region and city within it.
+export function summarizePrefix(prefix: string, locations: ProbeResult[]): GeofeedEntry {
+  const country = mostCommon(locations.map(l => l.country));
+  const inCountry = locations.filter(l => l.country === country);
+  const region = mostCommon(inCountry.map(l => isoRegion(l.country, l.state)));
+  const inRegion = region ? inCountry.filter(l => isoRegion(l.country, l.state) === region) : inCountry;
+
+  return { prefix, country, region, city: mostCommon(inRegion.map(l => l.city)) };
+}
+
+// Only the country and the region are checked, neighbouring cities are often too close for the probes to tell apart.
+export function compareGeofeedEntry(
+  feed: GeofeedEntry,
+  measured: GeofeedEntry
+): Pick<GeofeedCheck, 'countryMatch' | 'regionMatch' | 'status' | 'reason'> {
+  const countryMatch = feed.country && measured.country ? feed.country === measured.country : null;
+  const regionMatch = countryMatch && feed.region && measured.region ? feed.region === measured.region : null;
+
+  if (countryMatch === false) {
+    return { countryMatch, regionMatch, status: 'mismatch', reason: `The feed says ${feed.country}, but it measures as ${measured.country}` };
+  }
+  if (regionMatch === false) {
+    return { countryMatch, regionMatch, status: 'mismatch', reason: `The feed says ${feed.region}, but it measures as ${measured.region}` };
+  }
+  if (countryMatch === null) {
+    return { countryMatch, regionMatch, status: 'ok', reason: feed.country ? 'No country could be measured' : 'The feed has no country' };
+  }
+
+  return { countryMatch, regionMatch, status: 'ok', reason: regionMatch ? 'Country and region agree' : 'Country agrees' };
+}
+
+// A single cheap measurement that tells whether an address answers at all before it is geolocated.
+export function createReachabilityPhase(probes: number): PhaseDefinition {
+  return {
+    phase: 'reachability',
+    applies: () => true,
+    probes: () => probes,
+    maxProbes: () => probes,
+    locations: () => [{ magic: 'world', limit: probes }],
+    groupBy: (item) => item.probe.continent,
+    rankBy: 'min',
+    stopOnAnycast: false,
+    narrow: (scope) => scope
+  };
+}
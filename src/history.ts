@@ -0,0 +1,199 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { ConfidenceLabel, ConfidenceScore } from './confidence.js';
+import type { GeolocationRun, LatencyMethod } from './measure.js';
+
+export interface HistoryEntry {
+  measuredAt: string;
+  anycast: boolean;
+  country: string | null;
+  state: string | null;
+  city: string | null;
+  minRtt: number | null;
+  method: LatencyMethod | null;
+  confidence: ConfidenceLabel | null;
+  confidenceScore: number | null;
+  measurementIds: string[];
+  credits: number;
+}
+
+export type LocationChangeLevel = 'anycast' | 'country' | 'state' | 'city';
+
+export interface LocationChange {
+  level: LocationChangeLevel;
+  from: HistoryEntry;
+  to: HistoryEntry;
+}
+
+export interface HistorySummary {
+  target: string;
+  runs: number;
+  first: HistoryEntry;
+  last: HistoryEntry;
+  changes: number;
+}
+
+export interface HistoryStore {
+  dir: string;
+  record(target: string, entry: HistoryEntry): Promise<HistoryEntry | null>;
+  read(target: string): Promise<HistoryEntry[]>;
+  list(): Promise<HistorySummary[]>;
+  clear(target?: string): Promise<number>;
+}
+
+interface HistoryFile {
+  version: number;
+  target: string;
+  entries: HistoryEntry[];
+}
+
+const HISTORY_VERSION = 1;
+const MAX_HISTORY_ENTRIES = 1000;
+
+export function defaultHistoryDir(): string {
+  if (process.env.GEOLOCATE_HISTORY_DIR) {
+    return process.env.GEOLOCATE_HISTORY_DIR;
+  }
+
+  if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+    return join(process.env.LOCALAPPDATA, 'geolocate', 'history');
+  }
+
+  return join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'geolocate', 'history');
+}
+
+function historyFile(dir: string, target: string): string {
+  return join(dir, `${target.replace(/[:/]/g, '_')}.json`);
+}
+
+async function readHistory(file: string): Promise<HistoryFile | null> {
+  try {
+    const history = JSON.parse(await readFile(file, 'utf8')) as HistoryFile;
+    return history.version === HISTORY_VERSION ? history : null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function historyEntry(run: GeolocationRun, confidence: ConfidenceScore | null): HistoryEntry {
+  const best = run.isAnycast ? null : run.results[0] ?? null;
+
+  return {
+    measuredAt: new Date().toISOString(),
+    anycast: run.isAnycast,
+    country: best?.country ?? null,
+    state: best?.state ?? null,
+    city: best?.city ?? null,
+    minRtt: best?.minRtt ?? null,
+    method: best?.method ?? null,
+    confidence: confidence?.label ?? null,
+    confidenceScore: confidence?.score ?? null,
+    measurementIds: run.phases.flatMap(p => [p.fallbackFrom?.measurementId, p.measurementId, p.followUp?.measurementId])
+      .filter((id): id is string => id !== undefined),
+    credits: run.credits.consumed
+  };
+}
+
+// The coarsest level at which two runs disagree. Runs without a location are never a change.
+export function compareLocations(from: HistoryEntry, to: HistoryEntry): LocationChangeLevel | null {
+  if (from.anycast !== to.anycast) {
+    return 'anycast';
+  }
+  if (from.anycast || !from.country || !to.country) {
+    return null;
+  }
+  if (from.country !== to.country) {
+    return 'country';
+  }
+  if ((from.state ?? null) !== (to.state ?? null)) {
+    return 'state';
+  }
+  return from.city !== to.city ? 'city' : null;
+}
+
+export function findLocationChanges(entries: HistoryEntry[]): LocationChange[] {
+  const changes: LocationChange[] = [];
+
+  for (let i = 1; i < entries.length; i++) {
+    const level = compareLocations(entries[i - 1], entries[i]);
+    if (level) {
+      changes.push({ level, from: entries[i - 1], to: entries[i] });
+    }
+  }
+
+  return changes;
+}
+
+// One JSON file per target with its runs, oldest first. Unlike the cache nothing expires, only the
+// oldest runs are dropped once a target has more than MAX_HISTORY_ENTRIES.
+export function createHistoryStore(dir: string = defaultHistoryDir()): HistoryStore {
+  return {
+    dir,
+
+    async record(target, entry) {
+      const file = historyFile(dir, target);
+      const entries = (await readHistory(file))?.entries ?? [];
+      const history: HistoryFile = { version: HISTORY_VERSION, target, entries: [...entries, entry].slice(-MAX_HISTORY_ENTRIES) };
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(file, JSON.stringify(history));
+      return entries[entries.length - 1] ?? null;
+    },
+
+    async read(target) {
+      return (await readHistory(historyFile(dir, target)))?.entries ?? [];
+    },
+
+    async list() {
+      let files: string[];
+      try {
+        files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort();
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+
+      const summaries: HistorySummary[] = [];
+      for (const file of files) {
+        const history = await readHistory(join(dir, file));
+        if (!history || history.entries.length === 0) {
+          continue;
+        }
+        const { target, entries } = history;
+        summaries.push({
+          target,
+          runs: entries.length,
+          first: entries[0],
+          last: entries[entries.length - 1],
+          changes: findLocationChanges(entries).length
+        });
+      }
+      return summaries;
+    },
+
+    async clear(target) {
+      const files = target
+        ? [historyFile(dir, target)]
+        : (await readdir(dir).catch(() => [] as string[])).filter(f => f.endsWith('.json')).map(f => join(dir, f));
+
+      let removed = 0;
+      for (const file of files) {
+        try {
+          await rm(file);
+          removed++;
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      }
+      return removed;
+    }
+  };
+}
@@ -1,39 +1,479 @@
 #!/usr/bin/env node
 
-import { Globalping } from 'globalping';
-import { runMeasurements } from './measure.js';
-import { getCountryName, getCountryContinent, getStateName } from './countries.js';
+import { readFile } from 'node:fs/promises';
+import {
+  createClient, createRecordingClient, createReplayClient, createResultCache, createRunStateStore, DatabaseComparison, DatabaseRecord,
+  GeoDatabase, geolocate, geolocateTarget, MeasurementClient, MeasurementMethod, GeolocationResult,
+  geolocatePrefix, openGeoDatabase, PrefixGeolocation, PrefixOptions, readRecordingManifest, ResultCache, RetryOptions, RunStateStore,
+  TargetGeolocation, validateGeofeed, verifyClaim, VerifyOptions, addressBudget, DEFAULT_CACHE_TTL_MS, DEFAULT_POLL_TIMEOUT_MS, DEFAULT_PREFIX_SAMPLES, GeolocateOptions,
+  geolocateRepeatedly, RepeatedGeolocation, DEFAULT_BEAM_WIDTH, DEFAULT_THRESHOLDS, createJobQueue, createGeolocationServer,
+  DEFAULT_JOB_CONCURRENCY, GeolocateConfig, loadConfig, ResolvedConfig, PROJECT_CONFIG_FILE, defaultUserConfigPath
+} from './lib.js';
+import {
+  EXIT_CODES, exitCodeOf, formatCommandHelp, formatOptions, HELP_OPTION, ParsedCommand, parseCommandLine, PROGRAM_NAME, suggest, VERSION_OPTION
+} from './cli.js';
+import {
+  BATCH_COMMAND, CACHE_COMMAND, COMMANDS, COMPLETION_COMMAND, CONFIG_COMMAND, ConfigCommandOptions, ConfigSelection, HISTORY_COMMAND,
+  HistoryCommandOptions, LOCATE_COMMAND, LocateCommandOptions, SERVE_COMMAND, ServeCommandOptions, VALIDATE_GEOFEED_COMMAND,
+  ValidateGeofeedCommandOptions, VERIFY_COMMAND, VerifyCommandOptions
+} from './commands.js';
+import { COMPLETION_SHELLS, CompletionShell, completionScript } from './completion.js';
+import { allocateBudget, describeAllocation, PlanOptions, planRun, RunPlan } from './budget.js';
+import { AnycastSite, MAX_SITE_RTT_MS } from './anycast.js';
+import { CONTINENTS, getCountryContinent, getCountryName, getSubdivisionName } from './countries.js';
+import type { PhaseName } from './measure.js';
+import { ANY_CODE, PipelineScope } from './pipeline.js';
+import type { ProbeFilter } from './quality.js';
+import { classifyIp, describeUnreachable, isValidIp, parseCidr } from './ip.js';
+import { formatGeofeed, GeofeedCheck } from './geofeed.js';
+import { compareLocations, createHistoryStore, findLocationChanges, historyEntry, HistoryEntry, HistoryStore } from './history.js';
+import { DEFAULT_PATH_PROBES, PathAnalysis, PathHop } from './path.js';
+import { BatchFormat, formatBatchCsv, formatBatchJson, readTargets, runBatch, summarizeBatch } from './batch.js';
+import {
+  OutputFormat, buildConfigDocument, buildErrorDocument, buildGeofeedDocument, buildHistoryDocument, buildHostDocument, buildPrefixDocument, buildPrefixErrorDocument,
+  buildRepeatDocument, buildRepeatErrorDocument, buildResultDocument, buildVerifyDocument, buildVerifyErrorDocument, formatDocument,
+  formatEstimate, formatHistoryLocation, formatLocation
+} from './output.js';
+import { createTextReporter } from './reporter.js';
+import { parseTarget, regionalResolutionCost, resolveTarget } from './resolve.js';
 
 function printUsage() {
-  console.log('Usage: geolocate <IP_ADDRESS> [OPTIONS]');
+  const usage = COMMANDS.flatMap(c => c.usage);
+  console.log(usage.map((line, i) => `${i === 0 ? 'Usage:' : '      '} ${PROGRAM_NAME} ${line}`).join('\n'));
   console.log('\nGeolocate an IP address using latency measurements from probes worldwide.');
-  console.log('\nOptions:');
-  console.log('  -L, --limit <number>  Number of probes per measurement (default: 50)');
-  console.log('  -d, --debug           Show detailed traceroute data for debugging');
+  console.log('Hostnames and URLs are resolved locally and every A and AAAA address is geolocated.');
+  console.log('A prefix such as 192.0.2.0/24 is geolocated from a few of its addresses and printed as an RFC 8805 geofeed entry.');
+  console.log('\nCommands:');
+  for (const c of COMMANDS) {
+    console.log(`  ${c.name.padEnd(21)} ${c.summary}`);
+  }
+  console.log(formatOptions([...LOCATE_COMMAND.options, HELP_OPTION, VERSION_OPTION]).join('\n'));
+  console.log(`\nRun "${PROGRAM_NAME} <command> --help" for the options of the other commands.`);
   console.log('\nEnvironment Variables:');
   console.log('  GLOBALPING_TOKEN      Optional token for higher rate limits');
   console.log('                        Get your token at: https://dash.globalping.io');
+  console.log('  GEOLOCATE_CACHE_DIR   Cache directory (default: ~/.cache/geolocate)');
+  console.log('  GEOLOCATE_HISTORY_DIR History directory (default: ~/.local/share/geolocate/history)');
+  console.log('\nExit Codes:');
+  console.log(`  ${EXIT_CODES.ok}  Success`);
+  console.log(`  ${EXIT_CODES.failure}  Some targets failed, a geofeed has mismatches, or another error`);
+  console.log(`  ${EXIT_CODES.usage}  Invalid arguments, configuration or target`);
+  console.log(`  ${EXIT_CODES.noResults}  No probe produced a usable result`);
+  console.log(`  ${EXIT_CODES.rateLimited}  Out of credits, either the rate limit or --budget`);
+  console.log(`  ${EXIT_CODES.apiError}  The Globalping API failed`);
+  console.log(`\nSettings are read from ${defaultUserConfigPath()} and ./${PROJECT_CONFIG_FILE}, options override them.`);
+}
+
+async function readVersion(): Promise<string> {
+  const manifest = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf8'));
+  return manifest.version;
+}
+
+function exitWithUsageError(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(EXIT_CODES.usage);
+}
+
+// Configuration errors are reported like invalid options.
+async function resolveConfig(options: ConfigSelection): Promise<ResolvedConfig> {
+  try {
+    return await loadConfig({ path: options.config, profile: options.profile });
+  } catch (error: any) {
+    exitWithUsageError(error.message);
+  }
+}
+
+function configOptions(config: GeolocateConfig): GeolocateOptions {
+  return {
+    limit: config.limit,
+    method: config.method,
+    port: config.port,
+    budget: config.budget,
+    adaptive: config.adaptive,
+    beamWidth: config.beamWidth,
+    phaseLimits: config.phaseLimits,
+    probeFilter: config.probeFilter,
+    pollTimeout: config.pollTimeoutMs,
+    thresholds: config.thresholds,
+    confidenceLevels: config.confidence
+  };
+}
+
+async function runConfigCommand({ options, positionals }: ParsedCommand<ConfigCommandOptions>) {
+  const output: OutputFormat = options.output ?? 'text';
+
+  if (positionals[0] !== 'show') {
+    exitWithUsageError('config requires a command: show');
+  }
+
+  const document = buildConfigDocument(await resolveConfig(options));
+
+  if (output !== 'text') {
+    console.log(formatDocument(document, output));
+    return;
+  }
+
+  console.log('Configuration files:');
+  for (const f of document.files) {
+    console.log(`  ${f.path}${f.found ? '' : ' (not found)'}`);
+  }
+  console.log(`Profile: ${document.profile ?? 'none'} (available: ${document.profiles.join(', ')})\n`);
+
+  for (const s of document.settings) {
+    const value = Array.isArray(s.value) ? s.value.join(', ') : String(s.value);
+    console.log(`  ${s.key.padEnd(32)} ${value.padEnd(12)} ${s.source}`);
+  }
+}
+
+function runCompletionCommand({ positionals }: ParsedCommand) {
+  const [shell] = positionals;
+
+  if (!shell) {
+    exitWithUsageError(`completion requires a shell: ${COMPLETION_SHELLS.join(', ')}`);
+  }
+
+  process.stdout.write(completionScript(shell as CompletionShell, COMMANDS));
+}
+
+async function runCacheCommand({ positionals }: ParsedCommand) {
+  const cache = createResultCache();
+  const [command, ip] = positionals;
+
+  if (command === 'list') {
+    const entries = await cache.list();
+    if (entries.length === 0) {
+      console.log(`No cached results in ${cache.dir}`);
+      return;
+    }
+    for (const e of entries) {
+      const options = `${e.options.method}, limit ${e.options.limit}${e.options.port ? `, port ${e.options.port}` : ''}`;
+      const expired = e.expired ? ' (expired)' : '';
+      console.log(`  ${e.key.padEnd(40)} ${e.phases.join(' > ').padEnd(32)} ${options.padEnd(28)} ${e.cachedAt}${expired}`);
+    }
+    return;
+  }
+
+  if (command === 'clear') {
+    if (ip && !isValidIp(ip)) {
+      exitWithUsageError(`Invalid IP address: ${ip}`);
+    }
+    const removed = await cache.clear(ip);
+    console.log(`Removed ${removed} cache ${removed === 1 ? 'entry' : 'entries'} from ${cache.dir}`);
+    return;
+  }
+
+  exitWithUsageError('cache requires a command: list or clear [IP_ADDRESS]');
+}
+
+function printHistory(target: string, entries: HistoryEntry[]) {
+  if (entries.length === 0) {
+    console.log(`No history for ${target}`);
+    return;
+  }
+
+  console.log(`History of ${target} (${plural(entries.length, 'run')}):`);
+  console.log('─────────────────────────────────────────────────');
+
+  for (const [i, e] of entries.entries()) {
+    const level = i > 0 ? compareLocations(entries[i - 1], e) : null;
+    const latency = e.minRtt !== null ? `${e.minRtt.toFixed(2)} ms` : '';
+    const confidence = e.confidence ? `${e.confidence} (${e.confidenceScore})` : '';
+    const changed = level ? `  << ${level === 'anycast' ? 'anycast status' : level} changed` : '';
+    console.log(`  ${e.measuredAt.padEnd(26)} ${formatHistoryLocation(e).padEnd(40)} ${latency.padStart(10)}  ${confidence.padEnd(16)}${changed}`.trimEnd());
+  }
+
+  const changes = findLocationChanges(entries).length;
+  console.log(`\n${changes === 0 ? 'The location did not change' : `The location changed ${plural(changes, 'time')}`}`);
+}
+
+async function runHistoryCommand({ options, positionals }: ParsedCommand<HistoryCommandOptions>) {
+  const history = createHistoryStore();
+  const output: OutputFormat = options.output ?? 'text';
+  const [command, ip] = positionals;
+
+  if (!command || command === 'list') {
+    const summaries = await history.list();
+    if (summaries.length === 0) {
+      console.log(`No history in ${history.dir}`);
+      return;
+    }
+    for (const s of summaries) {
+      const changes = s.changes > 0 ? `, ${plural(s.changes, 'change')}` : '';
+      console.log(`  ${s.target.padEnd(40)} ${formatHistoryLocation(s.last).padEnd(40)} ${plural(s.runs, 'run')}${changes}, last ${s.last.measuredAt}`);
+    }
+    return;
+  }
+
+  const target = command === 'clear' ? ip : command;
+
+  if (target && !isValidIp(target)) {
+    exitWithUsageError(`Invalid IP address: ${target}`);
+  }
+
+  if (command === 'clear') {
+    const removed = await history.clear(target && classifyIp(target).address);
+    console.log(`Removed the history of ${plural(removed, 'target')} from ${history.dir}`);
+    return;
+  }
+
+  const address = classifyIp(target).address;
+  const entries = await history.read(address);
+
+  if (output !== 'text') {
+    console.log(formatDocument(buildHistoryDocument(address, entries), output));
+    return;
+  }
+
+  printHistory(address, entries);
+}
+
+async function runServeCommand({ options }: ParsedCommand<ServeCommandOptions>) {
+  const { config } = await resolveConfig(options);
+  const { host, port } = options.listen ?? { host: '127.0.0.1', port: 8080 };
+  const concurrency: number = options.concurrency ?? DEFAULT_JOB_CONCURRENCY;
+
+  const queue = createJobQueue({
+    ...configOptions(config),
+    client: createClient(process.env.GLOBALPING_TOKEN, config.clientTimeoutMs),
+    concurrency,
+    retry: { waitForReset: options.wait ?? config.wait ?? false },
+    cache: options.noCache ? undefined : createResultCache(),
+    history: options.noHistory ? undefined : createHistoryStore()
+  });
+  const server = createGeolocationServer(queue, { allowForce: options.allowForce ?? false });
+
+  server.on('error', (error) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(EXIT_CODES.failure);
+  });
+  server.listen(port, host, () => {
+    console.log(`Listening on http://${host.includes(':') ? `[${host}]` : host}:${port} with ${plural(concurrency, 'job')} at a time`);
+  });
+}
+
+async function runVerifyCommand(parsed: ParsedCommand<VerifyCommandOptions>) {
+  const { config } = await resolveConfig(parsed.options);
+  const [ip] = parsed.positionals;
+  const { claim, far = 2, force = false } = parsed.options;
+  const near: number = parsed.options.limit ?? 20;
+  const method: MeasurementMethod = parsed.options.method ?? config.method ?? 'auto';
+  const output: OutputFormat = parsed.options.output ?? 'text';
+
+  if (!ip || !isValidIp(ip) || !claim) {
+    exitWithUsageError('verify requires an IP address and --claim <location>');
+  }
+
+  // The configured limit is left out, the number of probes near the claim has a default of its own.
+  const options: VerifyOptions = {
+    client: createClient(process.env.GLOBALPING_TOKEN, config.clientTimeoutMs),
+    near,
+    far,
+    method,
+    port: parsed.options.port ?? config.port,
+    force,
+    budget: parsed.options.budget ?? config.budget,
+    probeFilter: config.probeFilter,
+    pollTimeout: config.pollTimeoutMs,
+    retry: { waitForReset: config.wait ?? false },
+    thresholds: config.thresholds
+  };
+
+  if (output !== 'text') {
+    try {
+      console.log(formatDocument(buildVerifyDocument(await verifyClaim(ip, claim, options)), output));
+      process.exit(0);
+    } catch (error: any) {
+      console.log(formatDocument(buildVerifyErrorDocument(ip, error.message), output));
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  console.log(`Verifying that ${ip} is in ${claim}...\n`);
+
+  try {
+    const result = await verifyClaim(ip, claim, { ...options, onEvent: createTextReporter() });
+    const { area } = result;
+
+    console.log(`Verdict: ${result.verdict}`);
+    console.log(`  ${result.reason}`);
+    console.log(`  Claimed area: ${plural(area.points.length, 'point')}${area.radiusKm > 0 ? ` with a ${area.radiusKm} km margin` : ''}, ${result.probesChecked} probes checked`);
+
+    if (result.probes.length > 0) {
+      console.log('\nSupporting probes:');
+      console.log('─────────────────────────────────────────────────');
+      for (const [i, p] of result.probes.entries()) {
+        const location = `${p.city}, ${p.country} (AS${p.asn})`.padEnd(36);
+        const bound = `at most ${Math.round(p.maxDistanceKm)} km away`.padEnd(22);
+        console.log(`  ${`${i + 1}.`.padEnd(3)} ${location} ${p.rtt.toFixed(2).padStart(7)} ms  ${bound} claim ${Math.round(p.distanceKm)} km away`);
+      }
+    }
+
+    console.log(`\nCredits used: ${result.credits.consumed}`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`\nError: ${error.message}`);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+async function runValidateGeofeedCommand({ options, positionals }: ParsedCommand<ValidateGeofeedCommandOptions>) {
+  const { config } = await resolveConfig(options);
+  const [path] = positionals;
+  const output: OutputFormat = options.output ?? 'text';
+
+  if (!path) {
+    exitWithUsageError('validate-geofeed requires the path of a geofeed');
+  }
+
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error: any) {
+    const message = `Unable to read geofeed: ${error.message}`;
+    if (output !== 'text') {
+      console.log(formatDocument(buildGeofeedDocument(path, [], message), output));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    process.exit(EXIT_CODES.usage);
+  }
+
+  const prefixOptions: PrefixOptions = {
+    ...configOptions(config),
+    client: createClient(process.env.GLOBALPING_TOKEN, config.clientTimeoutMs),
+    limit: options.limit ?? config.limit ?? 50,
+    method: options.method ?? config.method ?? 'traceroute',
+    port: options.port ?? config.port,
+    samples: options.samples,
+    force: options.force ?? false,
+    budget: options.budget ?? config.budget,
+    cache: options.noCache ? undefined : createResultCache()
+  };
+
+  if (output !== 'text') {
+    const document = buildGeofeedDocument(path, await validateGeofeed(content, prefixOptions));
+    console.log(formatDocument(document, output));
+    process.exit(document.summary.mismatch + document.summary.invalid > 0 ? EXIT_CODES.failure : EXIT_CODES.ok);
+  }
+
+  console.log(`Validating ${path}...\n`);
+
+  const checks = await validateGeofeed(content, { ...prefixOptions, onEvent: createTextReporter() });
+  printGeofeedChecks(checks);
+  process.exit(checks.some(c => c.status === 'mismatch' || c.status === 'invalid') ? EXIT_CODES.failure : EXIT_CODES.ok);
 }
 
-function isValidIp(ip: string): boolean {
-  const ipv4 = /^(\d{1,3}\.){3}\d{1,3}$/;
-  const ipv6 = /^([0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F]{0,4}$/;
-  return ipv4.test(ip) || ipv6.test(ip);
+function printGeofeedChecks(checks: GeofeedCheck[]) {
+  console.log('Geofeed Entries:');
+  console.log('─────────────────────────────────────────────────');
+
+  for (const c of checks) {
+    console.log(`  ${`line ${c.line}`.padEnd(10)} ${c.prefix.padEnd(24)} ${c.status.padEnd(11)} ${c.reason}`);
+    if (c.status === 'mismatch' && c.feed && c.measured) {
+      console.log(`  ${''.padEnd(10)} feed:     ${formatGeofeed([c.feed])}`);
+      console.log(`  ${''.padEnd(10)} measured: ${formatGeofeed([c.measured])}`);
+    }
+  }
+
+  const count = (status: string) => checks.filter(c => c.status === status).length;
+  console.log(`\n${count('ok')} ok, ${count('mismatch')} mismatched, ${count('unmeasured')} not measured, ${count('invalid')} invalid`);
+  console.log(`Credits used: ${checks.reduce((sum, c) => sum + c.credits, 0)}`);
+}
+
+async function runPrefix(prefix: string, options: PrefixOptions, output: OutputFormat, debug: boolean) {
+  if (output !== 'text') {
+    try {
+      console.log(formatDocument(buildPrefixDocument(await geolocatePrefix(prefix, options)), output));
+      process.exit(0);
+    } catch (error: any) {
+      console.log(formatDocument(buildPrefixErrorDocument(prefix, error.message), output));
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  console.log(`Geolocating up to ${options.samples ?? DEFAULT_PREFIX_SAMPLES} responsive addresses in ${prefix}...\n`);
+
+  try {
+    printPrefixResults(await geolocatePrefix(prefix, { ...options, onEvent: createTextReporter({ debug }) }));
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`\nError: ${error.message}`);
+    process.exit(exitCodeOf(error));
+  }
 }
 
-function formatLocation(result: any): string {
-  const city = result.city || 'Unknown';
+function printPrefixResults({ prefix, entry, hosts, unresponsive, credits }: PrefixGeolocation) {
+  console.log(`Sampled Addresses in ${prefix}:`);
+  console.log('─────────────────────────────────────────────────');
 
-  if (result.country === 'US') {
-    const stateName = getStateName(result.state || 'Unknown');
-    return `${city}, ${stateName}, USA`;
+  for (const h of hosts) {
+    const best = h.result?.best;
+    console.log(`  ${h.address.padEnd(40)} ${best ? `${formatLocation(best)} (${best.minRtt.toFixed(2)} ms)` : h.error ?? 'anycast'}`);
+  }
+  if (unresponsive.length > 0) {
+    console.log(`\n  No reply from ${unresponsive.join(', ')}`);
   }
 
-  const countryName = getCountryName(result.country);
-  return `${city}, ${countryName}`;
+  console.log('\nGeofeed Entry (RFC 8805):');
+  console.log(formatGeofeed([entry]));
+  console.log(`\nCredits used: ${credits}`);
 }
 
-function printResults(results: any[]) {
+async function runRepeat(ip: string, repeat: number, options: GeolocateOptions, output: OutputFormat, debug: boolean) {
+  if (output !== 'text') {
+    try {
+      console.log(formatDocument(buildRepeatDocument(await geolocateRepeatedly(ip, repeat, options)), output));
+      process.exit(0);
+    } catch (error: any) {
+      console.log(formatDocument(buildRepeatErrorDocument(ip, error.message), output));
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  console.log(`Geolocating ${ip} ${repeat} times...\n`);
+
+  try {
+    printRepeatResults(await geolocateRepeatedly(ip, repeat, { ...options, onEvent: createTextReporter({ debug }) }));
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`\nError: ${error.message}`);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+function printRepeatResults({ runs, locations, credits }: RepeatedGeolocation) {
+  console.log('Runs:');
+  console.log('─────────────────────────────────────────────────');
+
+  const entries = runs.map(r => historyEntry(r, r.confidence));
+  for (const [i, e] of entries.entries()) {
+    const level = i > 0 ? compareLocations(entries[i - 1], e) : null;
+    const latency = e.minRtt !== null ? `${e.minRtt.toFixed(2)} ms` : '';
+    const changed = level ? `  << ${level === 'anycast' ? 'anycast status' : level} changed` : '';
+    console.log(`  ${`${i + 1}.`.padEnd(3)} ${formatHistoryLocation(e).padEnd(40)} ${latency.padStart(10)}${changed}`);
+  }
+
+  console.log(`\nConsolidated Locations (${plural(runs.length, 'run')}):`);
+  console.log('─────────────────────────────────────────────────');
+
+  if (locations.length === 0) {
+    console.log('  No run found a location');
+  }
+  for (const [i, l] of locations.slice(0, 5).entries()) {
+    const location = formatLocation(l).padEnd(40);
+    const detail = `best in ${l.wins} of ${runs.length}, seen in ${l.runs}, ${plural(l.samples, 'sample')}`;
+    console.log(`  ${`${i + 1}.`.padEnd(3)} ${location} ${`${l.medianRtt.toFixed(2)} ms`.padStart(10)} median, ${l.minRtt.toFixed(2)} ms min  ${detail}`);
+  }
+
+  const anycast = runs.filter(r => r.isAnycast).length;
+  if (anycast > 0) {
+    console.log(`\n  ${anycast} of ${runs.length} runs found an anycast address`);
+  }
+
+  console.log(`\nCredits used: ${credits}`);
+}
+
+function printResults({ results, estimate, confidence }: GeolocationResult) {
   if (results.length === 0) {
     console.log('No results to display');
     return;
@@ -54,6 +494,10 @@ function printResults(results: any[]) {
     console.log(`  ${num} ${location} ${latency}`);
   }
 
+  if (estimate) {
+    console.log(`\n  Estimated Position: ${formatEstimate(estimate)}`);
+  }
+
   console.log('\n═══════════════════════════════════════════════════');
   console.log('                      SUMMARY');
   console.log('═══════════════════════════════════════════════════');
@@ -67,86 +511,658 @@ function printResults(results: any[]) {
   }
 
   console.log(`  Minimum Latency: ${best.minRtt.toFixed(2)} ms`);
-
-  if (best.minRtt < 1) {
-    console.log(`  Confidence: Very High`);
-  } else if (best.minRtt < 5) {
-    console.log(`  Confidence: High`);
-  } else if (best.minRtt < 20) {
-    console.log(`  Confidence: Medium`);
-  } else {
-    console.log(`  Confidence: Low`);
+  console.log(`  Method: ${best.method}`);
+  if (confidence) {
+    console.log(`  Confidence: ${confidence.label} (${confidence.score}/100)`);
+    for (const f of confidence.factors) {
+      const points = `${f.points}/${f.maxPoints}`.padStart(7);
+      console.log(`    ${f.name.padEnd(12)} ${points}  ${f.detail}`);
+    }
   }
 
   console.log('═══════════════════════════════════════════════════');
 }
 
-async function main() {
-  const args = process.argv.slice(2);
+function printAnycastSites(sites: AnycastSite[]) {
+  console.log(`Anycast Sites (${sites.length}):`);
+  console.log('─────────────────────────────────────────────────');
 
-  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
-    printUsage();
-    process.exit(args.length > 0 ? 0 : 1);
+  if (sites.length === 0) {
+    console.log(`  No probe was within ${MAX_SITE_RTT_MS} ms of an instance`);
+    return;
   }
 
-  let ip = '';
-  let limit = 50;
-  let debug = false;
+  for (const [i, site] of sites.entries()) {
+    const location = formatLocation(site).padEnd(36);
+    const position = `${site.latitude.toFixed(2)}, ${site.longitude.toFixed(2)} ±${Math.round(site.radiusKm)} km`;
+    console.log(`  ${`${i + 1}.`.padEnd(3)} ${location} ${site.minRtt.toFixed(2).padStart(6)} ms  ${position}`);
+    for (const p of site.probes) {
+      console.log(`        ${p.city}, ${p.country} (AS${p.asn} ${p.network}) ${p.rtt.toFixed(2)} ms`);
+    }
+  }
+}
 
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+function formatClaim(claim: DatabaseRecord): string {
+  const parts = [
+    claim.city,
+    claim.country && claim.state ? getSubdivisionName(claim.country, claim.state) : claim.state,
+    claim.country ? getCountryName(claim.country) : null
+  ].filter(Boolean);
+  const accuracy = claim.accuracyRadiusKm !== null ? ` ±${claim.accuracyRadiusKm} km` : '';
+  const position = claim.latitude !== null && claim.longitude !== null
+    ? ` (${claim.latitude.toFixed(4)}, ${claim.longitude.toFixed(4)}${accuracy})`
+    : '';
+  return `${parts.join(', ') || 'No location'}${position}`;
+}
 
-    if (arg === '-L' || arg === '--limit') {
-      const limitValue = args[i + 1];
-      if (!limitValue || isNaN(Number(limitValue))) {
-        console.error('Error: --limit requires a numeric value');
-        process.exit(1);
-      }
-      limit = Number(limitValue);
-      i++;
-    } else if (arg === '-d' || arg === '--debug') {
-      debug = true;
-    } else if (!arg.startsWith('-')) {
-      ip = arg;
+function printComparisons(comparisons: DatabaseComparison[]) {
+  for (const c of comparisons) {
+    console.log(`\nDatabase: ${c.database}${c.claim ? ` (${c.claim.network})` : ''}`);
+    console.log('─────────────────────────────────────────────────');
+    if (c.claim) {
+      console.log(`  Claimed:  ${formatClaim(c.claim)}`);
     }
+    if (c.distanceKm !== null) {
+      console.log(`  Distance: ${Math.round(c.distanceKm)} km from the estimated position`);
+    }
+    const agreement = [['country', c.countryMatch], ['state', c.stateMatch], ['city', c.cityMatch]]
+      .filter(([, match]) => match !== null)
+      .map(([field, match]) => `${field} ${match ? 'matches' : 'differs'}`);
+    if (agreement.length > 0) {
+      console.log(`  Agrees:   ${agreement.join(', ')}`);
+    }
+    console.log(`  Verdict:  ${c.verdict}`);
+    console.log(`            ${c.reason}`);
   }
+}
 
-  if (!ip) {
-    console.error('Error: IP address is required');
-    printUsage();
-    process.exit(1);
+function formatHop(hop: PathHop): string {
+  if (hop.rtt === null) {
+    return `    ${String(hop.hop).padStart(2)}  *`;
   }
+  const name = (hop.hostname ? `${hop.hostname} (${hop.address})` : hop.address ?? '').padEnd(48);
+  const asns = (hop.asns.length > 0 ? hop.asns.map(asn => `AS${asn}`).join(',') : '').padEnd(10);
+  const hints = hop.hints.map(h => `${h.token} → ${h.city}, ${h.country}`).join('; ');
+  return `    ${String(hop.hop).padStart(2)}  ${name} ${asns} ${hop.rtt.toFixed(2).padStart(7)} ms${hints ? `  ${hints}` : ''}`.trimEnd();
+}
 
-  if (!isValidIp(ip)) {
-    console.error(`Error: Invalid IP address: ${ip}`);
-    process.exit(1);
+function printPath(path: PathAnalysis | null) {
+  if (!path) {
+    return;
   }
 
-  const token = process.env.GLOBALPING_TOKEN;
-  const client = new Globalping({
-    auth: token,
-    timeout: 60000
-  });
+  const target = path.targetAsn !== null
+    ? `the target is in AS${path.targetAsn} (${path.targetAsnSource === 'path' ? 'seen on the path' : 'from Team Cymru'})`
+    : path.targetAsnSource === 'skipped' ? 'the network of the target was not looked up' : 'the network of the target is unknown';
+  console.log(`\nPath Analysis (${plural(path.paths.length, 'probe')}, ${target}):`);
+  console.log('─────────────────────────────────────────────────');
 
-  console.log(`Geolocating ${ip}...\n`);
+  if (!path.complete) {
+    console.log(`  Warning: Measurement ${path.measurementId} did not finish in time, the paths that were still being traced are empty.`);
+  }
+
+  for (const p of path.paths) {
+    console.log(`  From ${formatLocation(p.probe)} (AS${p.probe.asn} ${p.probe.network}):`);
+    const last = p.lastHop === null ? [] : p.hops.slice(0, p.lastHop + 1);
+    last.forEach(hop => console.log(formatHop(hop)));
+    if (p.lastHop === null) {
+      console.log('    No hop responded');
+    } else if (p.lastHop < p.hops.length - 1) {
+      console.log(`    ${plural(p.hops.length - p.lastHop - 1, 'more hop')} did not respond`);
+    }
+    if (p.upstream) {
+      const asns = p.hops[p.lastHop!].asns.map(asn => `AS${asn}`).join(', ');
+      console.log(`    Warning: The last responding hop is in ${asns}, not in AS${path.targetAsn} of the target. The latency locates an upstream router rather than the host.`);
+    } else if (p.reachedTarget) {
+      console.log('    The target itself responded');
+    }
+  }
+
+  for (const e of path.evidence) {
+    const verdict = e.agrees === 'city' ? 'agrees with the city' : e.agrees === 'country' ? 'agrees with the country only' : 'disagrees with the result';
+    console.log(`  Router names near the target point to ${e.city}, ${e.country} on ${plural(e.paths, 'path')} (${e.hostname}), which ${verdict}`);
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+function describeScope(scope: PipelineScope): string {
+  if (scope.state === ANY_CODE) {
+    return scope.country === ANY_CODE ? 'in the best state, province or country' : 'in the best state or province';
+  }
+  if (scope.state) {
+    return `in ${getSubdivisionName(scope.country!, scope.state)}`;
+  }
+  if (scope.country) {
+    return scope.country === ANY_CODE ? 'in the best country' : `in ${getCountryName(scope.country)}`;
+  }
+  if (scope.continent) {
+    return scope.continent === ANY_CODE
+      ? 'in the best continent'
+      : `in ${CONTINENTS.find(c => c.code === scope.continent)?.name ?? scope.continent}`;
+  }
+  return `on each of the ${CONTINENTS.length} continents`;
+}
+
+function printPlan(plan: RunPlan) {
+  for (const [i, p] of plan.phases.entries()) {
+    const step = p.ifAnycast ? '   ' : `${i + 1}.`.padEnd(3);
+    let where = describeScope(p.scope);
+    if (p.ifAnycast) {
+      where += ', only if anycast';
+    } else if (p.phase === 'state' && p.scope.country === ANY_CODE) {
+      where += ', if it has any';
+    }
+    const probes = `${plural(p.probes, 'probe')} ${where}`;
+    console.log(`  ${step} ${p.phase.padEnd(10)} ${probes.padEnd(58)} up to ${plural(p.maxCredits, 'credit')}`);
+  }
+}
+
+async function runDryRun(
+  targets: string[],
+  planOptions: PlanOptions,
+  budget: number | undefined,
+  beamWidth: number,
+  backtrackRttMs: number,
+  pathAnalysis: boolean,
+  isFile: boolean
+) {
+  let options = planOptions;
+  let runs = targets.length;
+  let extra = 0;
+
+  if (!isFile && !isValidIp(parseTarget(targets[0]))) {
+    const resolved = await resolveTarget(targets[0]);
+    runs = resolved.addresses.length;
+    extra = regionalResolutionCost(resolved);
+    if (budget !== undefined && extra >= budget) {
+      extra = 0;
+    }
+    console.log(`${resolved.hostname} resolves to ${resolved.addresses.map(a => a.address).join(', ')}\n`);
+  }
+
+  if (budget !== undefined) {
+    // The addresses of a hostname share the budget. This is the part of the first one, the others get at least as much.
+    const allocation = allocateBudget(isFile ? budget : addressBudget(budget - extra, runs), planOptions);
+    options = { ...planOptions, limit: allocation.limit, phaseLimits: allocation.phaseLimits };
+    console.log(`Budget: ${describeAllocation(allocation)}${runs > 1 && !isFile ? ' for each address' : ''}\n`);
+  }
+
+  const plan = planRun(options);
+
+  console.log(`Planned measurements${runs > 1 ? ' for each address' : ''}, none of which are created now:\n`);
+  printPlan(plan);
+
+  const detail = [runs > 1 ? `${runs} × ${plan.maxCredits}` : '', extra > 0 ? `${extra} for the DNS check` : '']
+    .filter(Boolean)
+    .join(' + ');
+  console.log(`\nWorst case: ${plural(plan.maxCredits * runs + extra, 'credit')}${detail ? ` (${detail})` : ''}`);
+
+  if (isFile) {
+    console.log('Hostnames count once per resolved address.');
+  }
+  if (planOptions.method === 'auto') {
+    console.log('This assumes auto has to repeat every phase with traceroute.');
+  }
+  if (beamWidth > 1 && plan.phases.some(p => p.phase === 'continent' || p.phase === 'country')) {
+    console.log(`A best latency above ${backtrackRttMs} ms also measures up to ${plural(beamWidth - 1, 'runner-up')} per continent and country on top.`);
+  }
+  if (pathAnalysis) {
+    console.log(`--path traces the path from up to ${plural(DEFAULT_PATH_PROBES, 'probe')} per address on top.`);
+  }
+}
+
+function printCredits({ phases, credits, path }: GeolocationResult) {
+  const perPhase = [...phases.map(p => `${p.phase} ${p.cachedAt ? 'cached' : p.credits}`), ...(path ? [`path ${path.credits}`] : [])].join(', ');
+  const left = [
+    credits.rateLimitRemaining !== null ? `${credits.rateLimitRemaining} left in the hourly limit` : '',
+    credits.remaining !== null ? `${credits.remaining} credits left` : ''
+  ].filter(Boolean);
+
+  const probesUsed = phases.reduce((sum, p) => sum + p.probesCount, 0);
+  const probesLimit = phases.reduce((sum, p) => sum + p.probesLimit, 0);
+
+  console.log(`\nProbes used: ${probesUsed} of ${probesLimit} configured`);
+  console.log(`Credits used: ${credits.consumed} (${perPhase})${left.length > 0 ? `, ${left.join(' and ')}` : ''}`);
+}
 
+async function printResumeHint(runState: RunStateStore | undefined, addresses: string[]) {
+  for (const address of addresses) {
+    const state = await runState?.load(address).catch(() => null);
+    if (state && (state.phases.length > 0 || state.measurements.length > 0)) {
+      console.error(`Progress of ${address} was saved, run the same command with --resume to continue.`);
+    }
+  }
+}
+
+function printLimitNote(limit: number) {
   if (limit < 100) {
     console.log(`Note: A limit of ${limit} offers worse results. For better accuracy it is`);
     console.log('recommended to set a limit of at least 100 probes. The higher the limit');
     console.log('the higher the accuracy. Best results start at 250.\n');
   }
+}
+
+function printTargetResults(target: TargetGeolocation) {
+  console.log(`Results for ${target.hostname}`);
+
+  for (const family of [4, 6] as const) {
+    const group = target.addresses.filter(a => a.family === family);
+    if (group.length === 0) {
+      continue;
+    }
+
+    console.log(`\n── IPv${family} ─────────────────────────────────────────────`);
+
+    for (const a of group) {
+      console.log(`\n${a.address}\n`);
+      if (!a.result) {
+        console.log(`  Error: ${a.error}`);
+      } else if (a.result.anycastSites) {
+        printAnycastSites(a.result.anycastSites);
+      } else if (a.result.isAnycast) {
+        console.log('  Anycast IP detected');
+      } else {
+        printResults(a.result);
+      }
+      if (a.result) {
+        printComparisons(a.result.comparisons);
+        printPath(a.result.path);
+        printCredits(a.result);
+      }
+    }
+  }
+
+  if (target.resolution) {
+    console.log(`\nCredits used in total: ${target.credits} (DNS check ${target.resolution.credits})`);
+  }
+}
 
+async function runLocateCommand({ command, options, positionals }: ParsedCommand<LocateCommandOptions>) {
+  const { config } = await resolveConfig(options);
+  const isBatch = command === BATCH_COMMAND;
+  let ip = isBatch ? '' : positionals[0] ?? '';
+  const file: string = isBatch ? positionals[0] : options.file ?? '';
+  let limit: number = options.limit ?? config.limit ?? 50;
+  const debug: boolean = options.debug ?? false;
+  let method: MeasurementMethod = options.method ?? config.method ?? 'traceroute';
+  let port: number | undefined = options.port ?? config.port;
+  const output: OutputFormat = options.output ?? 'text';
+  const concurrency: number = options.concurrency ?? 2;
+  const format: BatchFormat = options.format ?? 'csv';
+  const recordDir: string = options.record ?? '';
+  const replayDir: string = options.replay ?? '';
+  const useCache = !options.noCache;
+  const useHistory = !options.noHistory;
+  const refresh: boolean = options.refresh ?? false;
+  const cacheTtl: number = options.cacheTtl ?? DEFAULT_CACHE_TTL_MS;
+  const cachePrefix: boolean = options.cachePrefix ?? false;
+  const force: boolean = options.force ?? false;
+  let mapAnycast: boolean = options.anycast ?? false;
+  let start: PipelineScope = options.country
+    ? { continent: getCountryContinent(options.country)!, country: options.country }
+    : options.continent ? { continent: options.continent } : {};
+  const phaseLimits: Partial<Record<PhaseName, number>> = { ...config.phaseLimits, ...Object.fromEntries(options.phaseLimit ?? []) };
+  let budget: number | undefined = options.budget ?? config.budget;
+  const dryRun: boolean = options.dryRun ?? false;
+  let adaptive: boolean = options.adaptive ?? config.adaptive ?? false;
+  const resume: boolean = options.resume ?? false;
+  const wait: boolean = options.wait ?? config.wait ?? false;
+  let pollTimeout: number | undefined = options.pollTimeout ?? config.pollTimeoutMs;
+  const samples: number | undefined = options.samples;
+  const repeat: number | undefined = options.repeat;
+  let beamWidth: number = options.beam ?? config.beamWidth ?? DEFAULT_BEAM_WIDTH;
+  let pathAnalysis: boolean = options.path ?? false;
+  let thresholds = config.thresholds;
+  let confidenceLevels = config.confidence;
+  const comparePaths: string[] = options.compare ?? [];
+  const probeFilter: ProbeFilter = { ...config.probeFilter };
+
+  if (options.excludeAsn) {
+    probeFilter.excludeAsns = [...(probeFilter.excludeAsns ?? []), ...options.excludeAsn];
+  }
+  if (options.excludeTag) {
+    probeFilter.excludeTags = [...(probeFilter.excludeTags ?? []), ...options.excludeTag];
+  }
+  if (options.requireTag) {
+    probeFilter.requireTags = [...(probeFilter.requireTags ?? []), ...options.requireTag];
+  }
+  if (options.keepOutliers) {
+    probeFilter.rejectOutliers = false;
+  }
+
+  let client: MeasurementClient = createClient(process.env.GLOBALPING_TOKEN, config.clientTimeoutMs);
+  let pollInterval: number | undefined;
+
+  if ((recordDir || replayDir) && file) {
+    exitWithUsageError('--record and --replay cannot be combined with --file');
+  }
+
+  if (recordDir && replayDir) {
+    exitWithUsageError('--record and --replay cannot be used together');
+  }
+
+  if (dryRun && (recordDir || replayDir)) {
+    exitWithUsageError('--dry-run cannot be combined with --record or --replay');
+  }
+
+  if (resume && (recordDir || replayDir)) {
+    exitWithUsageError('--resume cannot be combined with --record or --replay');
+  }
+
+  if (repeat !== undefined && (file || recordDir || replayDir || dryRun)) {
+    exitWithUsageError('--repeat cannot be combined with --file, --record, --replay or --dry-run');
+  }
+
+  if (pathAnalysis && file) {
+    exitWithUsageError('--path cannot be combined with --file');
+  }
+
+  const planOptions: PlanOptions = { limit, method, start, phaseLimits, mapAnycast };
+
+  // Reused phases make no requests, which would leave gaps in a recording and break a replay.
+  const cache: ResultCache | undefined = useCache && !recordDir && !replayDir
+    ? createResultCache({ ttlMs: cacheTtl, prefix: cachePrefix, refresh })
+    : undefined;
+  // Likewise, a resumed run would skip requests, so only plain runs save their progress.
+  const runState: RunStateStore | undefined = !recordDir && !replayDir ? createRunStateStore() : undefined;
+  // A replay measures nothing new.
+  const history: HistoryStore | undefined = useHistory && !replayDir ? createHistoryStore() : undefined;
+  let retry: RetryOptions = { waitForReset: wait };
+
+  if (replayDir) {
+    try {
+      const manifest = await readRecordingManifest(replayDir);
+      if (ip && ip !== manifest.target) {
+        exitWithUsageError(`Recording in ${replayDir} is for ${manifest.target}, not ${ip}`);
+      }
+      ip = manifest.target;
+      limit = Number(manifest.options.limit ?? limit);
+      method = (manifest.options.method as MeasurementMethod | undefined) ?? method;
+      port = (manifest.options.port as number | undefined) ?? port;
+      mapAnycast = (manifest.options.mapAnycast as boolean | undefined) ?? mapAnycast;
+      start = (manifest.options.start as PipelineScope | undefined) ?? start;
+      Object.assign(phaseLimits, manifest.options.phaseLimits);
+      budget = (manifest.options.budget as number | undefined) ?? budget;
+      adaptive = (manifest.options.adaptive as boolean | undefined) ?? adaptive;
+      pollTimeout = (manifest.options.pollTimeout as number | undefined) ?? pollTimeout;
+      Object.assign(probeFilter, manifest.options.probeFilter);
+      // Recordings from before backtracking never measured a runner-up.
+      beamWidth = (manifest.options.beamWidth as number | undefined) ?? 1;
+      pathAnalysis = (manifest.options.pathAnalysis as boolean | undefined) ?? false;
+      thresholds = manifest.options.thresholds as GeolocateOptions['thresholds'];
+      confidenceLevels = manifest.options.confidenceLevels as GeolocateOptions['confidenceLevels'];
+      // Recorded failures are retried as they were, just without waiting.
+      retry = { waitForReset: (manifest.options.wait as boolean | undefined) ?? wait, sleep: () => Promise.resolve() };
+      client = await createReplayClient(replayDir);
+      pollInterval = 0;
+    } catch (error: any) {
+      console.error(`Error: Unable to read recording: ${error.message}`);
+      process.exit(EXIT_CODES.usage);
+    }
+  }
+
+  const databases: GeoDatabase[] = [];
+  for (const path of comparePaths) {
+    try {
+      databases.push(await openGeoDatabase(path));
+    } catch (error: any) {
+      console.error(`Error: Unable to read database ${path}: ${error.message}`);
+      process.exit(EXIT_CODES.usage);
+    }
+  }
+
+  const backtrackRttMs = thresholds?.backtrackRttMs ?? DEFAULT_THRESHOLDS.backtrackRttMs;
+  const runOptions = {
+    client, limit, method, port, pollInterval, pollTimeout, retry, cache, history, runState, resume, force, mapAnycast, start, phaseLimits,
+    budget, adaptive, probeFilter, beamWidth, databases, pathAnalysis, thresholds, confidenceLevels,
+    // The recording holds the measurements but not the DNS lookup of the target's ASN.
+    lookupAsn: replayDir ? false as const : undefined
+  };
+
+  if (file) {
+    let targets: string[];
+    try {
+      targets = await readTargets(file);
+    } catch (error: any) {
+      console.error(`Error: Unable to read targets: ${error.message}`);
+      process.exit(EXIT_CODES.usage);
+    }
+
+    if (targets.length === 0) {
+      exitWithUsageError('No targets found');
+    }
+
+    if (dryRun) {
+      try {
+        await runDryRun(targets, planOptions, budget, beamWidth, backtrackRttMs, false, true);
+        process.exit(EXIT_CODES.ok);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(exitCodeOf(error));
+      }
+    }
+
+    console.error(`Geolocating ${targets.length} targets with concurrency ${concurrency}...\n`);
+
+    const entries = await runBatch(client, targets, { ...runOptions, concurrency });
+    const summary = summarizeBatch(entries);
+
+    console.log(format === 'json' ? formatBatchJson(entries, summary) : formatBatchCsv(entries));
+    console.error(`\nDone: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.anycast} anycast`);
+    console.error(`Credits consumed: ${summary.credits}`);
+    if (summary.failed > 0) {
+      await printResumeHint(runState, entries.filter(e => e.document.status === 'error').map(e => e.ip));
+    }
+    process.exit(summary.failed > 0 ? EXIT_CODES.failure : EXIT_CODES.ok);
+  }
+
+  if (!ip) {
+    exitWithUsageError(`An IP address, hostname, URL or prefix is required, run "${PROGRAM_NAME} --help" for usage`);
+  }
+
+  if (parseCidr(ip)) {
+    if (recordDir || replayDir || dryRun || repeat !== undefined) {
+      exitWithUsageError('--record, --replay, --dry-run and --repeat require an IP address or hostname');
+    }
+    await runPrefix(ip, { ...runOptions, samples }, output, debug);
+  }
+
+  let host: string;
   try {
-    const results = await runMeasurements(client, ip, limit, debug);
-    if (results.length > 0 && results[0].isAnycast) {
-      process.exit(0);
+    host = parseTarget(ip);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(exitCodeOf(error));
+  }
+
+  if (dryRun) {
+    try {
+      await runDryRun([ip], planOptions, budget, beamWidth, backtrackRttMs, pathAnalysis, false);
+      process.exit(EXIT_CODES.ok);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(exitCodeOf(error));
     }
-    printResults(results);
-    process.exit(0);
+  }
+
+  if (!isValidIp(host)) {
+    if (recordDir || replayDir || repeat !== undefined) {
+      exitWithUsageError('--record, --replay and --repeat require an IP address');
+    }
+
+    if (output !== 'text') {
+      try {
+        const target = await geolocateTarget(ip, runOptions);
+        const document = buildHostDocument(target);
+        console.log(formatDocument(document, output));
+        process.exit(document.status === 'ok' ? EXIT_CODES.ok : EXIT_CODES.failure);
+      } catch (error: any) {
+        console.log(formatDocument(buildErrorDocument(ip, error.message), output));
+        process.exit(exitCodeOf(error));
+      }
+    }
+
+    console.log(`Geolocating ${host}...\n`);
+    if (budget === undefined) {
+      printLimitNote(limit);
+    }
+
+    try {
+      const target = await geolocateTarget(ip, { ...runOptions, onEvent: createTextReporter({ debug }) });
+      printTargetResults(target);
+      await printResumeHint(runState, target.addresses.filter(a => !a.result).map(a => a.address));
+      process.exit(target.addresses.every(a => a.result) ? EXIT_CODES.ok : EXIT_CODES.failure);
+    } catch (error: any) {
+      console.error(`\nError: ${error.message}`);
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  const classification = classifyIp(host);
+
+  if (!classification.reachable && !force) {
+    const message = `${describeUnreachable(classification)}. Use --force to measure it anyway.`;
+    if (output !== 'text') {
+      console.log(formatDocument(buildErrorDocument(ip, message), output));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    process.exit(EXIT_CODES.usage);
+  }
+
+  ip = classification.address;
+
+  if (repeat !== undefined) {
+    await runRepeat(ip, repeat, runOptions, output, debug);
+  }
+
+  if (recordDir) {
+    try {
+      client = await createRecordingClient(client, recordDir, {
+        target: ip,
+        options: {
+          limit, method, port, mapAnycast, start, phaseLimits, budget, adaptive, pollTimeout, wait, probeFilter, beamWidth, pathAnalysis,
+          thresholds, confidenceLevels
+        }
+      });
+    } catch (error: any) {
+      console.error(`Error: Unable to start recording: ${error.message}`);
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  if (output !== 'text') {
+    try {
+      const run = await geolocate(ip, { ...runOptions, client });
+      console.log(formatDocument(buildResultDocument(run), output));
+      process.exit(EXIT_CODES.ok);
+    } catch (error: any) {
+      console.log(formatDocument(buildErrorDocument(ip, error.message), output));
+      process.exit(exitCodeOf(error));
+    }
+  }
+
+  console.log(`Geolocating ${ip}...\n`);
+
+  if (budget === undefined) {
+    printLimitNote(limit);
+  }
+
+  try {
+    const run = await geolocate(ip, { ...runOptions, client, onEvent: createTextReporter({ debug }) });
+    if (run.anycastSites) {
+      printAnycastSites(run.anycastSites);
+    } else if (!run.isAnycast) {
+      printResults(run);
+    }
+    printComparisons(run.comparisons);
+    printPath(run.path);
+    printCredits(run);
+    process.exit(EXIT_CODES.ok);
   } catch (error: any) {
     console.error(`\nError: ${error.message}`);
-    process.exit(1);
+    await printResumeHint(runState, [ip]);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+type Handler = (parsed: ParsedCommand) => Promise<void> | void;
+
+// The parser sets only the options in a command's spec, which the options type of its handler describes.
+function handler<T>(run: (parsed: ParsedCommand<T>) => Promise<void> | void): Handler {
+  return (parsed) => run(parsed as ParsedCommand<T>);
+}
+
+const HANDLERS: Record<string, Handler> = {
+  [LOCATE_COMMAND.name]: handler<LocateCommandOptions>(runLocateCommand),
+  [BATCH_COMMAND.name]: handler<LocateCommandOptions>(runLocateCommand),
+  [VERIFY_COMMAND.name]: handler<VerifyCommandOptions>(runVerifyCommand),
+  [VALIDATE_GEOFEED_COMMAND.name]: handler<ValidateGeofeedCommandOptions>(runValidateGeofeedCommand),
+  [SERVE_COMMAND.name]: handler<ServeCommandOptions>(runServeCommand),
+  [HISTORY_COMMAND.name]: handler<HistoryCommandOptions>(runHistoryCommand),
+  [CACHE_COMMAND.name]: runCacheCommand,
+  [CONFIG_COMMAND.name]: handler<ConfigCommandOptions>(runConfigCommand),
+  [COMPLETION_COMMAND.name]: runCompletionCommand
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+    printUsage();
+    process.exit(args.length > 0 ? EXIT_CODES.ok : EXIT_CODES.usage);
+  }
+
+  if (args[0] === '--version' || args[0] === '-V') {
+    console.log(await readVersion());
+    process.exit(EXIT_CODES.ok);
+  }
+
+  const named = COMMANDS.find(c => c.name === args[0]);
+  const command = named ?? LOCATE_COMMAND;
+
+  // Targets always contain a dot, colon or slash, so a bare word is most likely a mistyped command.
+  if (!named && !args[0].startsWith('-') && !/[.:/]/.test(args[0])) {
+    const suggestion = suggest(args[0], COMMANDS.map(c => c.name));
+    if (suggestion) {
+      exitWithUsageError(`Unknown command ${args[0]}, did you mean ${suggestion}?`);
+    }
+  }
+
+  let parsed: ParsedCommand;
+  try {
+    parsed = parseCommandLine(command, named ? args.slice(1) : args);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    console.error(`Run "${PROGRAM_NAME} ${named ? `${named.name} ` : ''}--help" for usage.`);
+    process.exit(exitCodeOf(error));
+  }
+
+  if (parsed.help) {
+    if (command === LOCATE_COMMAND) {
+      printUsage();
+    } else {
+      console.log(formatCommandHelp(command));
+    }
+    process.exit(EXIT_CODES.ok);
+  }
+
+  if (command === BATCH_COMMAND && parsed.positionals.length === 0) {
+    exitWithUsageError('batch requires the path of a file with one target per line, or - to read from stdin');
+  }
+
+  await HANDLERS[command.name](parsed);
+
+  // The server keeps running until it is stopped.
+  if (command !== SERVE_COMMAND) {
+    process.exit(EXIT_CODES.ok);
   }
 }
 
-main();
+main().catch((error) => {
+  console.error(`Error: ${error.message}`);
+  process.exit(exitCodeOf(error));
+});
@@ -0,0 +1,295 @@
+import { codedError } from './errors.js';
+
+export interface ParsedIp {
+  family: 4 | 6;
+  value: bigint;
+}
+
+export interface ParsedPrefix {
+  network: ParsedIp;
+  length: number;
+  hostBits: boolean;
+}
+
+export interface SpecialPurposeRange {
+  prefix: string;
+  name: string;
+  reference: string;
+  reachable: boolean;
+}
+
+export interface IpClassification {
+  address: string;
+  family: 4 | 6;
+  range: SpecialPurposeRange | null;
+  reachable: boolean;
+}
+
+// Based on the IANA IPv4 and IPv6 Special-Purpose Address Registries. `reachable` follows their
+// "Globally Reachable" column; multicast is added because it cannot be a unicast measurement target.
+const SPECIAL_PURPOSE_RANGES: SpecialPurposeRange[] = [
+  { prefix: '0.0.0.0/8', name: 'This network', reference: 'RFC 791', reachable: false },
+  { prefix: '10.0.0.0/8', name: 'Private-Use', reference: 'RFC 1918', reachable: false },
+  { prefix: '100.64.0.0/10', name: 'Shared Address Space (CGNAT)', reference: 'RFC 6598', reachable: false },
+  { prefix: '127.0.0.0/8', name: 'Loopback', reference: 'RFC 1122', reachable: false },
+  { prefix: '169.254.0.0/16', name: 'Link Local', reference: 'RFC 3927', reachable: false },
+  { prefix: '172.16.0.0/12', name: 'Private-Use', reference: 'RFC 1918', reachable: false },
+  { prefix: '192.0.0.0/24', name: 'IETF Protocol Assignments', reference: 'RFC 6890', reachable: false },
+  { prefix: '192.0.0.9/32', name: 'Port Control Protocol Anycast', reference: 'RFC 7723', reachable: true },
+  { prefix: '192.0.0.10/32', name: 'Traversal Using Relays around NAT Anycast', reference: 'RFC 8155', reachable: true },
+  { prefix: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', reference: 'RFC 5737', reachable: false },
+  { prefix: '192.31.196.0/24', name: 'AS112-v4', reference: 'RFC 7535', reachable: true },
+  { prefix: '192.52.193.0/24', name: 'AMT', reference: 'RFC 7450', reachable: true },
+  { prefix: '192.88.99.0/24', name: 'Deprecated 6to4 Relay Anycast', reference: 'RFC 7526', reachable: false },
+  { prefix: '192.168.0.0/16', name: 'Private-Use', reference: 'RFC 1918', reachable: false },
+  { prefix: '192.175.48.0/24', name: 'Direct Delegation AS112 Service', reference: 'RFC 7534', reachable: true },
+  { prefix: '198.18.0.0/15', name: 'Benchmarking', reference: 'RFC 2544', reachable: false },
+  { prefix: '198.51.100.0/24', name: 'Documentation (TEST-NET-2)', reference: 'RFC 5737', reachable: false },
+  { prefix: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', reference: 'RFC 5737', reachable: false },
+  { prefix: '224.0.0.0/4', name: 'Multicast', reference: 'RFC 5771', reachable: false },
+  { prefix: '240.0.0.0/4', name: 'Reserved', reference: 'RFC 1112', reachable: false },
+  { prefix: '255.255.255.255/32', name: 'Limited Broadcast', reference: 'RFC 919', reachable: false },
+  { prefix: '::/128', name: 'Unspecified Address', reference: 'RFC 4291', reachable: false },
+  { prefix: '::1/128', name: 'Loopback Address', reference: 'RFC 4291', reachable: false },
+  { prefix: '64:ff9b::/96', name: 'IPv4-IPv6 Translation', reference: 'RFC 6052', reachable: true },
+  { prefix: '64:ff9b:1::/48', name: 'IPv4-IPv6 Local-Use Translation', reference: 'RFC 8215', reachable: false },
+  { prefix: '100::/64', name: 'Discard-Only Address Block', reference: 'RFC 6666', reachable: false },
+  { prefix: '2001::/23', name: 'IETF Protocol Assignments', reference: 'RFC 2928', reachable: false },
+  { prefix: '2001::/32', name: 'TEREDO', reference: 'RFC 4380', reachable: false },
+  { prefix: '2001:1::1/128', name: 'Port Control Protocol Anycast', reference: 'RFC 7723', reachable: true },
+  { prefix: '2001:1::2/128', name: 'Traversal Using Relays around NAT Anycast', reference: 'RFC 8155', reachable: true },
+  { prefix: '2001:3::/32', name: 'AMT', reference: 'RFC 7450', reachable: true },
+  { prefix: '2001:4:112::/48', name: 'AS112-v6', reference: 'RFC 7535', reachable: true },
+  { prefix: '2001:20::/28', name: 'ORCHIDv2', reference: 'RFC 7343', reachable: true },
+  { prefix: '2001:db8::/32', name: 'Documentation', reference: 'RFC 3849', reachable: false },
+  { prefix: '2620:4f:8000::/48', name: 'Direct Delegation AS112 Service', reference: 'RFC 7534', reachable: true },
+  { prefix: '3fff::/20', name: 'Documentation', reference: 'RFC 9637', reachable: false },
+  { prefix: '5f00::/16', name: 'Segment Routing SIDs', reference: 'RFC 9602', reachable: false },
+  { prefix: 'fc00::/7', name: 'Unique-Local', reference: 'RFC 4193', reachable: false },
+  { prefix: 'fe80::/10', name: 'Link-Local Unicast', reference: 'RFC 4291', reachable: false },
+  { prefix: 'ff00::/8', name: 'Multicast', reference: 'RFC 4291', reachable: false }
+];
+
+// Everything outside 2000::/3 that is not listed above is still unassigned by the IETF.
+const IPV6_OUTSIDE_GLOBAL_UNICAST: SpecialPurposeRange = {
+  prefix: '::/0', name: 'Reserved by IETF (outside 2000::/3)', reference: 'RFC 4291', reachable: false
+};
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0n;
+  for (const part of parts) {
+    // Leading zeros are rejected because some parsers read them as octal.
+    if (!/^(0|[1-9]\d{0,2})$/.test(part) || Number(part) > 255) {
+      return null;
+    }
+    value = (value << 8n) | BigInt(part);
+  }
+
+  return value;
+}
+
+function parseIpv6Groups(section: string, last: boolean): number[] | null {
+  if (section === '') {
+    return [];
+  }
+
+  const groups: number[] = [];
+  const parts = section.split(':');
+
+  for (const [i, part] of parts.entries()) {
+    if (last && i === parts.length - 1 && part.includes('.')) {
+      const ipv4 = parseIpv4(part);
+      if (ipv4 === null) {
+        return null;
+      }
+      groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+    } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+      groups.push(parseInt(part, 16));
+    } else {
+      return null;
+    }
+  }
+
+  return groups;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  const halves = ip.split('::');
+
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = parseIpv6Groups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? parseIpv6Groups(halves[1], true) : [];
+
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  return [...head, ...new Array<number>(missing).fill(0), ...tail].reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+export function parseIp(ip: string): ParsedIp | null {
+  if (ip.includes(':')) {
+    const value = parseIpv6(ip);
+    return value === null ? null : { family: 6, value };
+  }
+
+  const value = parseIpv4(ip);
+  return value === null ? null : { family: 4, value };
+}
+
+export function isValidIp(ip: string): boolean {
+  return parseIp(ip) !== null;
+}
+
+export function formatIp({ family, value }: ParsedIp): string {
+  if (family === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => String((value >> shift) & 0xffn)).join('.');
+  }
+
+  const groups = [112n, 96n, 80n, 64n, 48n, 32n, 16n, 0n].map(shift => Number((value >> shift) & 0xffffn));
+
+  // RFC 5952: compress the longest run of two or more zero groups, the first one on a tie.
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+function parsePrefix(prefix: string): { network: ParsedIp; length: number } {
+  const [address, length] = prefix.split('/');
+  return { network: parseIp(address)!, length: Number(length) };
+}
+
+function inPrefix(ip: ParsedIp, network: ParsedIp, length: number): boolean {
+  const bits = ip.family === 4 ? 32n : 128n;
+  const shift = bits - BigInt(length);
+  return ip.family === network.family && (ip.value >> shift) === (network.value >> shift);
+}
+
+function unmapIpv4(ip: ParsedIp): ParsedIp {
+  if (ip.family === 6 && (ip.value >> 32n) === 0xffffn) {
+    return { family: 4, value: ip.value & 0xffffffffn };
+  }
+  return ip;
+}
+
+export function findSpecialPurposeRange(ip: ParsedIp): SpecialPurposeRange | null {
+  let best: { range: SpecialPurposeRange; length: number } | null = null;
+
+  for (const range of SPECIAL_PURPOSE_RANGES) {
+    const { network, length } = parsePrefix(range.prefix);
+    if (inPrefix(ip, network, length) && (!best || length > best.length)) {
+      best = { range, length };
+    }
+  }
+
+  if (!best && ip.family === 6 && (ip.value >> 125n) !== 1n) {
+    return IPV6_OUTSIDE_GLOBAL_UNICAST;
+  }
+
+  return best?.range ?? null;
+}
+
+// IPv4-mapped IPv6 addresses are classified, and measured, as the IPv4 address they embed.
+export function classifyIp(ip: string): IpClassification {
+  const parsed = parseIp(ip);
+
+  if (!parsed) {
+    throw codedError('INVALID_INPUT', `Invalid IP address: ${ip}`);
+  }
+
+  const target = unmapIpv4(parsed);
+  const range = findSpecialPurposeRange(target);
+
+  return {
+    address: formatIp(target),
+    family: target.family,
+    range,
+    reachable: range?.reachable ?? true
+  };
+}
+
+export function describeUnreachable({ address, range }: IpClassification): string {
+  return `${address} is in ${range!.prefix} (${range!.name}, ${range!.reference}), which is not reachable from the public internet`;
+}
+
+export function coveringPrefix(ip: string): string {
+  const parsed = parseIp(ip);
+
+  if (!parsed) {
+    throw codedError('INVALID_INPUT', `Invalid IP address: ${ip}`);
+  }
+
+  const length = parsed.family === 4 ? 24 : 48;
+  const shift = BigInt((parsed.family === 4 ? 32 : 128) - length);
+  return `${formatIp({ family: parsed.family, value: (parsed.value >> shift) << shift })}/${length}`;
+}
+
+// Clears the host bits, `hostBits` tells whether the prefix had any set.
+export function parseCidr(prefix: string): ParsedPrefix | null {
+  const [address, length, ...rest] = prefix.trim().split('/');
+  const network = parseIp(address);
+
+  if (!network || rest.length > 0 || !/^\d{1,3}$/.test(length ?? '')) {
+    return null;
+  }
+
+  const bits = network.family === 4 ? 32 : 128;
+  if (Number(length) > bits) {
+    return null;
+  }
+
+  const shift = BigInt(bits - Number(length));
+  const value = (network.value >> shift) << shift;
+  return { network: { family: network.family, value }, length: Number(length), hostBits: value !== network.value };
+}
+
+export function formatCidr({ network, length }: ParsedPrefix): string {
+  return `${formatIp(network)}/${length}`;
+}
+
+// Spreads the addresses evenly over the prefix, starting with the first host, which is often a router
+// that answers. The network and broadcast addresses of IPv4 prefixes are skipped.
+export function sampleAddresses({ network, length }: ParsedPrefix, count: number): string[] {
+  const size = 1n << BigInt((network.family === 4 ? 32 : 128) - length);
+  const reserved = size > 2n ? (network.family === 4 ? 2n : 1n) : 0n;
+  const first = network.value + (reserved > 0n ? 1n : 0n);
+  const hosts = size - reserved;
+  const n = BigInt(Math.min(count, Number(hosts < 1n << 20n ? hosts : 1n << 20n)));
+  const addresses: string[] = [];
+
+  for (let i = 0n; i < n; i++) {
+    addresses.push(formatIp({ family: network.family, value: first + (hosts * i) / n }));
+  }
+
+  return addresses;
+}
@@ -0,0 +1,289 @@
+import { randomUUID } from 'node:crypto';
+import { geolocate, geolocateTarget, GeolocateOptions } from './lib.js';
+import type { GeolocateEvent } from './events.js';
+import { isValidIp } from './ip.js';
+import { MAX_PROBES_PER_MEASUREMENT } from './budget.js';
+import { MEASUREMENT_METHODS, MeasurementMethod, PhaseName } from './measure.js';
+import { buildErrorDocument, buildHostDocument, buildResultDocument, HostDocument, ResultDocument } from './output.js';
+import type { PipelineScope } from './pipeline.js';
+import { parseTarget } from './resolve.js';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface JobRequest {
+  target: string;
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  budget?: number;
+  adaptive?: boolean;
+  beamWidth?: number;
+  force?: boolean;
+}
+
+export interface JobPhase {
+  phase: PhaseName;
+  scope: PipelineScope;
+  best: string | null;
+  minRtt: number | null;
+  cached: boolean;
+}
+
+export interface JobProgress {
+  phase: PhaseName;
+  finished: number;
+  total: number;
+}
+
+export interface Job {
+  id: string;
+  request: JobRequest;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  phases: JobPhase[];
+  progress: JobProgress | null;
+  credits: number;
+  error: string | null;
+}
+
+export interface JobStatusEvent {
+  type: 'job-status';
+  job: Job;
+}
+
+export type JobEvent = GeolocateEvent | JobStatusEvent;
+
+export type JobListener = (event: JobEvent) => void;
+
+export interface JobRequestOptions {
+  // Lets callers measure non-routable addresses, which the API refuses by default.
+  allowForce?: boolean;
+}
+
+// The settings of a job request override the ones given here.
+export interface JobQueueOptions extends Omit<GeolocateOptions, 'onEvent'> {
+  concurrency?: number;
+  maxJobs?: number;
+}
+
+export interface JobQueue {
+  submit(request: JobRequest): Job;
+  get(id: string): Job | undefined;
+  result(id: string): ResultDocument | HostDocument | undefined;
+  list(): Job[];
+  subscribe(id: string, listener: JobListener): () => void;
+}
+
+export const DEFAULT_JOB_CONCURRENCY = 2;
+export const DEFAULT_MAX_JOBS = 1000;
+
+function positiveInteger(body: Record<string, unknown>, field: string, max = Infinity): number | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error(`${field} must be a positive integer${max < Infinity ? ` up to ${max}` : ''}`);
+  }
+  return value;
+}
+
+function flag(body: Record<string, unknown>, field: string): boolean | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new Error(`${field} must be true or false`);
+  }
+  return value;
+}
+
+export function parseJobRequest(body: unknown, options: JobRequestOptions = {}): JobRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('The request body must be a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const { target, method } = fields;
+
+  if (typeof target !== 'string' || target.trim() === '') {
+    throw new Error('target must be an IP address, hostname or URL');
+  }
+  if (method !== undefined && !(MEASUREMENT_METHODS as readonly unknown[]).includes(method)) {
+    throw new Error(`method must be one of ${MEASUREMENT_METHODS.join(', ')}`);
+  }
+
+  const force = flag(fields, 'force');
+  if (force && !options.allowForce) {
+    throw new Error('force is not allowed by this server');
+  }
+
+  return {
+    target: target.trim(),
+    limit: positiveInteger(fields, 'limit', MAX_PROBES_PER_MEASUREMENT),
+    method: method as MeasurementMethod | undefined,
+    port: positiveInteger(fields, 'port', 65535),
+    budget: positiveInteger(fields, 'budget'),
+    adaptive: flag(fields, 'adaptive'),
+    beamWidth: positiveInteger(fields, 'beamWidth'),
+    force
+  };
+}
+
+// Runs geolocation jobs in the background. Every job measures one phase at a time, so `concurrency`
+// also bounds the Globalping measurements in flight. Finished jobs beyond `maxJobs` are forgotten,
+// oldest first.
+export function createJobQueue(options: JobQueueOptions = {}): JobQueue {
+  const { concurrency = DEFAULT_JOB_CONCURRENCY, maxJobs = DEFAULT_MAX_JOBS, ...defaults } = options;
+  const jobs = new Map<string, Job>();
+  const results = new Map<string, ResultDocument | HostDocument>();
+  // Everything but the per-probe and progress events, so that a late subscriber can catch up.
+  const logs = new Map<string, JobEvent[]>();
+  const listeners = new Map<string, Set<JobListener>>();
+  const pending: Job[] = [];
+  let running = 0;
+
+  const publish = (job: Job, event: JobEvent) => {
+    if (event.type !== 'probe-result' && event.type !== 'progress') {
+      logs.get(job.id)?.push(event);
+    }
+    for (const listener of listeners.get(job.id) ?? []) {
+      listener(event);
+    }
+  };
+
+  const setStatus = (job: Job, status: JobStatus) => {
+    job.status = status;
+    publish(job, { type: 'job-status', job: { ...job } });
+  };
+
+  const finish = (job: Job, status: JobStatus) => {
+    job.progress = null;
+    job.finishedAt = new Date().toISOString();
+    setStatus(job, status);
+  };
+
+  const track = (job: Job, event: GeolocateEvent) => {
+    if (event.type === 'measurement-created') {
+      job.credits += event.cost;
+      job.progress = { phase: event.phase, finished: 0, total: event.probesCount };
+    } else if (event.type === 'progress') {
+      job.progress = { phase: event.phase, finished: event.finished, total: event.total };
+    } else if (event.type === 'phase-end') {
+      const best = event.summary.candidates[0];
+      job.phases.push({
+        phase: event.phase,
+        scope: event.summary.scope,
+        best: best?.code ?? null,
+        minRtt: best?.minRtt ?? null,
+        cached: event.summary.cachedAt !== undefined
+      });
+      job.progress = null;
+    }
+    publish(job, event);
+  };
+
+  const execute = async (job: Job) => {
+    const { target, ...request } = job.request;
+    const overrides = Object.fromEntries(Object.entries(request).filter(([, value]) => value !== undefined));
+    const jobOptions: GeolocateOptions = { ...defaults, ...overrides, onEvent: (event) => track(job, event) };
+
+    job.startedAt = new Date().toISOString();
+    setStatus(job, 'running');
+
+    try {
+      const host = parseTarget(target);
+      results.set(job.id, isValidIp(host)
+        ? buildResultDocument(await geolocate(host, jobOptions))
+        : buildHostDocument(await geolocateTarget(target, jobOptions)));
+      finish(job, 'done');
+    } catch (error: any) {
+      results.set(job.id, buildErrorDocument(target, error.message));
+      job.error = error.message;
+      finish(job, 'failed');
+    }
+
+    listeners.delete(job.id);
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running++;
+      execute(job).finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  const prune = () => {
+    for (const job of jobs.values()) {
+      if (jobs.size <= maxJobs) {
+        return;
+      }
+      if (job.finishedAt) {
+        jobs.delete(job.id);
+        results.delete(job.id);
+        logs.delete(job.id);
+      }
+    }
+  };
+
+  return {
+    submit(request) {
+      if (pending.length >= maxJobs) {
+        throw new Error(`${pending.length} jobs are already waiting, try again later`);
+      }
+
+      const job: Job = {
+        id: randomUUID(),
+        request,
+        status: 'queued',
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        phases: [],
+        progress: null,
+        credits: 0,
+        error: null
+      };
+
+      jobs.set(job.id, job);
+      logs.set(job.id, [{ type: 'job-status', job: { ...job } }]);
+      prune();
+      pending.push(job);
+      pump();
+      return job;
+    },
+
+    get(id) {
+      return jobs.get(id);
+    },
+
+    result(id) {
+      return results.get(id);
+    },
+
+    list() {
+      return [...jobs.values()].reverse();
+    },
+
+    // Replays what happened so far, then forwards new events until the job ends.
+    subscribe(id, listener) {
+      for (const event of logs.get(id) ?? []) {
+        listener(event);
+      }
+
+      const job = jobs.get(id);
+      if (!job || job.finishedAt) {
+        return () => {};
+      }
+
+      const set = listeners.get(id) ?? new Set<JobListener>();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => set.delete(listener);
+    }
+  };
+}
@@ -0,0 +1,676 @@
+import { Globalping } from 'globalping';
+import {
+  runMeasurements, DEFAULT_BEAM_WIDTH, DEFAULT_CLIENT_TIMEOUT_MS, GeolocationRun, MeasurementClient, MeasurementMethod, PhaseName, PriorPhase, ProbeResult, Thresholds
+} from './measure.js';
+import type { PhaseDefinition, PipelineScope } from './pipeline.js';
+import { ConfidenceLevels, ConfidenceScore, DEFAULT_CONFIDENCE_LEVELS, scoreConfidence } from './confidence.js';
+import { allocateBudget, CreditUsage } from './budget.js';
+import type { CacheKeyOptions, ResultCache } from './cache.js';
+import type { GeolocateEvent, GeolocateEventListener } from './events.js';
+import { classifyIp, describeUnreachable, formatCidr, formatIp, parseCidr, sampleAddresses } from './ip.js';
+import { checkRegionalResolution, regionalResolutionCost, ResolutionCheck, ResolvedAddress, resolveTarget } from './resolve.js';
+import { createRetryingClient, createRetryingProbeList, RetryOptions } from './retry.js';
+import { compareWithDatabase, DatabaseComparison } from './compare.js';
+import type { GeoDatabase } from './geodb.js';
+import type { ProbeFilter } from './quality.js';
+import { compareLocations, findLocationChanges, HistoryEntry, historyEntry, HistoryStore, LocationChange } from './history.js';
+import { MergedLocation, mergeRuns } from './repeat.js';
+import { analyzePaths, PathAnalysis, PathOptions } from './path.js';
+import {
+  ClaimedArea, claimedArea, ClaimVerification, createVerifyPhase, evaluateClaim, LocationClaim, parseClaim, ProbeListClient,
+  selectClaimProbes
+} from './verify.js';
+import { RunState, RunStateStore, sameRunOptions } from './resume.js';
+import { apiError, codedError, errorCode } from './errors.js';
+import {
+  compareGeofeedEntry, createReachabilityPhase, GeofeedCheck, GeofeedEntry, parseGeofeed, summarizePrefix
+} from './geofeed.js';
+
+export interface GeolocateOptions {
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  token?: string;
+  client?: MeasurementClient;
+  pollInterval?: number;
+  pollTimeout?: number;
+  retry?: RetryOptions | false;
+  cache?: ResultCache;
+  history?: HistoryStore;
+  runState?: RunStateStore;
+  resume?: boolean;
+  force?: boolean;
+  mapAnycast?: boolean;
+  pipeline?: PhaseDefinition[];
+  start?: PipelineScope;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  budget?: number;
+  adaptive?: boolean;
+  probeFilter?: ProbeFilter;
+  beamWidth?: number;
+  thresholds?: Partial<Thresholds>;
+  confidenceLevels?: Partial<ConfidenceLevels>;
+  databases?: GeoDatabase[];
+  pathAnalysis?: boolean;
+  lookupAsn?: PathOptions['lookupAsn'];
+  onEvent?: GeolocateEventListener;
+}
+
+export interface GeolocationResult extends GeolocationRun {
+  best: ProbeResult | null;
+  confidence: ConfidenceScore | null;
+  comparisons: DatabaseComparison[];
+  path: PathAnalysis | null;
+}
+
+export interface RepeatedGeolocation {
+  target: string;
+  runs: GeolocationResult[];
+  locations: MergedLocation[];
+  best: MergedLocation | null;
+  changes: LocationChange[];
+  credits: number;
+}
+
+export interface GeolocateTargetOptions extends GeolocateOptions {
+  checkResolution?: boolean;
+}
+
+export interface VerifyOptions {
+  near?: number;
+  far?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  token?: string;
+  client?: MeasurementClient & ProbeListClient;
+  pollInterval?: number;
+  pollTimeout?: number;
+  retry?: RetryOptions | false;
+  force?: boolean;
+  budget?: number;
+  probeFilter?: ProbeFilter;
+  thresholds?: Partial<Thresholds>;
+  onEvent?: GeolocateEventListener;
+}
+
+export interface ClaimVerificationResult extends ClaimVerification {
+  target: string;
+  claim: LocationClaim;
+  area: ClaimedArea;
+  measurementIds: string[];
+  credits: CreditUsage;
+}
+
+export interface PrefixOptions extends GeolocateOptions {
+  samples?: number;
+}
+
+export interface PrefixHost {
+  address: string;
+  result: GeolocationResult | null;
+  error?: string;
+}
+
+export interface PrefixGeolocation {
+  prefix: string;
+  entry: GeofeedEntry;
+  hosts: PrefixHost[];
+  unresponsive: string[];
+  credits: number;
+}
+
+export interface AddressGeolocation extends ResolvedAddress {
+  result: GeolocationResult | null;
+  error?: string;
+}
+
+export interface TargetGeolocation {
+  target: string;
+  hostname: string | null;
+  addresses: AddressGeolocation[];
+  resolution: ResolutionCheck | null;
+  // The DNS check and every address together.
+  credits: number;
+}
+
+export const DEFAULT_PREFIX_SAMPLES = 3;
+
+// Addresses tried for every wanted sample before a prefix is given up on, and the probes that check
+// whether each of them answers.
+const CANDIDATES_PER_SAMPLE = 4;
+const REACHABILITY_PROBES = 3;
+
+export function createClient(token?: string, timeoutMs: number = DEFAULT_CLIENT_TIMEOUT_MS): Globalping<false> {
+  return new Globalping({
+    auth: token,
+    timeout: timeoutMs
+  });
+}
+
+function retryOptions(options: Pick<GeolocateOptions, 'retry' | 'onEvent'>): RetryOptions | null {
+  if (options.retry === false) {
+    return null;
+  }
+
+  const retry = options.retry ?? {};
+  return {
+    ...retry,
+    onRetry: (info) => {
+      retry.onRetry?.(info);
+      options.onEvent?.({ type: 'retry', ...info });
+    }
+  };
+}
+
+function withRetries(client: MeasurementClient, options: Pick<GeolocateOptions, 'retry' | 'onEvent'>): MeasurementClient {
+  const retry = retryOptions(options);
+  return retry ? createRetryingClient(client, retry) : client;
+}
+
+function checkTarget(target: string, options: Pick<GeolocateOptions, 'force' | 'onEvent'>): string {
+  const classification = classifyIp(target);
+
+  if (!classification.reachable) {
+    if (!options.force) {
+      throw codedError('INVALID_INPUT', describeUnreachable(classification));
+    }
+    options.onEvent?.({
+      type: 'unreachable-target',
+      address: classification.address,
+      range: classification.range!,
+      message: describeUnreachable(classification)
+    });
+  }
+
+  return classification.address;
+}
+
+export async function geolocate(target: string, options: GeolocateOptions = {}): Promise<GeolocationResult> {
+  const ip = checkTarget(target, options);
+
+  // A budget replaces the limit with the largest one whose worst case still fits.
+  const allocation = options.budget === undefined ? null : allocateBudget(options.budget, options);
+
+  if (allocation) {
+    options.onEvent?.({ type: 'budget', allocation });
+  }
+
+  const limit = allocation?.limit ?? options.limit ?? 50;
+  const phaseLimits = allocation?.phaseLimits ?? options.phaseLimits;
+  const client = withRetries(options.client ?? createClient(options.token), options);
+  const { cache, runState } = options;
+  const cacheKey: CacheKeyOptions = {
+    limit, method: options.method ?? 'traceroute', port: options.port, phaseLimits, probeFilter: options.probeFilter,
+    thresholds: options.thresholds
+  };
+  const runOptions = {
+    ...cacheKey,
+    phaseLimits: phaseLimits ?? {},
+    start: options.start ?? {},
+    budget: options.budget,
+    adaptive: options.adaptive ?? false,
+    mapAnycast: options.mapAnycast ?? false,
+    beamWidth: options.beamWidth ?? DEFAULT_BEAM_WIDTH
+  };
+  const saved = runState && options.resume ? await runState.load(ip) : null;
+
+  if (saved) {
+    if (!sameRunOptions(saved.options, runOptions)) {
+      throw codedError('INVALID_INPUT', `The interrupted run of ${ip} used different options: ${JSON.stringify(saved.options)}`);
+    }
+    options.onEvent?.({
+      type: 'resume',
+      target: ip,
+      phases: saved.phases.map(p => p.summary.phase),
+      measurements: saved.measurements.length,
+      credits: saved.credits,
+      updatedAt: saved.updatedAt
+    });
+  }
+
+  const completed: PriorPhase[] = [];
+  const state: Pick<RunState, 'phases' | 'measurements' | 'credits'> = {
+    phases: [],
+    measurements: [...(saved?.measurements ?? [])],
+    credits: saved?.credits ?? 0
+  };
+  let pendingWrite = Promise.resolve();
+
+  const saveState = () => {
+    const snapshot = { target: ip, options: runOptions, ...state, phases: [...state.phases], measurements: [...state.measurements] };
+    pendingWrite = pendingWrite.then(() => runState!.save(snapshot));
+  };
+
+  const onEvent = (event: GeolocateEvent) => {
+    if (cache && event.type === 'phase-end' && event.summary.candidates.length > 0) {
+      completed.push({ summary: event.summary, samples: event.samples });
+      if (!event.summary.cachedAt) {
+        const phases = [...completed];
+        pendingWrite = pendingWrite.then(() => cache.store(ip, cacheKey, phases));
+      }
+    }
+
+    // Saved before the measurement is polled, so that an interrupted run never pays for it twice.
+    if (runState && event.type === 'measurement-created' && !event.resumed) {
+      const { phase, measurementId, probesCount, method, locations } = event;
+      state.measurements.push({ phase, measurementId, probesCount, method, locations });
+      state.credits += event.cost;
+      saveState();
+    }
+
+    if (runState && event.type === 'phase-end' && event.summary.candidates.length > 0) {
+      state.phases.push({ summary: event.summary, samples: event.samples });
+      state.measurements = state.measurements.filter(m => m.phase !== event.phase);
+      saveState();
+    }
+
+    options.onEvent?.(event);
+  };
+
+  let run: GeolocationRun;
+  try {
+    run = await runMeasurements(client, ip, {
+      limit,
+      method: options.method,
+      port: options.port,
+      pollInterval: options.pollInterval,
+      pollTimeout: options.pollTimeout,
+      priorPhases: saved?.phases ?? (cache ? await cache.lookup(ip, cacheKey) : undefined),
+      pendingMeasurements: saved?.measurements,
+      priorCredits: saved?.credits,
+      mapAnycast: options.mapAnycast,
+      pipeline: options.pipeline,
+      start: options.start,
+      phaseLimits,
+      budget: options.budget,
+      adaptive: options.adaptive,
+      probeFilter: options.probeFilter,
+      beamWidth: options.beamWidth,
+      thresholds: options.thresholds,
+      onEvent
+    });
+  } finally {
+    await pendingWrite;
+  }
+
+  await runState?.remove(ip);
+
+  const path = options.pathAnalysis && !run.isAnycast && run.results.length > 0
+    ? await analyzePaths(client, ip, run.results, run.credits.consumed, {
+      budget: options.budget, pollInterval: options.pollInterval, pollTimeout: options.pollTimeout, lookupAsn: options.lookupAsn,
+      onEvent: options.onEvent
+    })
+    : null;
+
+  if (path) {
+    run = { ...run, credits: { ...run.credits, consumed: run.credits.consumed + path.credits } };
+  }
+
+  const confidence = scoreConfidence(run, { ...DEFAULT_CONFIDENCE_LEVELS, ...options.confidenceLevels });
+
+  // A run answered entirely from the cache measured nothing new.
+  if (options.history && (run.isAnycast || run.results.length > 0) && run.phases.some(p => !p.cachedAt)) {
+    const entry = historyEntry(run, confidence);
+    const previous = await options.history.record(ip, entry);
+    const level = previous && compareLocations(previous, entry);
+    if (level) {
+      options.onEvent?.({ type: 'location-changed', target: ip, level, from: previous, to: entry });
+    }
+  }
+
+  return {
+    ...run,
+    best: run.isAnycast ? null : run.results[0] ?? null,
+    confidence,
+    comparisons: (options.databases ?? []).map(database => compareWithDatabase(run, database)),
+    path
+  };
+}
+
+// Geolocates the target several times without the cache and merges the runs into one ranking.
+export async function geolocateRepeatedly(target: string, repeat: number, options: GeolocateOptions = {}): Promise<RepeatedGeolocation> {
+  const client = withRetries(options.client ?? createClient(options.token), options);
+  const runs: GeolocationResult[] = [];
+  const entries: HistoryEntry[] = [];
+
+  for (let run = 1; run <= repeat; run++) {
+    options.onEvent?.({ type: 'repeat-run', target, run, runs: repeat });
+    const result = await geolocate(target, { ...options, client, retry: false, cache: undefined, resume: options.resume && run === 1 });
+    runs.push(result);
+    entries.push(historyEntry(result, result.confidence));
+  }
+
+  const locations = mergeRuns(runs);
+
+  return {
+    target: runs[0].target,
+    runs,
+    locations,
+    best: runs.some(r => !r.isAnycast) ? locations[0] ?? null : null,
+    changes: findLocationChanges(entries),
+    credits: runs.reduce((sum, r) => sum + r.credits.consumed, 0)
+  };
+}
+
+// The addresses of a hostname share its budget: each gets an equal part of what is left, so that the
+// credits one address leaves unused go to the ones after it.
+export function addressBudget(left: number, addresses: number): number {
+  return Math.floor(left / addresses);
+}
+
+export async function geolocateTarget(target: string, options: GeolocateTargetOptions = {}): Promise<TargetGeolocation> {
+  const client = withRetries(options.client ?? createClient(options.token), options);
+  const resolved = await resolveTarget(target);
+  const { hostname } = resolved;
+  let resolution: ResolutionCheck | null = null;
+
+  if (hostname) {
+    options.onEvent?.({ type: 'target-resolved', target, hostname, addresses: resolved.addresses });
+
+    // The check counts against the budget and is left out when it does not fit.
+    const checkCost = regionalResolutionCost(resolved);
+    if (options.checkResolution !== false && (options.budget === undefined || checkCost < options.budget)) {
+      resolution = await checkRegionalResolution(client, resolved, options.pollInterval, options.pollTimeout);
+      if (resolution.mismatches.length > 0) {
+        options.onEvent?.({ type: 'resolution-mismatch', hostname, mismatches: resolution.mismatches });
+      }
+    }
+  }
+
+  const addresses: AddressGeolocation[] = [];
+  let credits = resolution?.credits ?? 0;
+
+  for (const [index, { address, family }] of resolved.addresses.entries()) {
+    if (hostname) {
+      options.onEvent?.({ type: 'address-start', address, family, index: index + 1, total: resolved.addresses.length });
+    }
+
+    const budget = options.budget === undefined ? undefined : addressBudget(options.budget - credits, resolved.addresses.length - index);
+
+    if (budget !== undefined && budget < 1) {
+      addresses.push({ address, family, result: null, error: `No credits of the ${options.budget} credit budget are left` });
+      continue;
+    }
+
+    try {
+      const result = await geolocate(address, { ...options, client, retry: false, budget });
+      addresses.push({ address, family, result });
+      credits += result.credits.consumed;
+    } catch (error: any) {
+      addresses.push({ address, family, result: null, error: error.message });
+    }
+  }
+
+  return { target, hostname, addresses, resolution, credits };
+}
+
+// Measures the target from probes near the claimed location and from every continent, then checks
+// the claim against the round-trip times.
+export async function verifyClaim(target: string, claimText: string, options: VerifyOptions = {}): Promise<ClaimVerificationResult> {
+  const ip = checkTarget(target, options);
+  const claim = parseClaim(claimText);
+  const client = options.client ?? createClient(options.token);
+  const retry = retryOptions(options);
+  const probes = await (retry ? createRetryingProbeList(client, retry) : client).listProbes();
+
+  if (!probes.ok) {
+    throw apiError(`Failed to list probes: ${JSON.stringify(probes.data)}`, probes);
+  }
+
+  const area = claimedArea(claim, probes.data);
+  const locations = selectClaimProbes(area, probes.data, options.near ?? 20, options.far ?? 2);
+  const run = await runMeasurements(withRetries(client, options), ip, {
+    method: options.method ?? 'auto',
+    port: options.port,
+    pollInterval: options.pollInterval,
+    pollTimeout: options.pollTimeout,
+    pipeline: [createVerifyPhase(locations)],
+    budget: options.budget,
+    probeFilter: options.probeFilter,
+    thresholds: options.thresholds,
+    onEvent: options.onEvent
+  });
+
+  return {
+    target: ip,
+    claim,
+    area,
+    ...evaluateClaim(area, run.samples),
+    measurementIds: run.phases.flatMap(p => [p.fallbackFrom?.measurementId, p.measurementId]).filter((id): id is string => id !== undefined),
+    credits: run.credits
+  };
+}
+
+// Geolocates a few responsive addresses spread over the prefix and lets them vote on its geofeed entry.
+export async function geolocatePrefix(prefix: string, options: PrefixOptions = {}): Promise<PrefixGeolocation> {
+  const parsed = parseCidr(prefix);
+
+  if (!parsed) {
+    throw codedError('INVALID_INPUT', `Invalid prefix: ${prefix}`);
+  }
+
+  const cidr = formatCidr(parsed);
+  const classification = classifyIp(formatIp(parsed.network));
+
+  if (!classification.reachable && !options.force) {
+    throw codedError('INVALID_INPUT', describeUnreachable(classification));
+  }
+
+  const client = withRetries(options.client ?? createClient(options.token), options);
+  const samples = options.samples ?? DEFAULT_PREFIX_SAMPLES;
+  const hosts: PrefixHost[] = [];
+  const unresponsive: string[] = [];
+  let credits = 0;
+
+  const countCredits = (event: GeolocateEvent) => {
+    if (event.type === 'measurement-created') {
+      credits += event.cost;
+    }
+  };
+
+  // Unlike a traceroute, whose last hop may be a router in front of the address, ping and tcp-ping
+  // only count replies from the address itself.
+  const checkMethod = options.method === 'tcp-ping' || options.port !== undefined ? 'tcp-ping' : 'ping';
+  const left = () => options.budget === undefined ? undefined : options.budget - credits;
+  let outOfBudget = false;
+
+  for (const address of sampleAddresses(parsed, samples * CANDIDATES_PER_SAMPLE)) {
+    if (hosts.length >= samples) {
+      break;
+    }
+
+    if ((left() ?? Infinity) < REACHABILITY_PROBES) {
+      outOfBudget = true;
+      break;
+    }
+
+    const check = await runMeasurements(client, address, {
+      method: checkMethod,
+      port: options.port,
+      pollInterval: options.pollInterval,
+      pollTimeout: options.pollTimeout,
+      pipeline: [createReachabilityPhase(REACHABILITY_PROBES)],
+      budget: left(),
+      probeFilter: options.probeFilter,
+      thresholds: options.thresholds,
+      onEvent: countCredits
+    });
+    const responsive = check.samples.length > 0;
+
+    options.onEvent?.({ type: 'prefix-host', prefix: cidr, address, responsive, sample: responsive ? hosts.length + 1 : 0, samples });
+
+    if (!responsive) {
+      unresponsive.push(address);
+      continue;
+    }
+
+    try {
+      const result = await geolocate(address, {
+        ...options,
+        client,
+        retry: false,
+        budget: left(),
+        onEvent: (event) => {
+          countCredits(event);
+          options.onEvent?.(event);
+        }
+      });
+      hosts.push({ address, result });
+    } catch (error: any) {
+      hosts.push({ address, result: null, error: error.message });
+      if (errorCode(error) === 'BUDGET_EXCEEDED') {
+        break;
+      }
+    }
+  }
+
+  const located = hosts.flatMap(h => h.result?.best ? [h.result.best] : []);
+
+  if (located.length === 0) {
+    if (hosts.length === 0 && outOfBudget) {
+      throw codedError('BUDGET_EXCEEDED', `The ${options.budget} credit budget ran out before an address in ${cidr} responded`);
+    }
+    throw codedError('NO_RESULTS', hosts.length === 0
+      ? `None of the ${unresponsive.length} addresses tried in ${cidr} responded`
+      : `No address in ${cidr} could be geolocated: ${hosts.find(h => h.error)?.error ?? 'the responsive addresses are anycast'}`);
+  }
+
+  return { prefix: cidr, entry: summarizePrefix(cidr, located), hosts, unresponsive, credits };
+}
+
+// Measures every valid entry of an RFC 8805 geofeed. One responsive address per entry is the default,
+// since feeds list many prefixes and each address costs a full run.
+export async function validateGeofeed(content: string, options: PrefixOptions = {}): Promise<GeofeedCheck[]> {
+  const lines = parseGeofeed(content);
+  const client = withRetries(options.client ?? createClient(options.token), options);
+  const checks: GeofeedCheck[] = [];
+
+  for (const [index, { line, prefix, entry, error }] of lines.entries()) {
+    const check = { line, prefix, feed: entry, measured: null, countryMatch: null, regionMatch: null, addresses: [], credits: 0 };
+
+    if (!entry) {
+      checks.push({ ...check, status: 'invalid', reason: error! });
+      continue;
+    }
+
+    options.onEvent?.({ type: 'geofeed-entry', prefix: entry.prefix, line, index: index + 1, total: lines.length });
+
+    let credits = 0;
+    try {
+      const located = await geolocatePrefix(entry.prefix, {
+        ...options,
+        client,
+        retry: false,
+        samples: options.samples ?? 1,
+        onEvent: (event) => {
+          if (event.type === 'measurement-created') {
+            credits += event.cost;
+          }
+          options.onEvent?.(event);
+        }
+      });
+      checks.push({
+        ...check,
+        ...compareGeofeedEntry(entry, located.entry),
+        prefix: entry.prefix,
+        measured: located.entry,
+        addresses: located.hosts.filter(h => h.result).map(h => h.address),
+        credits
+      });
+    } catch (error: any) {
+      checks.push({ ...check, prefix: entry.prefix, status: 'unmeasured', reason: error.message, credits });
+    }
+  }
+
+  return checks;
+}
+
+export {
+  runMeasurements, analyzePing, analyzeResult, analyzeTraceroute, DEFAULT_BEAM_WIDTH, DEFAULT_POLL_TIMEOUT_MS,
+  DEFAULT_CLIENT_TIMEOUT_MS, DEFAULT_THRESHOLDS, MEASUREMENT_METHODS
+} from './measure.js';
+export type {
+  Backtrack, GeolocationRun, LatencyAnalysis, LatencyMeasurement, LatencyMethod, LatencyResultItem, LatencyTestResult, MeasureOptions,
+  MeasurementClient, MeasurementMethod, MeasurementProbe, PhaseCandidate, PhaseName, PhaseSummary, PingTestResult, PriorPhase,
+  ProbeResult, ProbeSample, Thresholds, TracerouteTestResult
+} from './measure.js';
+export type * from './events.js';
+export { createTextReporter } from './reporter.js';
+export {
+  buildConfigDocument, buildGeofeedDocument, buildHistoryDocument, buildHostDocument, buildPrefixDocument, buildPrefixErrorDocument, buildRepeatDocument,
+  buildRepeatErrorDocument, buildResultDocument, buildErrorDocument, buildVerifyDocument, buildVerifyErrorDocument, formatDocument,
+  formatEstimate, formatHistoryLocation, formatLocation, OUTPUT_SCHEMA_VERSION
+} from './output.js';
+export type {
+  ConfigDocument, GeofeedDocument, HistoryDocument, HostDocument, LocationEntry, OutputFormat, PrefixDocument, RepeatDocument, ResultDocument,
+  VerifyDocument
+} from './output.js';
+export { DEFAULT_CONFIDENCE_LEVELS, getConfidenceLabel, scoreConfidence, scoreFinalPhase } from './confidence.js';
+export type { ConfidenceFactor, ConfidenceFactorName, ConfidenceLabel, ConfidenceLevels, ConfidenceScore } from './confidence.js';
+export { createRecordingClient, createReplayClient, readRecordingManifest } from './recording.js';
+export type { RecordedCall, RecordingManifest } from './recording.js';
+export { allocateBudget, MAX_PROBES_PER_MEASUREMENT, planRun, readCreditHeaders } from './budget.js';
+export type { BudgetAllocation, CreditHeaders, CreditUsage, PlannedPhase, PlanOptions, RunPlan } from './budget.js';
+export {
+  ANY_CODE, ANYCAST_PHASE, CITY_PHASE, CONTINENT_PHASE, COUNTRY_PHASE, DEFAULT_CONTINENT_PROBES, DEFAULT_PIPELINE, phaseProbes, STATE_PHASE
+} from './pipeline.js';
+export type { PhaseDefinition, PipelineScope } from './pipeline.js';
+export { mapAnycastSites, MAX_SITE_RTT_MS } from './anycast.js';
+export type { AnycastSite, AnycastSiteProbe } from './anycast.js';
+export { createResultCache, defaultCacheDir, DEFAULT_CACHE_TTL_MS } from './cache.js';
+export { createRunStateStore, sameRunOptions } from './resume.js';
+export { compareLocations, createHistoryStore, defaultHistoryDir, findLocationChanges, historyEntry } from './history.js';
+export type { HistoryEntry, HistoryStore, HistorySummary, LocationChange, LocationChangeLevel } from './history.js';
+export { mergeRuns } from './repeat.js';
+export { codedError, errorCode, ERROR_CODES } from './errors.js';
+export type { ErrorCode, GeolocateError } from './errors.js';
+export {
+  BUILTIN_PROFILES, CONFIG_DEFAULTS, defaultUserConfigPath, describeConfig, loadConfig, mergeConfig, PROJECT_CONFIG_FILE, validateConfig
+} from './config.js';
+export type { ConfigFile, ConfigLayer, ConfigSetting, GeolocateConfig, LoadConfigOptions, ResolvedConfig } from './config.js';
+export { analyzePaths, lookupOriginAsn, parseLocationHints, DEFAULT_PATH_PROBES } from './path.js';
+export type {
+  HintAgreement, LocationEvidence, LocationHint, PathAnalysis, PathHop, PathOptions, ProbePath, TargetAsnSource
+} from './path.js';
+export { createJobQueue, parseJobRequest, DEFAULT_JOB_CONCURRENCY, DEFAULT_MAX_JOBS } from './jobs.js';
+export type {
+  Job, JobEvent, JobListener, JobPhase, JobProgress, JobQueue, JobQueueOptions, JobRequest, JobRequestOptions, JobStatus,
+  JobStatusEvent
+} from './jobs.js';
+export { createGeolocationServer } from './server.js';
+export type { MergedLocation } from './repeat.js';
+export { compareWithDatabase } from './compare.js';
+export { screenProbes } from './quality.js';
+export type { DropReason, DroppedProbe, MeasuredProbe, ProbeFilter } from './quality.js';
+export type { DatabaseComparison, LatencyViolation, PlausibilityVerdict } from './compare.js';
+export { openCsv, openGeoDatabase, openMmdb } from './geodb.js';
+export {
+  claimedArea, createVerifyPhase, distanceToArea, evaluateClaim, parseClaim, selectClaimProbes, CITY_RADIUS_KM, COUNTRY_RADIUS_KM,
+  NEAR_CLAIM_KM
+} from './verify.js';
+export type { ClaimedArea, ClaimVerdict, ClaimVerification, LocationClaim, ProbeListClient, VerifiedProbe } from './verify.js';
+export type { DatabaseRecord, GeoDatabase, GeoDatabaseFormat } from './geodb.js';
+export {
+  compareGeofeedEntry, createReachabilityPhase, formatGeofeed, isoRegion, parseGeofeed, summarizePrefix
+} from './geofeed.js';
+export type { GeofeedCheck, GeofeedEntry, GeofeedLine, GeofeedStatus } from './geofeed.js';
+export type { PendingMeasurement, RunState, RunStateStore } from './resume.js';
+export {
+  createRetryingClient, createRetryingProbeList, parseRetryAfter, DEFAULT_MAX_RETRY_AFTER_MS, DEFAULT_RETRIES, DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS
+} from './retry.js';
+export type { RetryInfo, RetryOptions } from './retry.js';
+export type { CacheEntry, CacheEntryKind, CacheEntrySummary, CachedPhase, CacheKeyOptions, ResultCache, ResultCacheOptions } from './cache.js';
+export { distanceKm, estimateLocation, maxDistanceKm, FIBER_KM_PER_RTT_MS } from './geo.js';
+export type { DistanceConstraint, GeoPoint, LocationEstimate } from './geo.js';
+export {
+  classifyIp, coveringPrefix, describeUnreachable, findSpecialPurposeRange, formatCidr, formatIp, isValidIp, parseCidr, parseIp,
+  sampleAddresses
+} from './ip.js';
+export type { IpClassification, ParsedIp, ParsedPrefix, SpecialPurposeRange } from './ip.js';
+export { addressFamily, checkRegionalResolution, describeMismatch, parseTarget, regionalResolutionCost, resolveTarget } from './resolve.js';
+export type { AddressFamily, RegionalAnswer, ResolutionCheck, ResolvedAddress, ResolvedTarget } from './resolve.js';
+export {
+  getCountryName, getCountryContinent, getStateName, getSubdivisionName, hasSubdivisions, nearestSubdivision, CONTINENTS, SUBDIVISIONS
+} from './countries.js';
+export type { Subdivision } from './countries.js';
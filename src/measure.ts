@@ -1,5 +1,32 @@
-import { Globalping } from 'globalping';
-import { CONTINENTS, getCountryContinent, getCountryName, getStateName } from './countries.js';
+import type {
+  Globalping, MeasurementLocationOption, MeasurementLocations, TypedMeasurementRequest, TypedMeasurementResponse, TypedMeasurementResultItem
+} from 'globalping';
+import { estimateLocation, LocationEstimate } from './geo.js';
+import { AnycastSite, mapAnycastSites } from './anycast.js';
+import { CreditHeaders, CreditUsage, MAX_PROBES_PER_MEASUREMENT, readCreditHeaders } from './budget.js';
+import { ANYCAST_PHASE, DEFAULT_PIPELINE, PhaseDefinition, phaseProbes, PipelineScope } from './pipeline.js';
+import { DroppedProbe, MeasuredProbe, ProbeFilter, screenProbes } from './quality.js';
+import type { PendingMeasurement } from './resume.js';
+import { parseRetryAfter } from './retry.js';
+import type { GeolocateEvent, GeolocateEventListener } from './events.js';
+import { apiError, codedError } from './errors.js';
+
+export type LatencyMeasurement = TypedMeasurementResponse<'ping' | 'traceroute'>;
+export type LatencyResultItem = TypedMeasurementResultItem<'ping' | 'traceroute'>;
+export type LatencyTestResult = LatencyResultItem['result'];
+export type TracerouteTestResult = TypedMeasurementResultItem<'traceroute'>['result'];
+export type PingTestResult = TypedMeasurementResultItem<'ping'>['result'];
+export type MeasurementProbe = LatencyResultItem['probe'];
+export type MeasurementClient = Pick<Globalping<false>, 'createMeasurement' | 'getMeasurement'>;
+
+export const DEFAULT_POLL_TIMEOUT_MS = 3 * 60 * 1000;
+export const DEFAULT_CLIENT_TIMEOUT_MS = 60 * 1000;
+
+export const MEASUREMENT_METHODS = ['ping', 'tcp-ping', 'traceroute', 'auto'] as const;
+
+export type MeasurementMethod = typeof MEASUREMENT_METHODS[number];
+
+export type LatencyMethod = Exclude<MeasurementMethod, 'auto'>;
 
 export interface ProbeResult {
   country: string;
@@ -7,14 +34,268 @@ export interface ProbeResult {
   state?: string;
   minRtt: number;
   avgRtt: number;
+  samples: number;
+  method: LatencyMethod;
   probeAsn: number;
   probeNetwork: string;
   isAnycast?: boolean;
 }
 
-function checkRateLimitError(result: any): void {
+export type PhaseName = 'continent' | 'country' | 'state' | 'city' | 'anycast' | 'verify' | 'reachability';
+
+export interface PhaseCandidate {
+  code: string;
+  minRtt: number;
+  avgRtt: number;
+  stdDev: number;
+  samples: number;
+  // The network of the candidate's fastest probe.
+  probeAsn: number;
+  probeNetwork: string;
+}
+
+export interface PhaseSummary {
+  phase: PhaseName;
+  scope: PipelineScope;
+  measurementId: string;
+  probesCount: number;
+  probesLimit: number;
+  method: LatencyMethod;
+  fallbackFrom?: { measurementId: string; method: LatencyMethod };
+  followUp?: { measurementId: string; probesCount: number };
+  rejected: number;
+  dropped: DroppedProbe[];
+  credits: number;
+  candidates: PhaseCandidate[];
+  abandoned?: boolean;
+  cachedAt?: string;
+}
+
+export interface ProbeSample {
+  phase: PhaseName;
+  method: LatencyMethod;
+  rtt: number;
+  latitude: number;
+  longitude: number;
+  country: string;
+  state?: string;
+  city: string;
+  asn: number;
+  network: string;
+}
+
+export interface PriorPhase {
+  summary: PhaseSummary;
+  samples: ProbeSample[];
+}
+
+export interface Backtrack {
+  phase: PhaseName;
+  scope: PipelineScope;
+  from: string;
+  to: string;
+  rtt: number | null;
+  alternativeRtt: number | null;
+  chosen: string;
+  reason: string;
+}
+
+export interface GeolocationRun {
+  target: string;
+  results: ProbeResult[];
+  phases: PhaseSummary[];
+  backtracks: Backtrack[];
+  samples: ProbeSample[];
+  estimate: LocationEstimate | null;
+  isAnycast: boolean;
+  anycastSites: AnycastSite[] | null;
+  credits: CreditUsage;
+}
+
+export interface Thresholds {
+  anycastRttMs: number;
+  anycastMinLocations: number;
+  maxTrailingTimeouts: number;
+  minResponsiveHop: number;
+  backtrackRttMs: number;
+}
+
+export interface LatencyAnalysis {
+  method: LatencyMethod;
+  latency: number | null;
+  reason?: string;
+  lastHop?: number;
+  timeoutsAfter?: number;
+}
+
+export interface MeasureOptions {
+  limit?: number;
+  method?: MeasurementMethod;
+  port?: number;
+  pollInterval?: number;
+  pollTimeout?: number;
+  priorPhases?: PriorPhase[];
+  pendingMeasurements?: PendingMeasurement[];
+  priorCredits?: number;
+  mapAnycast?: boolean;
+  pipeline?: PhaseDefinition[];
+  start?: PipelineScope;
+  phaseLimits?: Partial<Record<PhaseName, number>>;
+  budget?: number;
+  adaptive?: boolean;
+  probeFilter?: ProbeFilter;
+  beamWidth?: number;
+  thresholds?: Partial<Thresholds>;
+  onEvent?: GeolocateEventListener;
+}
+
+interface RunContext {
+  client: MeasurementClient;
+  targetIp: string;
+  limit: number;
+  method: MeasurementMethod;
+  port?: number;
+  pollInterval: number;
+  pollTimeout: number;
+  phases: PhaseSummary[];
+  samples: ProbeSample[];
+  priorPhases: PriorPhase[];
+  pendingMeasurements: PendingMeasurement[];
+  mapAnycast: boolean;
+  pipeline: PhaseDefinition[];
+  start: PipelineScope;
+  phaseLimits: Partial<Record<PhaseName, number>>;
+  budget?: number;
+  credits: CreditUsage;
+  adaptive: boolean;
+  spareProbes: number;
+  probeFilter: ProbeFilter;
+  beamWidth: number;
+  backtracks: Backtrack[];
+  thresholds: Thresholds;
+  onEvent?: GeolocateEventListener;
+}
+
+interface Branch {
+  results: ProbeResult[];
+  anycast: boolean;
+  phases: PhaseSummary[];
+}
+
+interface PhaseMeasurement {
+  measurementId: string;
+  probesCount: number;
+  method: LatencyMethod;
+  fallbackFrom?: { measurementId: string; method: LatencyMethod };
+  followUp?: { measurementId: string; probesCount: number };
+  rejected: number;
+  dropped: DroppedProbe[];
+  credits: number;
+  groups: Map<string, ProbeSample[]>;
+}
+
+// Share of a phase's probes measured first in adaptive mode, and how many of the closest candidates
+// the rest is spread over when that first batch does not separate a leader.
+const ADAPTIVE_BATCH_SHARE = 0.25;
+const FOLLOW_UP_CANDIDATES = 3;
+const SEPARATION_MARGIN_MS = 5;
+
+// A target is anycast when anycastMinLocations candidates of one phase see it within anycastRttMs. Traceroutes
+// need a responding hop at minResponsiveHop or later, and no more than maxTrailingTimeouts silent hops after
+// the last responding one, or they most likely ended inside the probe's own network. A final latency above
+// backtrackRttMs is unlikely when an earlier phase picked the right continent or country, so the runner-ups
+// of those phases are measured as well.
+export const DEFAULT_THRESHOLDS: Thresholds = {
+  anycastRttMs: 11,
+  anycastMinLocations: 6,
+  maxTrailingTimeouts: 10,
+  minResponsiveHop: 3,
+  backtrackRttMs: 30
+};
+
+export const DEFAULT_BEAM_WIDTH = 2;
+
+function emit(ctx: RunContext, event: GeolocateEvent): void {
+  ctx.onEvent?.(event);
+}
+
+function rankCandidates(groups: Map<string, ProbeSample[]>, rankBy: 'min' | 'avg'): PhaseCandidate[] {
+  const candidates: PhaseCandidate[] = [];
+
+  for (const [code, samples] of groups.entries()) {
+    const latencies = samples.map(s => s.rtt);
+    const avgRtt = latencies.reduce((a, b) => a + b, 0) / latencies.length;
+    const variance = latencies.reduce((sum, l) => sum + (l - avgRtt) ** 2, 0) / latencies.length;
+    const fastest = samples.reduce((a, b) => b.rtt < a.rtt ? b : a);
+    candidates.push({
+      code,
+      minRtt: fastest.rtt,
+      avgRtt,
+      stdDev: Math.sqrt(variance),
+      samples: latencies.length,
+      probeAsn: fastest.asn,
+      probeNetwork: fastest.network
+    });
+  }
+
+  if (rankBy === 'avg') {
+    candidates.sort((a, b) => a.avgRtt - b.avgRtt);
+  } else {
+    candidates.sort((a, b) => a.minRtt - b.minRtt);
+  }
+
+  return candidates;
+}
+
+function summarizePhase(
+  definition: PhaseDefinition,
+  scope: PipelineScope,
+  probesLimit: number,
+  measurement: PhaseMeasurement
+): PhaseSummary {
+  return {
+    phase: definition.phase,
+    scope,
+    measurementId: measurement.measurementId,
+    probesCount: measurement.probesCount,
+    probesLimit,
+    method: measurement.method,
+    fallbackFrom: measurement.fallbackFrom,
+    followUp: measurement.followUp,
+    rejected: measurement.rejected,
+    dropped: measurement.dropped,
+    credits: measurement.credits,
+    candidates: rankCandidates(measurement.groups, definition.rankBy)
+  };
+}
+
+function finishPhase(ctx: RunContext, summary: PhaseSummary, anycast: boolean = false): void {
+  ctx.phases.push(summary);
+  emit(ctx, {
+    type: 'phase-end',
+    phase: summary.phase,
+    summary,
+    samples: ctx.samples.filter(s => s.phase === summary.phase),
+    anycast
+  });
+
+  if (anycast) {
+    emit(ctx, { type: 'anycast', phase: summary.phase, mapping: ctx.mapAnycast });
+  }
+}
+
+function checkRateLimitError(result: { ok: boolean; response: Response }): void {
   if (!result.ok && result.response?.status === 429) {
-    throw new Error('You have run out of credits for this session. You can wait for the rate limit to reset or get higher limits by sponsoring us or hosting probes. Learn more at https://dash.globalping.io?view=add-credits');
+    const resetMs = parseRetryAfter(result.response.headers);
+    const reset = resetMs === null ? 'the rate limit to reset' : `the rate limit to reset in ${Math.max(1, Math.ceil(resetMs / 60000))} min`;
+    throw codedError('RATE_LIMITED', `You have run out of credits for this session. You can wait for ${reset} or get higher limits by sponsoring us or hosting probes. Learn more at https://dash.globalping.io?view=add-credits`);
+  }
+}
+
+function checkBudget(ctx: RunContext, phase: PhaseName, requested: number): void {
+  if (ctx.budget !== undefined && ctx.credits.consumed + requested > ctx.budget) {
+    const left = Math.max(0, ctx.budget - ctx.credits.consumed);
+    throw codedError('BUDGET_EXCEEDED', `The ${phase} phase could use ${requested} credits, but only ${left} of the ${ctx.budget} credit budget are left`);
   }
 }
 
@@ -23,145 +304,84 @@ function detectAnycast(results: ProbeResult[], thresholdMs: number, minCount: nu
   return lowLatencyCount >= minCount;
 }
 
-function extractLatencyFromTraceroute(result: any, debug: boolean = false, probeInfo?: any): number | null {
-  if (result.status !== 'finished' || !result.hops) {
-    return null;
+function validRtts(hop: { timings: Array<{ rtt: number }> }): number[] {
+  return (hop.timings || []).map(t => t.rtt).filter(rtt => rtt > 0);
+}
+
+export function analyzeTraceroute(result: TracerouteTestResult, thresholds: Thresholds = DEFAULT_THRESHOLDS): LatencyAnalysis {
+  const method = 'traceroute';
+  const { minResponsiveHop, maxTrailingTimeouts } = thresholds;
+
+  if (result.status !== 'finished' || !('hops' in result) || !result.hops) {
+    return { method, latency: null, reason: `Test ${result.status}` };
   }
 
-  let hasValidHopAtThreeOrHigher = false;
-  for (let i = 2; i < result.hops.length; i++) {
-    const hop = result.hops[i];
-    if (hop.timings && hop.timings.length > 0) {
-      const rtts = hop.timings.map((t: any) => t.rtt).filter((rtt: number) => rtt > 0);
-      if (rtts.length > 0) {
-        hasValidHopAtThreeOrHigher = true;
-        break;
-      }
+  let hasValidHopAtMinimumOrHigher = false;
+  for (let i = minResponsiveHop - 1; i < result.hops.length; i++) {
+    if (validRtts(result.hops[i]).length > 0) {
+      hasValidHopAtMinimumOrHigher = true;
+      break;
     }
   }
 
-  if (!hasValidHopAtThreeOrHigher) {
-    if (debug && probeInfo) {
-      console.log(`  [REJECTED] ${probeInfo.city}, ${probeInfo.country} - No valid hop at position 3+`);
-    }
-    return null;
+  if (!hasValidHopAtMinimumOrHigher) {
+    return { method, latency: null, reason: `No valid hop at position ${minResponsiveHop}+` };
   }
 
   let lastValidHopIndex = -1;
   for (let i = result.hops.length - 1; i >= 0; i--) {
-    const hop = result.hops[i];
-    if (hop.timings && hop.timings.length > 0) {
-      const rtts = hop.timings.map((t: any) => t.rtt).filter((rtt: number) => rtt > 0);
-      if (rtts.length > 0) {
-        lastValidHopIndex = i;
-        break;
-      }
+    if (validRtts(result.hops[i]).length > 0) {
+      lastValidHopIndex = i;
+      break;
     }
   }
 
   if (lastValidHopIndex === -1) {
-    return null;
+    return { method, latency: null, reason: 'No responding hop' };
   }
 
   let timeoutCount = 0;
   for (let i = lastValidHopIndex + 1; i < result.hops.length; i++) {
-    const hop = result.hops[i];
-    const hasValidTiming = hop.timings && hop.timings.length > 0 &&
-      hop.timings.some((t: any) => t.rtt > 0);
-    if (!hasValidTiming) {
+    if (validRtts(result.hops[i]).length === 0) {
       timeoutCount++;
     }
   }
 
-  if (timeoutCount > 10) {
-    if (debug && probeInfo) {
-      console.log(`  [REJECTED] ${probeInfo.city}, ${probeInfo.country} - Last hop ${lastValidHopIndex + 1}, then ${timeoutCount} timeouts`);
-    }
-    return null;
-  }
-
-  const lastHop = result.hops[lastValidHopIndex];
-  const rtts = lastHop.timings.map((t: any) => t.rtt).filter((rtt: number) => rtt > 0);
-  const latency = Math.min(...rtts);
-
-  if (debug && probeInfo) {
-    console.log(`  [ACCEPTED] ${probeInfo.city}, ${probeInfo.country} - Hop ${lastValidHopIndex + 1}: ${latency.toFixed(2)}ms, ${timeoutCount} timeouts after`);
-    for (let j = 0; j < Math.min(result.hops.length, 5); j++) {
-      const h = result.hops[j];
-      if (h.timings && h.timings.length > 0) {
-        const hopRtts = h.timings.map((t: any) => t.rtt).filter((r: number) => r > 0);
-        if (hopRtts.length > 0) {
-          console.log(`    Hop ${j + 1}: ${hopRtts.map((r: number) => r.toFixed(2)).join(', ')} ms`);
-        }
-      } else {
-        console.log(`    Hop ${j + 1}: * *`);
-      }
-    }
+  if (timeoutCount > maxTrailingTimeouts) {
+    return {
+      method,
+      latency: null,
+      reason: `Last hop ${lastValidHopIndex + 1}, then ${timeoutCount} timeouts`,
+      lastHop: lastValidHopIndex,
+      timeoutsAfter: timeoutCount
+    };
   }
 
-  return latency;
+  return {
+    method,
+    latency: Math.min(...validRtts(result.hops[lastValidHopIndex])),
+    lastHop: lastValidHopIndex,
+    timeoutsAfter: timeoutCount
+  };
 }
 
-async function measureContinents(
-  client: Globalping<false>,
-  targetIp: string
-): Promise<{ continent: string; avgLatency: number }> {
-  console.log('Phase 1: Detecting continent...');
-
-  const result = await client.createMeasurement({
-    type: 'traceroute',
-    target: targetIp,
-    locations: CONTINENTS.map(c => ({ magic: c.magic, limit: 5 }))
-  });
-
-  checkRateLimitError(result);
-
-  if (!result.ok) {
-    throw new Error(`Failed to create measurement: ${JSON.stringify(result.data)}`);
+export function analyzePing(result: PingTestResult, method: 'ping' | 'tcp-ping' = 'ping'): LatencyAnalysis {
+  if (result.status !== 'finished' || !('stats' in result)) {
+    return { method, latency: null, reason: `Test ${result.status}` };
   }
 
-  const measurementId = result.data.id;
-  const expectedProbes = result.data.probesCount;
-
-  console.log(`  Measuring from ${expectedProbes} probes...\n`);
-
-  const data = await pollMeasurementByAverage(
-    client,
-    measurementId,
-    expectedProbes,
-    (item) => item.probe.continent
-  );
-
-  const continentLatencies = new Map<string, number[]>();
-  for (const item of data.results) {
-    const latency = extractLatencyFromTraceroute(item.result);
-    if (latency !== null) {
-      const continent = item.probe.continent;
-      if (!continentLatencies.has(continent)) {
-        continentLatencies.set(continent, []);
-      }
-      continentLatencies.get(continent)!.push(latency);
-    }
+  if (result.stats.rcv === 0 || result.stats.min === null) {
+    return { method, latency: null, reason: 'No replies' };
   }
 
-  const measurements: { continent: string; avgLatency: number }[] = [];
-  for (const [continent, latencies] of continentLatencies) {
-    const avgLatency = latencies.reduce((a, b) => a + b, 0) / latencies.length;
-    const continentInfo = CONTINENTS.find(c => c.code === continent);
-    console.log(`  ${continentInfo?.name || continent}: ${avgLatency.toFixed(2)} ms`);
-    measurements.push({ continent, avgLatency });
-  }
-
-  const best = measurements.sort((a, b) => a.avgLatency - b.avgLatency)[0];
+  return { method, latency: result.stats.min };
+}
 
-  if (!best) {
-    throw new Error('No successful measurements from any continent');
+export function analyzeResult(result: LatencyTestResult, method: LatencyMethod, thresholds: Thresholds = DEFAULT_THRESHOLDS): LatencyAnalysis {
+  if (method === 'traceroute') {
+    return analyzeTraceroute(result as TracerouteTestResult, thresholds);
   }
-
-  const continentInfo = CONTINENTS.find(c => c.code === best.continent);
-  console.log(`\nBest continent: ${continentInfo?.name} (${best.avgLatency.toFixed(2)} ms)\n`);
-
-  return best;
+  return analyzePing(result as PingTestResult, method);
 }
 
 function sleep(ms: number): Promise<void> {
@@ -169,416 +389,604 @@ function sleep(ms: number): Promise<void> {
 }
 
 function aggregateLatenciesByField(
-  results: any[],
-  fieldExtractor: (item: any) => string,
-  debug: boolean = false
+  results: LatencyResultItem[],
+  method: LatencyMethod,
+  thresholds: Thresholds,
+  fieldExtractor: (item: LatencyResultItem) => string
 ): Map<string, number[]> {
   const dataMap = new Map<string, number[]>();
 
   for (const item of results) {
-    const latency = extractLatencyFromTraceroute(item.result, debug, item.probe);
-    if (latency !== null) {
+    const analysis = analyzeResult(item.result, method, thresholds);
+    if (analysis.latency !== null) {
       const fieldValue = fieldExtractor(item);
       if (!dataMap.has(fieldValue)) {
         dataMap.set(fieldValue, []);
       }
-      dataMap.get(fieldValue)!.push(latency);
+      dataMap.get(fieldValue)!.push(analysis.latency);
     }
   }
 
   return dataMap;
 }
 
-function buildProbeResults(
-  dataMap: Map<string, number[]>,
-  country: string,
-  city?: string,
-  state?: string
-): ProbeResult[] {
-  const results: ProbeResult[] = [];
-
-  for (const [key, latencies] of dataMap.entries()) {
-    const avgLatency = latencies.reduce((a, b) => a + b, 0) / latencies.length;
-    const minLatency = Math.min(...latencies);
-
-    let resultCountry: string;
-    let resultCity: string;
-    let resultState: string | undefined;
-
-    if (country === '') {
-      resultCountry = key;
-      resultCity = '';
-      resultState = undefined;
-    } else if (city === '' && state === '') {
-      resultCountry = country;
-      resultCity = '';
-      resultState = key;
-    } else if (city === '' && state) {
-      resultCountry = country;
-      resultCity = key;
-      resultState = state;
-    } else {
-      resultCountry = country;
-      resultCity = key;
-      resultState = undefined;
-    }
+function groupSamples(probes: MeasuredProbe[]): Map<string, ProbeSample[]> {
+  const groups = new Map<string, ProbeSample[]>();
 
-    results.push({
-      country: resultCountry,
-      city: resultCity,
-      state: resultState,
-      minRtt: minLatency,
-      avgRtt: avgLatency,
-      probeAsn: 0,
-      probeNetwork: ''
-    });
+  for (const { code, sample } of probes) {
+    groups.set(code, [...(groups.get(code) ?? []), sample]);
   }
 
-  return results.sort((a, b) => a.minRtt - b.minRtt);
+  return groups;
 }
 
-function renderProgressBar(finished: number, total: number, bestName?: string, bestLatency?: number): void {
-  const percentage = (finished / total) * 100;
-  const barLength = 40;
-  const filledLength = Math.round((finished / total) * barLength);
+function buildProbeResults(summary: PhaseSummary, definition: PhaseDefinition): ProbeResult[] {
+  return summary.candidates
+    .map(({ code, minRtt, avgRtt, samples, probeAsn, probeNetwork }) => ({
+      ...definition.toResult!(code, summary.scope),
+      minRtt,
+      avgRtt,
+      samples,
+      method: summary.method,
+      probeAsn,
+      probeNetwork
+    }))
+    .sort((a, b) => a.minRtt - b.minRtt);
+}
 
-  const bar = '█'.repeat(filledLength) + '░'.repeat(barLength - filledLength);
-  const percent = percentage.toFixed(1).padStart(5);
-  const counts = `${finished}/${total}`.padStart(7);
+function findBest(dataMap: Map<string, number[]>, rankBy: 'min' | 'avg'): { code: string; latency: number } | undefined {
+  let best: { code: string; latency: number } | undefined;
 
-  let line = `  [${bar}] ${percent}% ${counts}`;
+  for (const [code, latencies] of dataMap.entries()) {
+    const latency = rankBy === 'min'
+      ? Math.min(...latencies)
+      : latencies.reduce((a, b) => a + b, 0) / latencies.length;
+    if (!best || latency < best.latency) {
+      best = { code, latency };
+    }
+  }
+
+  return best;
+}
 
-  if (bestName && bestLatency !== undefined) {
-    line += ` - Best: ${bestName} (${bestLatency.toFixed(2)} ms)`;
+export interface StartedMeasurement {
+  measurementId: string;
+  probesCount: number;
+  headers: CreditHeaders;
+}
+
+// `what` names the measurement in the error when the API refuses it.
+export async function startMeasurement(client: MeasurementClient, request: TypedMeasurementRequest, what: string): Promise<StartedMeasurement> {
+  const createResult = await client.createMeasurement(request);
+
+  checkRateLimitError(createResult);
+
+  if (!createResult.ok) {
+    throw apiError(`Failed to create ${what}: ${JSON.stringify(createResult.data)}`, createResult);
   }
 
-  process.stdout.write('\r' + line.padEnd(100));
+  return { measurementId: createResult.data.id, probesCount: createResult.data.probesCount, headers: readCreditHeaders(createResult.response) };
 }
 
-async function pollMeasurement(
-  client: Globalping<false>,
+// Polls until the measurement is no longer in progress, or until `pollTimeout` has passed, in which case
+// `complete` is false and the measurement is returned as it was last seen.
+export async function awaitMeasurement<T extends { status: string }>(
+  client: MeasurementClient,
   measurementId: string,
-  expectedProbes: number,
-  fieldExtractor: (item: any) => string
-): Promise<any> {
-  let bestName: string | undefined;
-  let bestLatency: number | undefined;
-  let data: any;
+  what: string,
+  pollInterval: number,
+  pollTimeout: number,
+  onPoll?: (measurement: T) => void
+): Promise<{ measurement: T; complete: boolean }> {
+  const deadline = Date.now() + pollTimeout;
 
   while (true) {
     const result = await client.getMeasurement(measurementId);
     checkRateLimitError(result);
 
     if (!result.ok) {
-      throw new Error(`Failed to get measurement: ${JSON.stringify(result.data)}`);
+      throw apiError(`Failed to get ${what}: ${JSON.stringify(result.data)}`, result);
     }
 
-    data = result.data;
-    const finishedCount = data.results.filter((r: any) => r.result.status === 'finished').length;
+    const measurement = result.data as unknown as T;
+    onPoll?.(measurement);
 
-    const tempData = aggregateLatenciesByField(data.results, fieldExtractor);
+    if (measurement.status !== 'in-progress') {
+      return { measurement, complete: true };
+    }
 
-    if (tempData.size > 0) {
-      let minValue = Infinity;
-      for (const [name, latencies] of tempData.entries()) {
-        const min = Math.min(...latencies);
-        if (min < minValue) {
-          minValue = min;
-          bestName = name;
-          bestLatency = min;
-        }
-      }
+    if (Date.now() + pollInterval > deadline) {
+      return { measurement, complete: false };
     }
 
-    renderProgressBar(finishedCount, expectedProbes, bestName, bestLatency);
+    await sleep(pollInterval);
+  }
+}
 
-    if (data.status !== 'in-progress') {
-      process.stdout.write('\n\n');
-      break;
+async function pollMeasurement(
+  ctx: RunContext,
+  phase: PhaseName,
+  measurementId: string,
+  expectedProbes: number,
+  method: LatencyMethod,
+  fieldExtractor: (item: LatencyResultItem) => string,
+  rankBy: 'min' | 'avg'
+): Promise<LatencyMeasurement> {
+  let best: { code: string; latency: number } | undefined;
+  let finishedCount = 0;
+
+  const { measurement, complete } = await awaitMeasurement<LatencyMeasurement>(
+    ctx.client, measurementId, 'measurement', ctx.pollInterval, ctx.pollTimeout, (data) => {
+      finishedCount = data.results.filter(r => r.result.status === 'finished').length;
+      best = findBest(aggregateLatenciesByField(data.results, method, ctx.thresholds, fieldExtractor), rankBy) ?? best;
+      emit(ctx, { type: 'progress', phase, finished: finishedCount, total: expectedProbes, best });
     }
+  );
 
-    await sleep(1000);
+  // Probes that have not finished by then are rejected like any other unfinished test.
+  if (!complete) {
+    emit(ctx, { type: 'poll-timeout', phase, measurementId, finished: finishedCount, total: expectedProbes });
   }
 
-  return data;
+  return measurement;
 }
 
-async function pollMeasurementByAverage(
-  client: Globalping<false>,
-  measurementId: string,
-  expectedProbes: number,
-  fieldExtractor: (item: any) => string
-): Promise<any> {
-  let bestName: string | undefined;
-  let bestLatency: number | undefined;
-  let data: any;
+function toProbeSample(phase: PhaseName, probe: MeasurementProbe, rtt: number, method: LatencyMethod): ProbeSample {
+  return {
+    phase,
+    method,
+    rtt,
+    latitude: probe.latitude,
+    longitude: probe.longitude,
+    country: probe.country,
+    state: probe.state ?? undefined,
+    city: probe.city,
+    asn: probe.asn,
+    network: probe.network
+  };
+}
 
-  while (true) {
-    const result = await client.getMeasurement(measurementId);
-    checkRateLimitError(result);
+function buildRequest(ctx: RunContext, method: LatencyMethod, locations: MeasurementLocations): TypedMeasurementRequest {
+  if (method === 'traceroute') {
+    return { type: 'traceroute', target: ctx.targetIp, locations };
+  }
 
-    if (!result.ok) {
-      throw new Error(`Failed to get measurement: ${JSON.stringify(result.data)}`);
-    }
+  if (method === 'tcp-ping') {
+    return {
+      type: 'ping',
+      target: ctx.targetIp,
+      locations,
+      measurementOptions: { protocol: 'TCP', ...(ctx.port ? { port: ctx.port } : {}) }
+    };
+  }
 
-    data = result.data;
-    const finishedCount = data.results.filter((r: any) => r.result.status === 'finished').length;
+  return { type: 'ping', target: ctx.targetIp, locations };
+}
+
+interface CreatedMeasurement {
+  measurementId: string;
+  probesCount: number;
+  cost: number;
+}
+
+// A measurement the interrupted run already created for the same request is polled again instead.
+function takePendingMeasurement(
+  ctx: RunContext,
+  phase: PhaseName,
+  method: LatencyMethod,
+  locations: MeasurementLocations
+): CreatedMeasurement | null {
+  const index = ctx.pendingMeasurements.findIndex(m =>
+    m.phase === phase && m.method === method && JSON.stringify(m.locations) === JSON.stringify(locations)
+  );
+
+  if (index === -1) {
+    return null;
+  }
+
+  const [pending] = ctx.pendingMeasurements.splice(index, 1);
+  emit(ctx, {
+    type: 'measurement-created',
+    phase,
+    measurementId: pending.measurementId,
+    probesCount: pending.probesCount,
+    method,
+    locations,
+    resumed: true,
+    cost: 0,
+    creditsRemaining: null,
+    rateLimitRemaining: null
+  });
 
-    const tempData = aggregateLatenciesByField(data.results, fieldExtractor);
+  return { measurementId: pending.measurementId, probesCount: pending.probesCount, cost: 0 };
+}
+
+async function createPhaseMeasurement(
+  ctx: RunContext,
+  phase: PhaseName,
+  method: LatencyMethod,
+  locations: MeasurementLocations,
+  requested: number
+): Promise<CreatedMeasurement> {
+  checkBudget(ctx, phase, requested);
+  const { measurementId, probesCount, headers } = await startMeasurement(ctx.client, buildRequest(ctx, method, locations), 'measurement');
+  const cost = headers.cost ?? probesCount;
+
+  ctx.credits = {
+    consumed: ctx.credits.consumed + cost,
+    remaining: headers.remaining ?? ctx.credits.remaining,
+    rateLimitRemaining: headers.rateLimitRemaining ?? ctx.credits.rateLimitRemaining
+  };
+
+  emit(ctx, {
+    type: 'measurement-created',
+    phase,
+    measurementId,
+    probesCount,
+    method,
+    locations,
+    resumed: false,
+    cost,
+    creditsRemaining: headers.remaining,
+    rateLimitRemaining: headers.rateLimitRemaining
+  });
 
-    if (tempData.size > 0) {
-      let minAvg = Infinity;
-      for (const [name, latencies] of tempData.entries()) {
-        const avg = latencies.reduce((a, b) => a + b, 0) / latencies.length;
-        if (avg < minAvg) {
-          minAvg = avg;
-          bestName = name;
-          bestLatency = avg;
-        }
+  return { measurementId, probesCount, cost };
+}
+
+async function runPhaseMeasurement(
+  ctx: RunContext,
+  phase: PhaseName,
+  locations: MeasurementLocations,
+  fieldExtractor: (item: LatencyResultItem) => string,
+  rankBy: 'min' | 'avg' = 'min',
+  requestedMethod: MeasurementMethod = ctx.method
+): Promise<PhaseMeasurement> {
+  const methods: LatencyMethod[] = requestedMethod === 'auto' ? ['ping', 'traceroute'] : [requestedMethod];
+  let fallbackFrom: PhaseMeasurement['fallbackFrom'];
+  let requested = typeof locations === 'string' ? 0 : locations.reduce((sum, l) => sum + (l.limit ?? 1), 0);
+  let credits = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const method = methods[attempt];
+    const { measurementId, probesCount, cost } = takePendingMeasurement(ctx, phase, method, locations)
+      ?? await createPhaseMeasurement(ctx, phase, method, locations, requested);
+
+    credits += cost;
+
+    const data = await pollMeasurement(ctx, phase, measurementId, probesCount, method, fieldExtractor, rankBy);
+
+    const measured: MeasuredProbe[] = [];
+    let rejected = 0;
+
+    for (const item of data.results) {
+      const analysis = analyzeResult(item.result, method, ctx.thresholds);
+      emit(ctx, { type: 'probe-result', phase, probe: item.probe, result: item.result, analysis });
+      if (analysis.latency !== null) {
+        measured.push({ code: fieldExtractor(item), tags: item.probe.tags ?? [], sample: toProbeSample(phase, item.probe, analysis.latency, method) });
+      } else {
+        rejected++;
       }
     }
 
-    renderProgressBar(finishedCount, expectedProbes, bestName, bestLatency);
+    const { kept, dropped } = screenProbes(measured, ctx.samples.filter(s => s.phase !== phase), ctx.probeFilter);
+    const groups = groupSamples(kept);
 
-    if (data.status !== 'in-progress') {
-      process.stdout.write('\n\n');
-      break;
+    if (groups.size > 0 || attempt === methods.length - 1) {
+      ctx.samples.push(...kept.map(p => p.sample));
+      return { measurementId, probesCount, method, fallbackFrom, rejected, dropped, credits, groups };
     }
 
-    await sleep(1000);
+    emit(ctx, { type: 'method-fallback', phase, from: method, to: methods[attempt + 1] });
+    fallbackFrom = { measurementId, method };
+    locations = measurementId;
+    requested = probesCount;
   }
+}
 
-  return data;
+function sameScope(a: PipelineScope, b: PipelineScope): boolean {
+  return a.continent === b.continent && a.country === b.country && a.state === b.state;
 }
 
-async function measureCountries(
-  client: Globalping<false>,
-  targetIp: string,
-  continent: string,
-  limit: number,
-  debug: boolean = false
-): Promise<ProbeResult[]> {
-  console.log('Phase 2: Detecting country...');
-
-  const continentInfo = CONTINENTS.find(c => c.code === continent);
-  const createResult = await client.createMeasurement({
-    type: 'traceroute',
-    target: targetIp,
-    locations: [{ magic: continentInfo!.magic, limit }]
-  });
+function isSeparated(candidates: PhaseCandidate[], rankBy: 'min' | 'avg'): boolean {
+  const [leader, runnerUp] = candidates;
 
-  checkRateLimitError(createResult);
+  if (!leader) {
+    return false;
+  }
 
-  if (!createResult.ok) {
-    throw new Error(`Failed to create measurement: ${JSON.stringify(createResult.data)}`);
+  if (!runnerUp) {
+    return leader.samples >= 3;
   }
 
-  const measurementId = createResult.data.id;
-  const expectedProbes = createResult.data.probesCount;
+  const latency = (c: PhaseCandidate) => rankBy === 'avg' ? c.avgRtt : c.minRtt;
+  // A single sample says nothing about the spread, so it needs a wider gap.
+  const spread = leader.samples > 1 ? Math.max(leader.stdDev, runnerUp.stdDev) : SEPARATION_MARGIN_MS;
+  return latency(runnerUp) - latency(leader) >= Math.max(SEPARATION_MARGIN_MS, 3 * spread);
+}
 
-  console.log(`  Measuring from ${expectedProbes} probes...\n`);
+function splitProbes(locations: MeasurementLocationOption[], probes: number): MeasurementLocationOption[] {
+  return locations.slice(0, probes).map((location, i, chosen) => ({
+    ...location,
+    limit: Math.floor(probes / chosen.length) + (i < probes % chosen.length ? 1 : 0)
+  }));
+}
 
-  const data = await pollMeasurement(
-    client,
-    measurementId,
-    expectedProbes,
-    (item) => item.probe.country
-  );
+function mergeMeasurements(first: PhaseMeasurement, followUp: PhaseMeasurement): PhaseMeasurement {
+  const groups = new Map([...first.groups].map(([code, samples]) => [code, [...samples]]));
 
-  if (debug) {
-    console.log('\n=== DEBUG: Country Detection Results ===');
+  for (const [code, samples] of followUp.groups) {
+    groups.set(code, [...(groups.get(code) ?? []), ...samples]);
   }
 
-  const countryData = aggregateLatenciesByField(data.results, (item) => item.probe.country, debug);
+  return {
+    ...first,
+    probesCount: first.probesCount + followUp.probesCount,
+    followUp: { measurementId: followUp.measurementId, probesCount: followUp.probesCount },
+    rejected: first.rejected + followUp.rejected,
+    dropped: [...first.dropped, ...followUp.dropped],
+    credits: first.credits + followUp.credits,
+    groups
+  };
+}
+
+// Probes an earlier phase did not need go to the next one, as far as they fit into one measurement.
+function addSpareProbes(ctx: RunContext, definition: PhaseDefinition, probes: number): number {
+  const base = definition.maxProbes(probes);
+  let extra = 0;
 
-  if (debug) {
-    console.log('=====================================\n');
+  while (
+    definition.maxProbes(probes + extra + 1) <= MAX_PROBES_PER_MEASUREMENT
+    && definition.maxProbes(probes + extra + 1) - base <= ctx.spareProbes
+  ) {
+    extra++;
   }
 
-  const results = buildProbeResults(countryData, '');
+  ctx.spareProbes -= definition.maxProbes(probes + extra) - base;
+  return probes + extra;
+}
 
-  const topCount = Math.min(3, results.length);
-  for (let i = 0; i < topCount; i++) {
-    const r = results[i];
-    const countryName = getCountryName(r.country);
-    console.log(`  ${countryName}: ${r.minRtt.toFixed(2)}ms`);
+// Measures a small batch first and stops when it already separates a leader. Otherwise the remaining
+// probes go to the closest candidates, or to the whole phase when they cannot be targeted.
+async function measureAdaptively(
+  ctx: RunContext,
+  definition: PhaseDefinition,
+  scope: PipelineScope,
+  probes: number
+): Promise<PhaseMeasurement> {
+  const { phase, rankBy } = definition;
+  const fieldExtractor = (item: LatencyResultItem) => definition.groupBy(item, scope);
+  const batch = Math.max(1, Math.ceil(probes * ADAPTIVE_BATCH_SHARE));
+  const first = await runPhaseMeasurement(ctx, phase, definition.locations(scope, batch, ctx.samples), fieldExtractor, rankBy);
+  const candidates = rankCandidates(first.groups, rankBy);
+  const remaining = definition.maxProbes(probes) - first.probesCount;
+
+  if (remaining <= 0) {
+    return first;
   }
 
-  if (results.length > 0) {
-    if (detectAnycast(results, 11, 6)) {
-      console.log('\nAnycast IP detected. This IP is most likely part of a regional or global anycast network.\n');
-      results[0].isAnycast = true;
-    } else {
-      const best = results[0];
-      const countryName = getCountryName(best.country);
-      console.log(`\nBest country: ${countryName} (${best.minRtt.toFixed(2)}ms)\n`);
-    }
+  if (isSeparated(candidates, rankBy)) {
+    ctx.spareProbes += remaining;
+    emit(ctx, { type: 'early-stop', phase, scope, leader: candidates[0].code, probesUsed: first.probesCount, spareProbes: remaining });
+    return first;
   }
 
-  return results;
-}
+  const closest = candidates.slice(0, FOLLOW_UP_CANDIDATES);
+  const targets = closest.map(c => definition.candidateLocation?.(c.code, scope) ?? null);
+  const targeted = closest.length > 0 && targets.every(t => t !== null);
+  const locations = targeted
+    ? splitProbes(targets as MeasurementLocationOption[], remaining)
+    : definition.locations(scope, probes - batch, ctx.samples);
 
-async function measureCities(
-  client: Globalping<false>,
-  targetIp: string,
-  country: string,
-  limit: number
-): Promise<ProbeResult[]> {
-  console.log('Phase 3: Detecting city...');
+  emit(ctx, { type: 'follow-up', phase, scope, candidates: targeted ? closest.map(c => c.code) : [], probes: remaining });
 
-  const createResult = await client.createMeasurement({
-    type: 'traceroute',
-    target: targetIp,
-    locations: [{ country, limit }]
-  });
+  const followUp = await runPhaseMeasurement(ctx, phase, locations, fieldExtractor, rankBy, first.method);
+  return mergeMeasurements(first, followUp);
+}
 
-  checkRateLimitError(createResult);
+async function measurePhase(ctx: RunContext, definition: PhaseDefinition, scope: PipelineScope): Promise<PhaseSummary> {
+  const { phase } = definition;
+  const step = ctx.phases.length + 1;
+  const prior = ctx.priorPhases[ctx.phases.length];
 
-  if (!createResult.ok) {
-    throw new Error(`Failed to create measurement: ${JSON.stringify(createResult.data)}`);
+  if (prior && prior.summary.phase === phase && sameScope(prior.summary.scope, scope)) {
+    emit(ctx, { type: 'phase-reused', phase, step, summary: prior.summary });
+    ctx.samples.push(...prior.samples);
+    return prior.summary;
   }
 
-  const measurementId = createResult.data.id;
-  const expectedProbes = createResult.data.probesCount;
+  ctx.priorPhases = [];
 
-  console.log(`  Measuring from ${expectedProbes} probes...\n`);
+  const planned = phaseProbes(definition, ctx.limit, ctx.phaseLimits);
+  const probesLimit = definition.maxProbes(planned);
 
-  const data = await pollMeasurement(
-    client,
-    measurementId,
-    expectedProbes,
-    (item) => item.probe.city || 'Unknown'
+  emit(ctx, { type: 'phase-start', phase, scope, step });
+
+  if (ctx.adaptive) {
+    const probes = addSpareProbes(ctx, definition, planned);
+    return summarizePhase(definition, scope, probesLimit, await measureAdaptively(ctx, definition, scope, probes));
+  }
+
+  const measurement = await runPhaseMeasurement(
+    ctx, phase, definition.locations(scope, planned, ctx.samples), (item) => definition.groupBy(item, scope), definition.rankBy
   );
 
-  const cityData = aggregateLatenciesByField(data.results, (item) => item.probe.city || 'Unknown');
-  const results = buildProbeResults(cityData, country);
+  return summarizePhase(definition, scope, probesLimit, measurement);
+}
 
-  return results;
+function branchRtt(branch: Branch): number | null {
+  return branch.anycast ? null : branch.results[0]?.minRtt ?? null;
 }
 
-async function measureUSStates(
-  client: Globalping<false>,
-  targetIp: string,
-  limit: number
-): Promise<ProbeResult[]> {
-  console.log('Phase 3: Detecting US state...');
+function isImplausible(ctx: RunContext, branch: Branch): boolean {
+  return !branch.anycast && (branchRtt(branch) ?? Infinity) > ctx.thresholds.backtrackRttMs;
+}
 
-  const createResult = await client.createMeasurement({
-    type: 'traceroute',
-    target: targetIp,
-    locations: [{ magic: 'united states', limit }]
-  });
+// The worst case of measuring every phase after `index` again, assuming none of them can be skipped.
+function branchCost(ctx: RunContext, index: number): number {
+  return ctx.pipeline.slice(index)
+    .reduce((sum, definition) => sum + definition.maxProbes(phaseProbes(definition, ctx.limit, ctx.phaseLimits)), 0)
+    * (ctx.method === 'auto' ? 2 : 1);
+}
 
-  checkRateLimitError(createResult);
+// Follows the best candidate of a phase that allows backtracking, and when the run ends with an
+// implausible latency, measures the phases below its runner-ups too and keeps the fastest branch.
+async function exploreBeam(
+  ctx: RunContext,
+  definition: PhaseDefinition,
+  index: number,
+  scope: PipelineScope,
+  summary: PhaseSummary,
+  results: ProbeResult[]
+): Promise<Branch> {
+  const [best, ...runnerUps] = summary.candidates;
+  let chosen = { code: best.code, branch: await runBranch(ctx, index + 1, definition.narrow(scope, best.code), results) };
+
+  for (const candidate of runnerUps.slice(0, ctx.beamWidth - 1)) {
+    if (!isImplausible(ctx, chosen.branch)) {
+      break;
+    }
+    if (ctx.budget !== undefined && ctx.credits.consumed + branchCost(ctx, index + 1) > ctx.budget) {
+      break;
+    }
 
-  if (!createResult.ok) {
-    throw new Error(`Failed to create measurement: ${JSON.stringify(createResult.data)}`);
+    const rtt = branchRtt(chosen.branch);
+    emit(ctx, { type: 'backtrack', phase: definition.phase, scope, from: chosen.code, to: candidate.code, rtt });
+
+    const branch = await runBranch(ctx, index + 1, definition.narrow(scope, candidate.code), results);
+    const alternativeRtt = branchRtt(branch);
+    const better = branch.anycast || (alternativeRtt !== null && (rtt === null || alternativeRtt < rtt));
+    const [kept, dropped] = better ? [{ code: candidate.code, branch }, chosen] : [chosen, { code: candidate.code, branch }];
+    const describe = (value: number | null) => value === null ? 'no result' : `${value.toFixed(2)} ms`;
+
+    const backtrack: Backtrack = {
+      phase: definition.phase,
+      scope,
+      from: chosen.code,
+      to: candidate.code,
+      rtt,
+      alternativeRtt,
+      chosen: kept.code,
+      reason: branch.anycast
+        ? `${candidate.code} looks like an anycast address`
+        : `${describe(alternativeRtt)} under ${candidate.code} against ${describe(rtt)} under ${chosen.code}`
+    };
+
+    for (const phase of dropped.branch.phases) {
+      phase.abandoned = true;
+    }
+    ctx.backtracks.push(backtrack);
+    emit(ctx, { type: 'backtrack-end', backtrack });
+    chosen = kept;
   }
 
-  const measurementId = createResult.data.id;
-  const expectedProbes = createResult.data.probesCount;
+  return { ...chosen.branch, phases: [summary, ...chosen.branch.phases] };
+}
 
-  console.log(`  Measuring from ${expectedProbes} probes...\n`);
+// Runs every phase from `index` on that applies to what is known so far and narrows the scope to the
+// best candidate. A phase without results ends the run, and so does anycast in a phase that checks for it.
+async function runBranch(ctx: RunContext, index: number, start: PipelineScope, prior: ProbeResult[]): Promise<Branch> {
+  let scope = start;
+  let results = prior;
+  const phases: PhaseSummary[] = [];
 
-  const data = await pollMeasurement(
-    client,
-    measurementId,
-    expectedProbes,
-    (item) => item.probe.state || 'Unknown'
-  );
+  for (let i = index; i < ctx.pipeline.length; i++) {
+    const definition = ctx.pipeline[i];
 
-  const stateData = aggregateLatenciesByField(data.results, (item) => item.probe.state || 'Unknown');
-  const results = buildProbeResults(stateData, 'US', '', '');
+    if (!definition.applies(scope)) {
+      continue;
+    }
 
-  const topCount = Math.min(3, results.length);
-  for (let i = 0; i < topCount; i++) {
-    const r = results[i];
-    const stateName = getStateName(r.state!);
-    console.log(`  ${stateName}: ${r.minRtt.toFixed(2)}ms`);
-  }
+    const summary = await measurePhase(ctx, definition, scope);
+    const best = summary.candidates[0];
 
-  if (results.length > 0) {
-    if (detectAnycast(results, 11, 6)) {
-      console.log('\nAnycast IP detected. This IP is most likely part of a regional or global anycast network.\n');
-      results[0].isAnycast = true;
-    } else {
-      const best = results[0];
-      const stateName = getStateName(best.state!);
-      console.log(`\nBest state: ${stateName} (${best.minRtt.toFixed(2)}ms)\n`);
+    if (definition.toResult) {
+      results = buildProbeResults(summary, definition);
     }
-  }
 
-  return results;
-}
+    const anycast = definition.stopOnAnycast && results.length > 0 && detectAnycast(results, ctx.thresholds.anycastRttMs, ctx.thresholds.anycastMinLocations);
 
-async function measureUSCities(
-  client: Globalping<false>,
-  targetIp: string,
-  state: string,
-  limit: number
-): Promise<ProbeResult[]> {
-  console.log('Phase 4: Detecting city...');
+    if (anycast) {
+      results[0].isAnycast = true;
+    }
 
-  const createResult = await client.createMeasurement({
-    type: 'traceroute',
-    target: targetIp,
-    locations: [{ country: 'US', state, limit }]
-  });
+    finishPhase(ctx, summary, anycast);
 
-  checkRateLimitError(createResult);
+    if (!best) {
+      if (definition.emptyError) {
+        throw codedError('NO_RESULTS', definition.emptyError);
+      }
+      return { results, anycast: false, phases: [...phases, summary] };
+    }
 
-  if (!createResult.ok) {
-    throw new Error(`Failed to create measurement: ${JSON.stringify(createResult.data)}`);
-  }
+    if (anycast) {
+      return { results, anycast: true, phases: [...phases, summary] };
+    }
 
-  const measurementId = createResult.data.id;
-  const expectedProbes = createResult.data.probesCount;
+    if (definition.backtrack && ctx.beamWidth > 1) {
+      const branch = await exploreBeam(ctx, definition, i, scope, summary, results);
+      return { ...branch, phases: [...phases, ...branch.phases] };
+    }
 
-  console.log(`  Measuring from ${expectedProbes} probes...\n`);
+    phases.push(summary);
+    scope = definition.narrow(scope, best.code);
+  }
 
-  const data = await pollMeasurement(
-    client,
-    measurementId,
-    expectedProbes,
-    (item) => item.probe.city || 'Unknown'
-  );
+  return { results, anycast: false, phases };
+}
 
-  const cityData = aggregateLatenciesByField(data.results, (item) => item.probe.city || 'Unknown');
-  const results = buildProbeResults(cityData, 'US', '', state);
+// Spreads probes over every continent so that each anycast instance is close to at least a few of them.
+async function measureAnycastSites(ctx: RunContext): Promise<AnycastSite[]> {
+  finishPhase(ctx, await measurePhase(ctx, ANYCAST_PHASE, {}));
 
-  return results;
+  return mapAnycastSites(ctx.samples);
 }
 
 export async function runMeasurements(
-  client: Globalping<false>,
+  client: MeasurementClient,
   targetIp: string,
-  limit: number = 50,
-  debug: boolean = false
-): Promise<ProbeResult[]> {
-  const { continent } = await measureContinents(client, targetIp);
-  const countryResults = await measureCountries(client, targetIp, continent, limit, debug);
-
-  if (countryResults.length > 0 && countryResults[0].country === 'US') {
-    const stateResults = await measureUSStates(client, targetIp, limit);
-    if (stateResults.length > 0) {
-      if (stateResults[0].isAnycast) {
-        return stateResults;
-      }
-      const bestState = stateResults[0].state!;
-      const cityResults = await measureUSCities(client, targetIp, bestState, limit);
-      return cityResults;
-    }
-    return stateResults;
-  }
-
-  if (countryResults.length > 0) {
-    if (countryResults[0].isAnycast) {
-      return countryResults;
-    }
-    const bestCountry = countryResults[0].country;
-    const cityResults = await measureCities(client, targetIp, bestCountry, limit);
-    return cityResults;
-  }
-
-  return countryResults;
+  options: MeasureOptions = {}
+): Promise<GeolocationRun> {
+  const ctx: RunContext = {
+    client,
+    targetIp,
+    limit: options.limit ?? 50,
+    method: options.method ?? 'traceroute',
+    port: options.port,
+    pollInterval: options.pollInterval ?? 1000,
+    pollTimeout: options.pollTimeout ?? DEFAULT_POLL_TIMEOUT_MS,
+    phases: [],
+    samples: [],
+    priorPhases: options.priorPhases ?? [],
+    pendingMeasurements: [...(options.pendingMeasurements ?? [])],
+    mapAnycast: options.mapAnycast ?? false,
+    pipeline: options.pipeline ?? DEFAULT_PIPELINE,
+    start: options.start ?? {},
+    phaseLimits: options.phaseLimits ?? {},
+    budget: options.budget,
+    credits: { consumed: options.priorCredits ?? 0, remaining: null, rateLimitRemaining: null },
+    adaptive: options.adaptive ?? false,
+    spareProbes: 0,
+    probeFilter: options.probeFilter ?? {},
+    beamWidth: options.beamWidth ?? DEFAULT_BEAM_WIDTH,
+    backtracks: [],
+    thresholds: { ...DEFAULT_THRESHOLDS, ...options.thresholds },
+    onEvent: options.onEvent
+  };
+
+  const { results } = await runBranch(ctx, 0, { ...ctx.start }, []);
+  const isAnycast = results.length > 0 && results[0].isAnycast === true;
+  const anycastSites = isAnycast && ctx.mapAnycast ? await measureAnycastSites(ctx) : null;
+
+  return {
+    target: targetIp,
+    results,
+    phases: ctx.phases,
+    backtracks: ctx.backtracks,
+    samples: ctx.samples,
+    estimate: isAnycast ? null : estimateLocation(ctx.samples),
+    isAnycast,
+    anycastSites,
+    credits: ctx.credits
+  };
 }
@@ -0,0 +1,398 @@
+import { getCountryName, getStateName, getSubdivisionName } from './countries.js';
+import { ConfidenceFactor, ConfidenceLabel, ConfidenceScore, scoreConfidence } from './confidence.js';
+import type { LocationEstimate } from './geo.js';
+import type { AnycastSite } from './anycast.js';
+import type { DatabaseComparison } from './compare.js';
+import type { CreditUsage } from './budget.js';
+import type { Backtrack, GeolocationRun, LatencyMethod, PhaseSummary, ProbeResult } from './measure.js';
+import type { ClaimVerificationResult, PrefixGeolocation, RepeatedGeolocation, TargetGeolocation } from './lib.js';
+import { formatGeofeed, GeofeedCheck, GeofeedEntry, GeofeedStatus } from './geofeed.js';
+import { findLocationChanges, HistoryEntry, LocationChange } from './history.js';
+import type { MergedLocation } from './repeat.js';
+import type { PathAnalysis } from './path.js';
+import { ConfigSetting, describeConfig, ResolvedConfig } from './config.js';
+import type { ClaimVerdict, LocationClaim, VerifiedProbe } from './verify.js';
+import { describeMismatch } from './resolve.js';
+
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface LocationEntry {
+  country: string;
+  countryName: string;
+  state: string | null;
+  stateName: string | null;
+  city: string | null;
+  minRtt: number;
+  avgRtt: number;
+  samples: number;
+  method: LatencyMethod;
+  probeAsn: number | null;
+  probeNetwork: string | null;
+}
+
+export interface ResultDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok' | 'error';
+  anycast: boolean;
+  anycastSites: AnycastSite[] | null;
+  confidence: ConfidenceLabel | null;
+  confidenceScore: number | null;
+  confidenceFactors: ConfidenceFactor[];
+  best: LocationEntry | null;
+  estimate: LocationEstimate | null;
+  results: LocationEntry[];
+  phases: PhaseSummary[];
+  backtracks: Backtrack[];
+  measurementIds: string[];
+  probesUsed: number;
+  probesLimit: number;
+  credits: CreditUsage | null;
+  comparisons: DatabaseComparison[];
+  path: PathAnalysis | null;
+  error?: string;
+}
+
+export interface HostDocument {
+  schemaVersion: number;
+  target: string;
+  hostname: string;
+  status: 'ok' | 'error';
+  warnings: string[];
+  ipv4: ResultDocument[];
+  ipv6: ResultDocument[];
+  measurementIds: string[];
+  credits: number;
+}
+
+export interface VerifyDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok' | 'error';
+  claim: LocationClaim | null;
+  verdict: ClaimVerdict | null;
+  reason: string | null;
+  probesChecked: number;
+  probes: VerifiedProbe[];
+  measurementIds: string[];
+  credits: CreditUsage | null;
+  error?: string;
+}
+
+export interface PrefixDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok' | 'error';
+  geofeed: string | null;
+  entry: GeofeedEntry | null;
+  hosts: ResultDocument[];
+  unresponsive: string[];
+  credits: number;
+  error?: string;
+}
+
+export interface GeofeedDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok' | 'error';
+  summary: Record<GeofeedStatus, number> & { entries: number; credits: number };
+  entries: GeofeedCheck[];
+  error?: string;
+}
+
+export interface RepeatDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok' | 'error';
+  best: MergedLocation | null;
+  locations: MergedLocation[];
+  changes: LocationChange[];
+  anycastRuns: number;
+  runs: ResultDocument[];
+  credits: number;
+  error?: string;
+}
+
+export interface HistoryDocument {
+  schemaVersion: number;
+  target: string;
+  status: 'ok';
+  entries: HistoryEntry[];
+  changes: LocationChange[];
+}
+
+export interface ConfigDocument {
+  schemaVersion: number;
+  status: 'ok';
+  files: { path: string; found: boolean }[];
+  profile: string | null;
+  profiles: string[];
+  settings: ConfigSetting[];
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+export function formatEstimate(estimate: LocationEstimate): string {
+  const position = `${estimate.latitude.toFixed(4)}, ${estimate.longitude.toFixed(4)}`;
+  return `${position} (±${Math.round(estimate.radiusKm)} km, ${estimate.constraints} probes)`;
+}
+
+export function formatLocation(result: { country: string; state?: string | null; city?: string | null }): string {
+  const city = result.city || 'Unknown';
+
+  if (result.country === 'US') {
+    const stateName = getStateName(result.state || 'Unknown');
+    return `${city}, ${stateName}, USA`;
+  }
+
+  const countryName = getCountryName(result.country);
+
+  if (result.state) {
+    return `${city}, ${getSubdivisionName(result.country, result.state)}, ${countryName}`;
+  }
+
+  return `${city}, ${countryName}`;
+}
+
+export function formatHistoryLocation(entry: HistoryEntry): string {
+  if (entry.anycast) {
+    return 'anycast';
+  }
+  return entry.country ? formatLocation({ ...entry, country: entry.country }) : 'no location';
+}
+
+function toLocationEntry(result: ProbeResult): LocationEntry {
+  return {
+    country: result.country,
+    countryName: getCountryName(result.country),
+    state: result.state || null,
+    stateName: result.state ? getSubdivisionName(result.country, result.state) : null,
+    city: result.city || null,
+    minRtt: result.minRtt,
+    avgRtt: result.avgRtt,
+    samples: result.samples,
+    method: result.method,
+    probeAsn: result.probeAsn || null,
+    probeNetwork: result.probeNetwork || null
+  };
+}
+
+export function buildResultDocument(
+  run: GeolocationRun & { comparisons?: DatabaseComparison[]; path?: PathAnalysis | null; confidence?: ConfidenceScore | null }
+): ResultDocument {
+  const results = run.results.map(toLocationEntry);
+  const best = results[0] ?? null;
+  const confidence = run.confidence !== undefined ? run.confidence : scoreConfidence(run);
+
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target: run.target,
+    status: 'ok',
+    anycast: run.isAnycast,
+    anycastSites: run.anycastSites,
+    confidence: confidence?.label ?? null,
+    confidenceScore: confidence?.score ?? null,
+    confidenceFactors: confidence?.factors ?? [],
+    best: run.isAnycast ? null : best,
+    estimate: run.estimate,
+    results,
+    phases: run.phases,
+    backtracks: run.backtracks,
+    measurementIds: [...run.phases.flatMap(p => [p.fallbackFrom?.measurementId, p.measurementId, p.followUp?.measurementId]), run.path?.measurementId]
+      .filter((id): id is string => id !== undefined),
+    probesUsed: run.phases.reduce((sum, p) => sum + p.probesCount, 0),
+    probesLimit: run.phases.reduce((sum, p) => sum + p.probesLimit, 0),
+    credits: run.credits,
+    comparisons: run.comparisons ?? [],
+    path: run.path ?? null
+  };
+}
+
+export function buildErrorDocument(target: string, message: string): ResultDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: 'error',
+    anycast: false,
+    anycastSites: null,
+    confidence: null,
+    confidenceScore: null,
+    confidenceFactors: [],
+    best: null,
+    estimate: null,
+    results: [],
+    phases: [],
+    backtracks: [],
+    measurementIds: [],
+    probesUsed: 0,
+    probesLimit: 0,
+    credits: null,
+    comparisons: [],
+    path: null,
+    error: message
+  };
+}
+
+export function buildHostDocument(target: TargetGeolocation): HostDocument {
+  const hostname = target.hostname ?? target.target;
+  const documents = target.addresses.map(a => ({
+    family: a.family,
+    document: a.result ? buildResultDocument(a.result) : buildErrorDocument(a.address, a.error ?? 'Unknown error')
+  }));
+
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target: target.target,
+    hostname,
+    status: documents.every(d => d.document.status === 'ok') ? 'ok' : 'error',
+    warnings: (target.resolution?.mismatches ?? []).map(m => describeMismatch(hostname, m)),
+    ipv4: documents.filter(d => d.family === 4).map(d => d.document),
+    ipv6: documents.filter(d => d.family === 6).map(d => d.document),
+    measurementIds: target.resolution?.measurementIds ?? [],
+    credits: target.credits
+  };
+}
+
+export function buildVerifyDocument(result: ClaimVerificationResult): VerifyDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target: result.target,
+    status: 'ok',
+    claim: result.claim,
+    verdict: result.verdict,
+    reason: result.reason,
+    probesChecked: result.probesChecked,
+    probes: result.probes,
+    measurementIds: result.measurementIds,
+    credits: result.credits
+  };
+}
+
+export function buildVerifyErrorDocument(target: string, message: string): VerifyDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: 'error',
+    claim: null,
+    verdict: null,
+    reason: null,
+    probesChecked: 0,
+    probes: [],
+    measurementIds: [],
+    credits: null,
+    error: message
+  };
+}
+
+export function buildPrefixDocument(result: PrefixGeolocation): PrefixDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target: result.prefix,
+    status: 'ok',
+    geofeed: formatGeofeed([result.entry]),
+    entry: result.entry,
+    hosts: result.hosts.map(h => h.result ? buildResultDocument(h.result) : buildErrorDocument(h.address, h.error ?? 'Unknown error')),
+    unresponsive: result.unresponsive,
+    credits: result.credits
+  };
+}
+
+export function buildPrefixErrorDocument(target: string, message: string): PrefixDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: 'error',
+    geofeed: null,
+    entry: null,
+    hosts: [],
+    unresponsive: [],
+    credits: 0,
+    error: message
+  };
+}
+
+export function buildGeofeedDocument(target: string, checks: GeofeedCheck[], error?: string): GeofeedDocument {
+  const count = (status: GeofeedStatus) => checks.filter(c => c.status === status).length;
+
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: error ? 'error' : 'ok',
+    summary: {
+      entries: checks.length,
+      ok: count('ok'),
+      mismatch: count('mismatch'),
+      unmeasured: count('unmeasured'),
+      invalid: count('invalid'),
+      credits: checks.reduce((sum, c) => sum + c.credits, 0)
+    },
+    entries: checks,
+    ...(error ? { error } : {})
+  };
+}
+
+export function buildRepeatDocument(result: RepeatedGeolocation): RepeatDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target: result.target,
+    status: 'ok',
+    best: result.best,
+    locations: result.locations,
+    changes: result.changes,
+    anycastRuns: result.runs.filter(r => r.isAnycast).length,
+    runs: result.runs.map(buildResultDocument),
+    credits: result.credits
+  };
+}
+
+export function buildRepeatErrorDocument(target: string, message: string): RepeatDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: 'error',
+    best: null,
+    locations: [],
+    changes: [],
+    anycastRuns: 0,
+    runs: [],
+    credits: 0,
+    error: message
+  };
+}
+
+export function buildHistoryDocument(target: string, entries: HistoryEntry[]): HistoryDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    target,
+    status: 'ok',
+    entries,
+    changes: findLocationChanges(entries)
+  };
+}
+
+export function buildConfigDocument(resolved: ResolvedConfig): ConfigDocument {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    status: 'ok',
+    files: resolved.files,
+    profile: resolved.profile,
+    profiles: resolved.profiles,
+    settings: describeConfig(resolved)
+  };
+}
+
+export function formatDocument(
+  document: ResultDocument | HostDocument | VerifyDocument | PrefixDocument | GeofeedDocument | RepeatDocument | HistoryDocument | ConfigDocument,
+  format: OutputFormat
+): string {
+  if (format === 'ndjson') {
+    return JSON.stringify(document);
+  }
+  return JSON.stringify(document, null, 2);
+}
@@ -0,0 +1,277 @@
+import { resolveTxt } from 'node:dns/promises';
+import type { MeasurementLocationOption, TypedMeasurementResponse, TypedMeasurementResultItem } from 'globalping';
+import { parseIp } from './ip.js';
+import type { GeolocateEventListener } from './events.js';
+import { awaitMeasurement, DEFAULT_POLL_TIMEOUT_MS, MeasurementClient, ProbeResult, startMeasurement } from './measure.js';
+
+export interface LocationHint {
+  token: string;
+  city: string;
+  country: string;
+}
+
+export interface PathHop {
+  hop: number;
+  address: string | null;
+  hostname: string | null;
+  asns: number[];
+  rtt: number | null;
+  loss: number;
+  hints: LocationHint[];
+}
+
+export interface ProbePath {
+  probe: { country: string; state: string | null; city: string; asn: number; network: string };
+  hops: PathHop[];
+  lastHop: number | null;
+  rtt: number | null;
+  reachedTarget: boolean;
+  upstream: boolean | null;
+}
+
+export type HintAgreement = 'city' | 'country' | 'none';
+
+export interface LocationEvidence extends LocationHint {
+  hostname: string;
+  paths: number;
+  agrees: HintAgreement;
+}
+
+// `skipped` when the target did not answer on the path and the Team Cymru lookup was turned off.
+export type TargetAsnSource = 'path' | 'whois' | 'skipped';
+
+export interface PathAnalysis {
+  measurementId: string;
+  credits: number;
+  targetAsn: number | null;
+  targetAsnSource: TargetAsnSource | null;
+  // False when the mtr measurement had not finished by the poll timeout; its unfinished paths are empty.
+  complete: boolean;
+  paths: ProbePath[];
+  evidence: LocationEvidence[];
+}
+
+export interface PathOptions {
+  probes?: number;
+  budget?: number;
+  pollInterval?: number;
+  pollTimeout?: number;
+  // False leaves the lookup out, e.g. in a replay that must not depend on the network.
+  lookupAsn?: ((ip: string) => Promise<number | null>) | false;
+  onEvent?: GeolocateEventListener;
+}
+
+type MtrMeasurement = TypedMeasurementResponse<'mtr'>;
+type MtrResult = TypedMeasurementResultItem<'mtr'>['result'];
+
+export const DEFAULT_PATH_PROBES = 3;
+// Routers name themselves after the site they are in, but only the last few hops before the target are
+// close enough to it to say anything about its location.
+const EVIDENCE_HOPS = 3;
+
+// Airport and metro codes carriers commonly use in router names. Codes that are also frequent words or
+// interface names are left out.
+const SITE_CODES: Record<string, [string, string]> = {
+  ams: ['Amsterdam', 'NL'], arn: ['Stockholm', 'SE'], ath: ['Athens', 'GR'], atl: ['Atlanta', 'US'],
+  akl: ['Auckland', 'NZ'], bcn: ['Barcelona', 'ES'], ber: ['Berlin', 'DE'], bkk: ['Bangkok', 'TH'],
+  blr: ['Bangalore', 'IN'], bog: ['Bogota', 'CO'], bom: ['Mumbai', 'IN'], bos: ['Boston', 'US'],
+  bne: ['Brisbane', 'AU'], bru: ['Brussels', 'BE'], bud: ['Budapest', 'HU'], cai: ['Cairo', 'EG'],
+  cdg: ['Paris', 'FR'], cgk: ['Jakarta', 'ID'], chi: ['Chicago', 'US'], cph: ['Copenhagen', 'DK'],
+  cpt: ['Cape Town', 'ZA'], dal: ['Dallas', 'US'], del: ['Delhi', 'IN'], den: ['Denver', 'US'],
+  dfw: ['Dallas', 'US'], dub: ['Dublin', 'IE'], dus: ['Dusseldorf', 'DE'], dxb: ['Dubai', 'AE'],
+  ewr: ['Newark', 'US'], eze: ['Buenos Aires', 'AR'], fco: ['Rome', 'IT'], fra: ['Frankfurt', 'DE'],
+  gru: ['Sao Paulo', 'BR'], gva: ['Geneva', 'CH'], ham: ['Hamburg', 'DE'], hel: ['Helsinki', 'FI'],
+  hkg: ['Hong Kong', 'HK'], hnd: ['Tokyo', 'JP'], iad: ['Ashburn', 'US'], iah: ['Houston', 'US'],
+  icn: ['Seoul', 'KR'], ist: ['Istanbul', 'TR'], jfk: ['New York', 'US'], jnb: ['Johannesburg', 'ZA'],
+  kbp: ['Kyiv', 'UA'], kix: ['Osaka', 'JP'], kul: ['Kuala Lumpur', 'MY'], lax: ['Los Angeles', 'US'],
+  led: ['Saint Petersburg', 'RU'], lhr: ['London', 'GB'], lis: ['Lisbon', 'PT'], lon: ['London', 'GB'],
+  lux: ['Luxembourg', 'LU'], lys: ['Lyon', 'FR'], maa: ['Chennai', 'IN'], mad: ['Madrid', 'ES'],
+  man: ['Manchester', 'GB'], mel: ['Melbourne', 'AU'], mex: ['Mexico City', 'MX'], mia: ['Miami', 'US'],
+  mil: ['Milan', 'IT'], mnl: ['Manila', 'PH'], mow: ['Moscow', 'RU'], mrs: ['Marseille', 'FR'],
+  msp: ['Minneapolis', 'US'], muc: ['Munich', 'DE'], mxp: ['Milan', 'IT'], nbo: ['Nairobi', 'KE'],
+  nrt: ['Tokyo', 'JP'], nyc: ['New York', 'US'], ord: ['Chicago', 'US'], osa: ['Osaka', 'JP'],
+  osl: ['Oslo', 'NO'], otp: ['Bucharest', 'RO'], par: ['Paris', 'FR'], pdx: ['Portland', 'US'],
+  pek: ['Beijing', 'CN'], phx: ['Phoenix', 'US'], prg: ['Prague', 'CZ'], pvg: ['Shanghai', 'CN'],
+  scl: ['Santiago', 'CL'], sea: ['Seattle', 'US'], sfo: ['San Francisco', 'US'], sin: ['Singapore', 'SG'],
+  sjc: ['San Jose', 'US'], slc: ['Salt Lake City', 'US'], sof: ['Sofia', 'BG'], sto: ['Stockholm', 'SE'],
+  svo: ['Moscow', 'RU'], syd: ['Sydney', 'AU'], tlv: ['Tel Aviv', 'IL'], tpe: ['Taipei', 'TW'],
+  tyo: ['Tokyo', 'JP'], vie: ['Vienna', 'AT'], waw: ['Warsaw', 'PL'], yul: ['Montreal', 'CA'],
+  yvr: ['Vancouver', 'CA'], yyz: ['Toronto', 'CA'], zrh: ['Zurich', 'CH']
+};
+
+const CITY_NAMES = new Map(Object.values(SITE_CODES).map(([city, country]) => [city.toLowerCase().replace(/ /g, ''), [city, country]]));
+
+function sameName(a: string, b: string): boolean {
+  return a.localeCompare(b, 'en', { sensitivity: 'base' }) === 0;
+}
+
+// Looks for site codes and city names in the labels of a router name, ignoring the domain itself.
+export function parseLocationHints(hostname: string): LocationHint[] {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.').slice(0, -2);
+  const hints: LocationHint[] = [];
+
+  for (const token of labels.flatMap(label => label.match(/[a-z]+/g) ?? [])) {
+    const site = token.length === 3 ? SITE_CODES[token] : CITY_NAMES.get(token);
+    if (site && !hints.some(h => h.city === site[0])) {
+      hints.push({ token, city: site[0], country: site[1] });
+    }
+  }
+
+  return hints;
+}
+
+function cymruName(ip: string): string | null {
+  const parsed = parseIp(ip);
+  if (!parsed) {
+    return null;
+  }
+  if (parsed.family === 4) {
+    return `${ip.split('.').reverse().join('.')}.origin.asn.cymru.com`;
+  }
+  return `${parsed.value.toString(16).padStart(32, '0').split('').reverse().join('.')}.origin6.asn.cymru.com`;
+}
+
+// Asks the Team Cymru IP to ASN service, which answers TXT queries like "15169 | 8.8.8.0/24 | US | arin | 2023-12-28".
+export async function lookupOriginAsn(ip: string): Promise<number | null> {
+  const name = cymruName(ip);
+  if (!name) {
+    return null;
+  }
+
+  try {
+    const [record] = await resolveTxt(name);
+    const asn = Number(record?.join('').split('|')[0].trim().split(' ')[0]);
+    return Number.isInteger(asn) && asn > 0 ? asn : null;
+  } catch {
+    return null;
+  }
+}
+
+function toHops(result: MtrResult): PathHop[] {
+  if (result.status !== 'finished' || !('hops' in result)) {
+    return [];
+  }
+
+  return result.hops.map((hop, i) => ({
+    hop: i + 1,
+    address: hop.resolvedAddress,
+    hostname: hop.resolvedHostname && hop.resolvedHostname !== hop.resolvedAddress ? hop.resolvedHostname : null,
+    asns: hop.asn ?? [],
+    rtt: hop.stats.rcv > 0 ? hop.stats.min : null,
+    loss: hop.stats.loss,
+    hints: hop.resolvedHostname ? parseLocationHints(hop.resolvedHostname) : []
+  }));
+}
+
+async function runMtrMeasurement(
+  client: MeasurementClient,
+  target: string,
+  locations: MeasurementLocationOption[],
+  options: PathOptions
+): Promise<{ measurement: MtrMeasurement; complete: boolean; cost: number }> {
+  const { measurementId, probesCount, headers } = await startMeasurement(client, { type: 'mtr', target, locations }, 'path measurement');
+  const cost = headers.cost ?? probesCount;
+
+  options.onEvent?.({ type: 'path-start', target, measurementId, probesCount, cost });
+
+  const { measurement, complete } = await awaitMeasurement<MtrMeasurement>(
+    client, measurementId, 'path measurement', options.pollInterval ?? 1000, options.pollTimeout ?? DEFAULT_POLL_TIMEOUT_MS
+  );
+
+  return { measurement, complete, cost };
+}
+
+function collectEvidence(paths: ProbePath[], best: ProbeResult): LocationEvidence[] {
+  const evidence = new Map<string, LocationEvidence>();
+
+  for (const path of paths) {
+    const near = path.lastHop === null ? [] : path.hops.slice(0, path.lastHop + 1).filter(h => h.rtt !== null).slice(-EVIDENCE_HOPS);
+    const seen = new Set<string>();
+
+    for (const hop of near) {
+      for (const hint of hop.hints) {
+        const key = `${hint.country}/${hint.city}`;
+        const entry = evidence.get(key) ?? {
+          ...hint,
+          hostname: hop.hostname!,
+          paths: 0,
+          agrees: hint.country !== best.country ? 'none' : sameName(hint.city, best.city) ? 'city' : 'country'
+        };
+        if (!seen.has(key)) {
+          entry.paths++;
+          seen.add(key);
+        }
+        evidence.set(key, entry);
+      }
+    }
+  }
+
+  return [...evidence.values()].sort((a, b) => b.paths - a.paths);
+}
+
+// Traces the path to the target from the probes closest to it, one per location of the best results, and
+// checks whether the last router that answered belongs to the target's network. When it does not, the
+// latency of the run located an upstream router rather than the host itself.
+export async function analyzePaths(
+  client: MeasurementClient,
+  target: string,
+  results: ProbeResult[],
+  consumed: number,
+  options: PathOptions = {}
+): Promise<PathAnalysis | null> {
+  const left = options.budget === undefined ? Infinity : options.budget - consumed;
+  const chosen = results.slice(0, Math.max(0, Math.min(options.probes ?? DEFAULT_PATH_PROBES, left)));
+
+  if (chosen.length === 0) {
+    return null;
+  }
+
+  const locations = chosen.map(r => ({
+    country: r.country,
+    ...(r.city && r.city !== 'Unknown' ? { city: r.city } : {}),
+    ...(r.country === 'US' && r.state ? { state: r.state } : {}),
+    ...(r.probeAsn ? { asn: r.probeAsn } : {}),
+    limit: 1
+  }));
+  const { measurement, complete, cost } = await runMtrMeasurement(client, target, locations, options);
+
+  const traced = measurement.results.map(({ probe, result }) => {
+    const hops = toHops(result);
+    const index = hops.map(h => h.rtt !== null).lastIndexOf(true);
+    return {
+      probe: { country: probe.country, state: probe.state ?? null, city: probe.city, asn: probe.asn, network: probe.network },
+      hops,
+      lastHop: index === -1 ? null : index,
+      rtt: index === -1 ? null : hops[index].rtt,
+      reachedTarget: index !== -1 && hops[index].address === target
+    };
+  });
+
+  const reached = traced.flatMap(p => p.reachedTarget ? p.hops[p.lastHop!].asns : []);
+  let targetAsn: number | null = reached[0] ?? null;
+  let targetAsnSource: TargetAsnSource | null = targetAsn === null ? null : 'path';
+
+  if (targetAsn === null) {
+    const lookup = options.lookupAsn ?? lookupOriginAsn;
+    targetAsn = lookup ? await lookup(target) : null;
+    targetAsnSource = targetAsn !== null ? 'whois' : lookup ? null : 'skipped';
+  }
+
+  const paths: ProbePath[] = traced.map(p => {
+    const asns = p.lastHop === null ? [] : p.hops[p.lastHop].asns;
+    return {
+      ...p,
+      upstream: p.reachedTarget || p.lastHop === null ? false : targetAsn === null || asns.length === 0 ? null : !asns.includes(targetAsn)
+    };
+  });
+
+  return {
+    measurementId: measurement.id,
+    credits: cost,
+    targetAsn,
+    targetAsnSource,
+    complete,
+    paths,
+    evidence: collectEvidence(paths, results[0])
+  };
+}
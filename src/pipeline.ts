@@ -0,0 +1,146 @@
+import type { MeasurementLocationOption, MeasurementLocations } from 'globalping';
+import { CONTINENTS, hasSubdivisions, nearestSubdivision } from './countries.js';
+import type { LatencyResultItem, PhaseName, ProbeResult, ProbeSample } from './measure.js';
+
+export interface PipelineScope {
+  continent?: string;
+  country?: string;
+  state?: string;
+}
+
+// Stands for a candidate that is only known once the previous phase ran, used when planning a run.
+export const ANY_CODE = '*';
+
+export interface PhaseDefinition {
+  phase: PhaseName;
+  applies(scope: PipelineScope): boolean;
+  probes(limit: number): number;
+  maxProbes(probes: number): number;
+  locations(scope: PipelineScope, probes: number, samples: ProbeSample[]): MeasurementLocations;
+  groupBy(item: LatencyResultItem, scope: PipelineScope): string;
+  candidateLocation?(code: string, scope: PipelineScope): MeasurementLocationOption | null;
+  rankBy: 'min' | 'avg';
+  stopOnAnycast: boolean;
+  toResult?(code: string, scope: PipelineScope): Pick<ProbeResult, 'country' | 'city' | 'state'>;
+  narrow(scope: PipelineScope, code: string): PipelineScope;
+  backtrack?: boolean;
+  emptyError?: string;
+}
+
+function subdivisionOf(country: string, probe: { state?: string | null; latitude: number; longitude: number }): string {
+  if (country === 'US') {
+    return probe.state || 'Unknown';
+  }
+  return nearestSubdivision(country, probe)?.code ?? 'Unknown';
+}
+
+// Globalping can only select US probes by state, elsewhere the city phase targets the cities in which
+// the previous phase found probes of the chosen subdivision.
+function subdivisionLocations(scope: PipelineScope, probes: number, samples: ProbeSample[]): MeasurementLocations {
+  const country = scope.country!;
+
+  if (country === 'US') {
+    return [{ country, state: scope.state!, limit: probes }];
+  }
+
+  const cities = [...new Set(samples
+    .filter(s => s.phase === 'state' && s.country === country && subdivisionOf(country, s) === scope.state)
+    .map(s => s.city))].slice(0, probes);
+
+  if (cities.length === 0) {
+    return [{ country, limit: probes }];
+  }
+
+  // Splits the probes so that the phase never uses more than a single location would.
+  return cities.map((city, i) => ({
+    country,
+    city,
+    limit: Math.floor(probes / cities.length) + (i < probes % cities.length ? 1 : 0)
+  }));
+}
+
+export const DEFAULT_CONTINENT_PROBES = 5;
+
+export const CONTINENT_PHASE: PhaseDefinition = {
+  phase: 'continent',
+  applies: (scope) => !scope.continent && !scope.country,
+  probes: () => DEFAULT_CONTINENT_PROBES,
+  maxProbes: (probes) => probes * CONTINENTS.length,
+  locations: (_scope, probes) => CONTINENTS.map(c => ({ magic: c.magic, limit: probes })),
+  groupBy: (item) => item.probe.continent,
+  candidateLocation: (code) => ({ magic: CONTINENTS.find(c => c.code === code)!.magic }),
+  rankBy: 'avg',
+  stopOnAnycast: false,
+  narrow: (scope, code) => ({ ...scope, continent: code }),
+  backtrack: true,
+  emptyError: 'No successful measurements from any continent'
+};
+
+export const COUNTRY_PHASE: PhaseDefinition = {
+  phase: 'country',
+  applies: (scope) => !!scope.continent && !scope.country,
+  probes: (limit) => limit,
+  maxProbes: (probes) => probes,
+  locations: (scope, probes) => [{ magic: CONTINENTS.find(c => c.code === scope.continent)!.magic, limit: probes }],
+  groupBy: (item) => item.probe.country,
+  candidateLocation: (code) => ({ country: code }),
+  rankBy: 'min',
+  stopOnAnycast: true,
+  toResult: (code) => ({ country: code, city: '' }),
+  narrow: (scope, code) => ({ ...scope, country: code }),
+  backtrack: true
+};
+
+export const STATE_PHASE: PhaseDefinition = {
+  phase: 'state',
+  applies: (scope) => !!scope.country && !scope.state && (scope.country === ANY_CODE || hasSubdivisions(scope.country)),
+  probes: (limit) => limit,
+  maxProbes: (probes) => probes,
+  locations: (scope, probes) => scope.country === 'US'
+    ? [{ magic: 'united states', limit: probes }]
+    : [{ country: scope.country!, limit: probes }],
+  groupBy: (item, scope) => subdivisionOf(scope.country!, item.probe),
+  candidateLocation: (code, scope) => scope.country === 'US' && code !== 'Unknown' ? { country: 'US', state: code } : null,
+  rankBy: 'min',
+  stopOnAnycast: true,
+  toResult: (code, scope) => ({ country: scope.country!, city: '', state: code }),
+  narrow: (scope, code) => ({ ...scope, state: code })
+};
+
+export const CITY_PHASE: PhaseDefinition = {
+  phase: 'city',
+  applies: (scope) => !!scope.country,
+  probes: (limit) => limit,
+  maxProbes: (probes) => probes,
+  locations: (scope, probes, samples) => scope.state
+    ? subdivisionLocations(scope, probes, samples)
+    : [{ country: scope.country!, limit: probes }],
+  groupBy: (item) => item.probe.city || 'Unknown',
+  candidateLocation: (code, scope) => code === 'Unknown'
+    ? null
+    : { country: scope.country!, city: code, ...(scope.country === 'US' && scope.state ? { state: scope.state } : {}) },
+  rankBy: 'min',
+  stopOnAnycast: false,
+  toResult: (code, scope) => ({ country: scope.country!, city: code, state: scope.state }),
+  narrow: (scope) => scope
+};
+
+// Not part of the pipeline: runs once anycast was detected and mapping was requested.
+export const ANYCAST_PHASE: PhaseDefinition = {
+  phase: 'anycast',
+  applies: () => true,
+  probes: (limit) => limit,
+  maxProbes: (probes) => probes * CONTINENTS.length,
+  locations: (_scope, probes) => CONTINENTS.map(c => ({ magic: c.magic, limit: probes })),
+  groupBy: (item) => item.probe.country,
+  rankBy: 'min',
+  stopOnAnycast: false,
+  toResult: (code) => ({ country: code, city: '' }),
+  narrow: (scope) => scope
+};
+
+export function phaseProbes(definition: PhaseDefinition, limit: number, phaseLimits: Partial<Record<PhaseName, number>>): number {
+  return phaseLimits[definition.phase] ?? definition.probes(limit);
+}
+
+export const DEFAULT_PIPELINE: PhaseDefinition[] = [CONTINENT_PHASE, COUNTRY_PHASE, STATE_PHASE, CITY_PHASE];
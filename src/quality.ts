@@ -0,0 +1,149 @@
+import { distanceKm, maxDistanceKm } from './geo.js';
+import type { ProbeSample } from './measure.js';
+
+export type DropReason = 'filter' | 'outlier' | 'inconsistent';
+
+export interface ProbeFilter {
+  excludeAsns?: number[];
+  excludeTags?: string[];
+  requireTags?: string[];
+  rejectOutliers?: boolean;
+}
+
+export interface MeasuredProbe {
+  code: string;
+  tags: string[];
+  sample: ProbeSample;
+}
+
+export interface DroppedProbe {
+  city: string;
+  country: string;
+  asn: number;
+  network: string;
+  rtt: number;
+  reason: DropReason;
+  detail: string;
+}
+
+// Latencies more than this many scaled median absolute deviations from the median of their city are
+// outliers. Differences below the floor are left alone: access networks in one city differ that much.
+const OUTLIER_MADS = 3;
+const MAD_TO_STD_DEV = 1.4826;
+const OUTLIER_MIN_MS = 30;
+const OUTLIER_MIN_PROBES = 3;
+// A probe contradicted by this many trusted probes of earlier phases is dropped.
+const MIN_CONFLICTS = 2;
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function locationKey({ country, state, city }: ProbeSample): string {
+  return `${country}/${state ?? ''}/${city}`;
+}
+
+// Both disks are too far apart to contain the same target, so one of the two probes is wrong.
+function conflicts(a: ProbeSample, b: ProbeSample): boolean {
+  return distanceKm(a, b) > maxDistanceKm(a.rtt) + maxDistanceKm(b.rtt);
+}
+
+function filterReason({ sample, tags }: MeasuredProbe, filter: ProbeFilter): string | null {
+  if (filter.excludeAsns?.includes(sample.asn)) {
+    return `AS${sample.asn} is excluded`;
+  }
+
+  const excluded = filter.excludeTags?.find(tag => tags.includes(tag));
+  if (excluded) {
+    return `tagged ${excluded}`;
+  }
+
+  const missing = filter.requireTags?.find(tag => !tags.includes(tag));
+  return missing ? `not tagged ${missing}` : null;
+}
+
+// Probes in one city should see about the same latency. One far off the others most likely has a wrong
+// location or a broken clock.
+function findOutliers(probes: MeasuredProbe[]): Map<MeasuredProbe, string> {
+  const outliers = new Map<MeasuredProbe, string>();
+  const cities = new Map<string, MeasuredProbe[]>();
+
+  for (const probe of probes) {
+    const key = locationKey(probe.sample);
+    cities.set(key, [...(cities.get(key) ?? []), probe]);
+  }
+
+  for (const group of cities.values()) {
+    if (group.length < OUTLIER_MIN_PROBES) {
+      continue;
+    }
+
+    const rtts = group.map(p => p.sample.rtt);
+    const center = median(rtts);
+    const threshold = Math.max(OUTLIER_MIN_MS, OUTLIER_MADS * MAD_TO_STD_DEV * median(rtts.map(rtt => Math.abs(rtt - center))));
+
+    for (const probe of group) {
+      if (Math.abs(probe.sample.rtt - center) > threshold) {
+        outliers.set(probe, `${probe.sample.rtt.toFixed(2)} ms while ${group.length - 1} other probes in ${probe.sample.city} have a median of ${center.toFixed(2)} ms`);
+      }
+    }
+  }
+
+  return outliers;
+}
+
+// Earlier probes contradicted by several others are not trusted. An anycast target contradicts almost
+// every pair, which leaves nothing to check against.
+function trustedSamples(earlier: ProbeSample[]): ProbeSample[] {
+  return earlier.filter(sample => earlier.filter(other => other !== sample && conflicts(sample, other)).length < MIN_CONFLICTS);
+}
+
+// Drops probes that the filter excludes, that are outliers in their city and that contradict the probes
+// of earlier phases, in that order. `earlier` are the samples the run accepted so far.
+export function screenProbes(
+  probes: MeasuredProbe[],
+  earlier: ProbeSample[],
+  filter: ProbeFilter = {}
+): { kept: MeasuredProbe[]; dropped: DroppedProbe[] } {
+  const dropped: DroppedProbe[] = [];
+  const drop = ({ sample }: MeasuredProbe, reason: DropReason, detail: string) => {
+    const { city, country, asn, network, rtt } = sample;
+    dropped.push({ city, country, asn, network, rtt, reason, detail });
+  };
+
+  let kept = probes.filter(probe => {
+    const reason = filterReason(probe, filter);
+    if (reason) {
+      drop(probe, 'filter', reason);
+    }
+    return !reason;
+  });
+
+  if (filter.rejectOutliers === false) {
+    return { kept, dropped };
+  }
+
+  const outliers = findOutliers(kept);
+  kept = kept.filter(probe => {
+    const detail = outliers.get(probe);
+    if (detail) {
+      drop(probe, 'outlier', detail);
+    }
+    return !detail;
+  });
+
+  const trusted = trustedSamples(earlier);
+  kept = kept.filter(probe => {
+    const contradicting = trusted.filter(sample => conflicts(sample, probe.sample));
+    if (contradicting.length >= MIN_CONFLICTS) {
+      const [first] = contradicting;
+      drop(probe, 'inconsistent', `${probe.sample.rtt.toFixed(2)} ms cannot be reconciled with ${contradicting.length} probes of earlier phases, e.g. ${first.city}, ${first.country} at ${first.rtt.toFixed(2)} ms`);
+      return false;
+    }
+    return true;
+  });
+
+  return { kept, dropped };
+}
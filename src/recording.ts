@@ -0,0 +1,138 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { TypedMeasurementRequest } from 'globalping';
+import { codedError } from './errors.js';
+import type { MeasurementClient } from './measure.js';
+
+type CreateResult = Awaited<ReturnType<MeasurementClient['createMeasurement']>>;
+type GetResult = Awaited<ReturnType<MeasurementClient['getMeasurement']>>;
+
+export interface RecordingManifest {
+  version: number;
+  target: string;
+  createdAt: string;
+  options: Record<string, unknown>;
+}
+
+export interface RecordedCall {
+  method: 'createMeasurement' | 'getMeasurement';
+  request: TypedMeasurementRequest | string;
+  ok?: boolean;
+  status?: number;
+  headers?: Record<string, string>;
+  data?: unknown;
+  error?: string;
+}
+
+const RECORDING_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const API_URL = 'https://api.globalping.io/v1/measurements';
+
+function callFileName(index: number, call: RecordedCall): string {
+  const suffix = call.method === 'createMeasurement' ? 'create' : `get-${call.request}`;
+  return `${String(index).padStart(4, '0')}-${suffix}.json`;
+}
+
+export async function createRecordingClient(
+  client: MeasurementClient,
+  dir: string,
+  manifest: Omit<RecordingManifest, 'version' | 'createdAt'>
+): Promise<MeasurementClient> {
+  await mkdir(dir, { recursive: true });
+
+  if ((await readdir(dir)).length > 0) {
+    throw new Error(`Recording directory ${dir} is not empty`);
+  }
+
+  await writeFile(join(dir, MANIFEST_FILE), JSON.stringify({
+    version: RECORDING_VERSION,
+    createdAt: new Date().toISOString(),
+    ...manifest
+  }, null, 2));
+
+  let index = 0;
+
+  const record = async <T extends { ok: boolean; data: unknown; response: Response }>(
+    method: RecordedCall['method'],
+    request: RecordedCall['request'],
+    call: () => Promise<T>
+  ): Promise<T> => {
+    const file = join(dir, callFileName(++index, { method, request }));
+
+    try {
+      const result = await call();
+      await writeFile(file, JSON.stringify({
+        method,
+        request,
+        ok: result.ok,
+        status: result.response.status,
+        headers: Object.fromEntries(result.response.headers.entries()),
+        data: result.data
+      } satisfies RecordedCall, null, 2));
+      return result;
+    } catch (error: any) {
+      await writeFile(file, JSON.stringify({ method, request, error: error.message } satisfies RecordedCall, null, 2));
+      throw error;
+    }
+  };
+
+  return {
+    createMeasurement: (measurement) => record('createMeasurement', measurement, () => client.createMeasurement(measurement)),
+    getMeasurement: (id) => record('getMeasurement', id, () => client.getMeasurement(id))
+  };
+}
+
+export async function readRecordingManifest(dir: string): Promise<RecordingManifest> {
+  const manifest = JSON.parse(await readFile(join(dir, MANIFEST_FILE), 'utf8')) as RecordingManifest;
+
+  if (manifest.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${manifest.version} in ${dir}`);
+  }
+
+  return manifest;
+}
+
+async function readRecordedCalls(dir: string): Promise<RecordedCall[]> {
+  const files = (await readdir(dir)).filter(f => /^\d{4}-.*\.json$/.test(f)).sort();
+  const calls: RecordedCall[] = [];
+
+  for (const file of files) {
+    calls.push(JSON.parse(await readFile(join(dir, file), 'utf8')) as RecordedCall);
+  }
+
+  return calls;
+}
+
+export async function createReplayClient(dir: string): Promise<MeasurementClient> {
+  const calls = await readRecordedCalls(dir);
+  let index = 0;
+
+  const replay = (method: RecordedCall['method'], request: RecordedCall['request']) => {
+    const call = calls[index++];
+
+    if (!call) {
+      throw codedError('INVALID_INPUT', `Replay of ${dir} ran out of recorded calls at ${method}`);
+    }
+
+    if (call.method !== method || JSON.stringify(call.request) !== JSON.stringify(request)) {
+      throw codedError('INVALID_INPUT', `Replay of ${dir} diverged at call ${index}: expected ${call.method} ${JSON.stringify(call.request)}, got ${method} ${JSON.stringify(request)}`);
+    }
+
+    // A recorded network error is thrown as it was, so that it is retried like it was when recording.
+    if (call.error !== undefined) {
+      throw new Error(call.error);
+    }
+
+    return {
+      ok: call.ok,
+      data: call.data,
+      request: new Request(method === 'createMeasurement' ? API_URL : `${API_URL}/${request}`),
+      response: new Response(null, { status: call.status, headers: call.headers })
+    };
+  };
+
+  return {
+    createMeasurement: async (measurement) => replay('createMeasurement', measurement) as CreateResult,
+    getMeasurement: async (id) => replay('getMeasurement', id) as GetResult
+  };
+}
@@ -0,0 +1,56 @@
+import type { GeolocationRun, LatencyMethod } from './measure.js';
+import { median } from './quality.js';
+
+export interface MergedLocation {
+  country: string;
+  state: string | null;
+  city: string;
+  runs: number;
+  wins: number;
+  samples: number;
+  minRtt: number;
+  medianRtt: number;
+  method: LatencyMethod;
+}
+
+// Ranks the locations of several runs of one target. A location that wins more runs ranks first, and the
+// median of its best latency per run breaks ties, so a single lucky probe cannot carry it.
+export function mergeRuns(runs: GeolocationRun[]): MergedLocation[] {
+  const merged = new Map<string, MergedLocation & { rtts: number[] }>();
+
+  for (const run of runs) {
+    if (run.isAnycast) {
+      continue;
+    }
+
+    for (const [index, result] of run.results.entries()) {
+      const key = `${result.country}/${result.state ?? ''}/${result.city}`;
+      const location = merged.get(key) ?? {
+        country: result.country,
+        state: result.state ?? null,
+        city: result.city,
+        runs: 0,
+        wins: 0,
+        samples: 0,
+        minRtt: result.minRtt,
+        medianRtt: result.minRtt,
+        method: result.method,
+        rtts: []
+      };
+
+      location.runs++;
+      location.wins += index === 0 ? 1 : 0;
+      location.samples += result.samples;
+      location.rtts.push(result.minRtt);
+      if (result.minRtt <= location.minRtt) {
+        location.minRtt = result.minRtt;
+        location.method = result.method;
+      }
+      merged.set(key, location);
+    }
+  }
+
+  return [...merged.values()]
+    .map(({ rtts, ...location }) => ({ ...location, medianRtt: median(rtts) }))
+    .sort((a, b) => b.wins - a.wins || a.medianRtt - b.medianRtt);
+}
@@ -0,0 +1,255 @@
+import { CONTINENTS, getCountryName, getSubdivisionName } from './countries.js';
+import { describeAllocation } from './budget.js';
+import type { GeolocateEvent, GeolocateEventListener, PhaseEndEvent, ProbeResultEvent } from './events.js';
+import type { PhaseName } from './measure.js';
+import type { PipelineScope } from './pipeline.js';
+import { formatHistoryLocation } from './output.js';
+import { describeMismatch } from './resolve.js';
+
+export interface TextReporterOptions {
+  debug?: boolean;
+}
+
+const PHASE_LABELS: Record<PhaseName, string> = {
+  continent: 'continent',
+  country: 'country',
+  state: 'state or province',
+  city: 'city',
+  anycast: 'anycast sites',
+  verify: 'whether the claim holds',
+  reachability: 'whether the address responds'
+};
+
+function phaseLabel(phase: PhaseName, scope: PipelineScope): string {
+  if (phase !== 'state' || !scope.country) {
+    return PHASE_LABELS[phase];
+  }
+  return scope.country === 'US' ? 'US state' : `${PHASE_LABELS.state} of ${getCountryName(scope.country)}`;
+}
+
+function renderProgressBar(finished: number, total: number, bestName?: string, bestLatency?: number): void {
+  const percentage = (finished / total) * 100;
+  const barLength = 40;
+  const filledLength = Math.round((finished / total) * barLength);
+
+  const bar = '█'.repeat(filledLength) + '░'.repeat(barLength - filledLength);
+  const percent = percentage.toFixed(1).padStart(5);
+  const counts = `${finished}/${total}`.padStart(7);
+
+  let line = `  [${bar}] ${percent}% ${counts}`;
+
+  if (bestName && bestLatency !== undefined) {
+    line += ` - Best: ${bestName} (${bestLatency.toFixed(2)} ms)`;
+  }
+
+  process.stdout.write('\r' + line.padEnd(100));
+}
+
+function printProbeResult({ probe, result, analysis }: ProbeResultEvent): void {
+  if (analysis.latency === null) {
+    console.log(`  [REJECTED] ${probe.city}, ${probe.country} - ${analysis.reason}`);
+    return;
+  }
+
+  if (analysis.method !== 'traceroute') {
+    console.log(`  [ACCEPTED] ${probe.city}, ${probe.country} - ${analysis.method}: ${analysis.latency.toFixed(2)}ms`);
+    return;
+  }
+
+  console.log(`  [ACCEPTED] ${probe.city}, ${probe.country} - Hop ${analysis.lastHop! + 1}: ${analysis.latency.toFixed(2)}ms, ${analysis.timeoutsAfter} timeouts after`);
+
+  const hops = 'hops' in result ? result.hops : [];
+  for (let j = 0; j <= analysis.lastHop!; j++) {
+    const h = hops[j];
+    const hopRtts = (h.timings ?? []).map(t => t.rtt).filter(r => r > 0);
+    if (hopRtts.length > 0) {
+      const name = h.resolvedHostname && h.resolvedHostname !== h.resolvedAddress ? `${h.resolvedHostname} (${h.resolvedAddress})` : h.resolvedAddress;
+      console.log(`    Hop ${j + 1}: ${name ? `${name} ` : ''}${hopRtts.map(r => r.toFixed(2)).join(', ')} ms`);
+    } else {
+      console.log(`    Hop ${j + 1}: * *`);
+    }
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+function candidateName(phase: PhaseName, code: string, scope: PipelineScope): string {
+  switch (phase) {
+    case 'continent':
+      return CONTINENTS.find(info => info.code === code)?.name || code;
+    case 'country':
+    case 'anycast':
+      return getCountryName(code);
+    case 'state':
+      return getSubdivisionName(scope.country!, code);
+    default:
+      return code;
+  }
+}
+
+function printDropped({ summary }: PhaseEndEvent): void {
+  const filtered = summary.dropped.filter(d => d.reason === 'filter').length;
+
+  if (filtered > 0) {
+    console.log(`  Dropped ${plural(filtered, 'probe')} excluded by the probe filter`);
+  }
+  for (const d of summary.dropped.filter(d => d.reason !== 'filter')) {
+    console.log(`  Dropped ${d.city}, ${d.country} (AS${d.asn} ${d.network}) as ${d.reason === 'outlier' ? 'an outlier' : 'inconsistent'}: ${d.detail}`);
+  }
+}
+
+function printPhaseEnd({ phase, summary, anycast }: PhaseEndEvent): void {
+  if (phase === 'continent') {
+    for (const c of summary.candidates) {
+      const continentInfo = CONTINENTS.find(info => info.code === c.code);
+      console.log(`  ${continentInfo?.name || c.code}: ${c.avgRtt.toFixed(2)} ms`);
+    }
+
+    const best = summary.candidates[0];
+    if (best) {
+      const continentInfo = CONTINENTS.find(info => info.code === best.code);
+      console.log(`\nBest continent: ${continentInfo?.name} (${best.avgRtt.toFixed(2)} ms)\n`);
+    }
+    return;
+  }
+
+  if (phase !== 'country' && phase !== 'state') {
+    return;
+  }
+
+  const nameOf = (code: string) => candidateName(phase, code, summary.scope);
+  for (const c of summary.candidates.slice(0, 3)) {
+    console.log(`  ${nameOf(c.code)}: ${c.minRtt.toFixed(2)}ms`);
+  }
+
+  const best = summary.candidates[0];
+  if (best && !anycast) {
+    console.log(`\nBest ${phase}: ${nameOf(best.code)} (${best.minRtt.toFixed(2)}ms)\n`);
+  }
+}
+
+export function createTextReporter(options: TextReporterOptions = {}): GeolocateEventListener {
+  const debugLines: ProbeResultEvent[] = [];
+  let measured = false;
+
+  return (event: GeolocateEvent) => {
+    switch (event.type) {
+      case 'target-resolved':
+        console.log(`Resolved ${event.hostname} to ${event.addresses.map(a => a.address).join(', ')}\n`);
+        break;
+      case 'resolution-mismatch':
+        for (const m of event.mismatches) {
+          console.log(`Warning: ${describeMismatch(event.hostname, m)}.`);
+        }
+        console.log('Probes in those regions reach a different deployment than the addresses geolocated here.\n');
+        break;
+      case 'address-start':
+        console.log(`=== ${event.address} (IPv${event.family}, ${event.index} of ${event.total}) ===\n`);
+        break;
+      case 'geofeed-entry':
+        console.log(`=== ${event.prefix} (line ${event.line}, ${event.index} of ${event.total}) ===\n`);
+        break;
+      case 'prefix-host':
+        console.log(event.responsive
+          ? `--- ${event.address} (sample ${event.sample} of ${event.samples}) ---\n`
+          : `${event.address} does not respond, trying the next address\n`);
+        break;
+      case 'repeat-run':
+        console.log(`=== ${event.target} (run ${event.run} of ${event.runs}) ===\n`);
+        break;
+      case 'location-changed':
+        console.log(`Note: The ${event.level === 'anycast' ? 'anycast status' : event.level} changed since the run at ${event.from.measuredAt}, from ${formatHistoryLocation(event.from)} to ${formatHistoryLocation(event.to)}.\n`);
+        break;
+      case 'unreachable-target':
+        console.log(`Warning: ${event.message}. Measuring anyway.\n`);
+        break;
+      case 'budget':
+        console.log(`Budget: ${describeAllocation(event.allocation)}\n`);
+        break;
+      case 'resume':
+        console.log(`Resuming the run interrupted at ${event.updatedAt}: ${event.phases.length > 0 ? `${event.phases.join(', ')} done` : 'no phase done'}, ${plural(event.measurements, 'measurement')} in progress\n`);
+        break;
+      case 'retry':
+        if (measured) {
+          process.stdout.write('\n');
+        }
+        console.log(`  ${event.method} failed (${event.reason}), retrying in ${(event.delayMs / 1000).toFixed(1)} s (attempt ${event.attempt + 1} of ${event.maxAttempts})...`);
+        break;
+      case 'phase-start':
+        console.log(`Phase ${event.step}: Detecting ${phaseLabel(event.phase, event.scope)}...`);
+        break;
+      case 'phase-reused':
+        console.log(`Phase ${event.step}: Detecting ${phaseLabel(event.phase, event.summary.scope)}... ${event.summary.cachedAt ? `(cached at ${event.summary.cachedAt})` : '(resumed)'}`);
+        break;
+      case 'measurement-created':
+        measured = true;
+        console.log(event.resumed
+          ? `  Resuming measurement ${event.measurementId} from ${event.probesCount} probes using ${event.method}...\n`
+          : `  Measuring from ${event.probesCount} probes using ${event.method}...\n`);
+        break;
+      case 'early-stop':
+        process.stdout.write('\n\n');
+        measured = false;
+        console.log(`  ${candidateName(event.phase, event.leader, event.scope)} is clearly ahead after ${event.probesUsed} probes, ${event.spareProbes} saved for the next phase`);
+        break;
+      case 'follow-up':
+        process.stdout.write('\n\n');
+        console.log(event.candidates.length > 0
+          ? `  No clear leader yet, measuring ${event.probes} more probes in ${event.candidates.map(c => candidateName(event.phase, c, event.scope)).join(', ')}...`
+          : `  No clear leader yet, measuring ${event.probes} more probes...`);
+        break;
+      case 'method-fallback':
+        process.stdout.write('\n\n');
+        console.log(`  No ${event.from} replies, falling back to ${event.to} from the same probes...`);
+        break;
+      case 'progress':
+        renderProgressBar(event.finished, event.total, event.best?.code, event.best?.latency);
+        break;
+      case 'poll-timeout':
+        process.stdout.write('\n\n');
+        measured = false;
+        console.log(`  Stopped waiting for measurement ${event.measurementId}, using the ${event.finished} of ${event.total} probes that finished`);
+        break;
+      case 'probe-result':
+        if (options.debug && event.phase === 'country') {
+          debugLines.push(event);
+        }
+        break;
+      case 'phase-end':
+        process.stdout.write(measured ? '\n\n' : '\n');
+        measured = false;
+        if (options.debug && event.phase === 'country') {
+          console.log('\n=== DEBUG: Country Detection Results ===');
+          debugLines.forEach(printProbeResult);
+          console.log('=====================================\n');
+          debugLines.length = 0;
+        }
+        printDropped(event);
+        printPhaseEnd(event);
+        break;
+      case 'backtrack':
+        console.log(`${event.rtt === null ? 'No result' : `A best latency of ${event.rtt.toFixed(2)} ms`} under ${candidateName(event.phase, event.from, event.scope)} is implausible, measuring the runner-up ${candidateName(event.phase, event.to, event.scope)} as well...\n`);
+        break;
+      case 'backtrack-end': {
+        const { phase, scope, from, to, rtt, alternativeRtt, chosen, reason } = event.backtrack;
+        const nameOf = (code: string) => candidateName(phase, code, scope);
+        const latency = (value: number | null) => value === null ? 'no result' : `${value.toFixed(2)} ms`;
+        console.log(chosen === to && alternativeRtt === null
+          ? `Keeping ${nameOf(chosen)}: ${reason}\n`
+          : `Keeping ${nameOf(chosen)}: ${latency(alternativeRtt)} under ${nameOf(to)} against ${latency(rtt)} under ${nameOf(from)}\n`);
+        break;
+      }
+      case 'path-start':
+        console.log(`Tracing the path from ${plural(event.probesCount, 'probe')} with mtr...\n`);
+        break;
+      case 'anycast':
+        console.log('\nAnycast IP detected. This IP is most likely part of a regional or global anycast network.\n');
+        if (event.mapping) {
+          console.log('Mapping its sites with probes on every continent...\n');
+        }
+        break;
+    }
+  };
+}
@@ -0,0 +1,206 @@
+import { resolve4, resolve6 } from 'node:dns/promises';
+import type { TypedMeasurementResponse } from 'globalping';
+import { CONTINENTS } from './countries.js';
+import { isValidIp } from './ip.js';
+import { apiError, codedError } from './errors.js';
+import { readCreditHeaders } from './budget.js';
+import { DEFAULT_POLL_TIMEOUT_MS, MeasurementClient } from './measure.js';
+
+export type AddressFamily = 4 | 6;
+
+export interface ResolvedAddress {
+  address: string;
+  family: AddressFamily;
+}
+
+export interface ResolvedTarget {
+  target: string;
+  hostname: string | null;
+  addresses: ResolvedAddress[];
+}
+
+export interface RegionalAnswer {
+  continent: string;
+  country: string;
+  city: string;
+  family: AddressFamily;
+  addresses: string[];
+}
+
+export interface ResolutionCheck {
+  measurementIds: string[];
+  answers: RegionalAnswer[];
+  mismatches: RegionalAnswer[];
+  credits: number;
+}
+
+type DnsMeasurement = TypedMeasurementResponse<'dns'>;
+
+const HOSTNAME = /^(?=.{1,253}$)[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?(\.[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?)*$/i;
+
+export function addressFamily(ip: string): AddressFamily {
+  return ip.includes(':') ? 6 : 4;
+}
+
+export function parseTarget(target: string): string {
+  let host = target.trim();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(host)) {
+    try {
+      host = new URL(host).hostname;
+    } catch {
+      throw codedError('INVALID_INPUT', `Invalid URL: ${target}`);
+    }
+  }
+
+  // An IPv6 address has at least two colons, so a single one before digits can only be a port.
+  if (/^(\[[^\]]*\]|[^:]+):\d*$/.test(host)) {
+    throw codedError('INVALID_INPUT', `${target} includes a port, give the target without it and the port with --port`);
+  }
+
+  if (host.startsWith('[') && host.endsWith(']')) {
+    host = host.slice(1, -1);
+  }
+
+  host = host.replace(/\.$/, '').toLowerCase();
+
+  // A top-level label is never numeric, so anything like 999.1.1.1 is a malformed address, not a name.
+  if (/^[\d.]+$/.test(host) && !isValidIp(host)) {
+    throw codedError('INVALID_INPUT', `Invalid IP address: ${target}`);
+  }
+
+  // Hostnames never contain a colon, so this can only be a malformed IPv6 address.
+  if (host.includes(':') && !isValidIp(host)) {
+    throw codedError('INVALID_INPUT', `Invalid IPv6 address: ${target}`);
+  }
+
+  return host;
+}
+
+async function resolveFamily(hostname: string, family: AddressFamily): Promise<string[]> {
+  try {
+    return family === 4 ? await resolve4(hostname) : await resolve6(hostname);
+  } catch (error: any) {
+    if (error.code === 'ENODATA' || error.code === 'ENOTFOUND') {
+      return [];
+    }
+    throw codedError('INVALID_INPUT', `Unable to resolve ${hostname}: ${error.code ?? error.message}`);
+  }
+}
+
+export async function resolveTarget(target: string): Promise<ResolvedTarget> {
+  const host = parseTarget(target);
+
+  if (isValidIp(host)) {
+    return { target, hostname: null, addresses: [{ address: host, family: addressFamily(host) }] };
+  }
+
+  if (!HOSTNAME.test(host)) {
+    throw codedError('INVALID_INPUT', `Invalid IP address or hostname: ${target}`);
+  }
+
+  const [ipv4, ipv6] = await Promise.all([resolveFamily(host, 4), resolveFamily(host, 6)]);
+  const addresses: ResolvedAddress[] = [
+    ...[...new Set(ipv4)].map(address => ({ address, family: 4 as const })),
+    ...[...new Set(ipv6)].map(address => ({ address, family: 6 as const }))
+  ];
+
+  if (addresses.length === 0) {
+    throw codedError('NO_RESULTS', `${host} has no A or AAAA records`);
+  }
+
+  return { target, hostname: host, addresses };
+}
+
+export function describeMismatch(hostname: string, answer: RegionalAnswer): string {
+  return `${hostname} resolves to ${answer.addresses.join(', ')} from ${answer.city}, ${answer.country} (${answer.continent}), none of which were resolved locally`;
+}
+
+async function runDnsMeasurement(
+  client: MeasurementClient,
+  hostname: string,
+  family: AddressFamily,
+  pollInterval: number,
+  pollTimeout: number
+): Promise<{ measurement: DnsMeasurement; cost: number }> {
+  const createResult = await client.createMeasurement({
+    type: 'dns',
+    target: hostname,
+    locations: CONTINENTS.map(c => ({ magic: c.magic, limit: 1 })),
+    measurementOptions: { query: { type: family === 4 ? 'A' : 'AAAA' } }
+  });
+
+  if (!createResult.ok) {
+    throw apiError(`Failed to create DNS measurement: ${JSON.stringify(createResult.data)}`, createResult);
+  }
+
+  const cost = readCreditHeaders(createResult.response).cost ?? createResult.data.probesCount;
+  const deadline = Date.now() + pollTimeout;
+
+  while (true) {
+    const result = await client.getMeasurement(createResult.data.id);
+
+    if (!result.ok) {
+      throw apiError(`Failed to get DNS measurement: ${JSON.stringify(result.data)}`, result);
+    }
+
+    const measurement = result.data as DnsMeasurement;
+    if (measurement.status !== 'in-progress' || Date.now() + pollInterval > deadline) {
+      return { measurement, cost };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+  }
+}
+
+// The regional check uses one probe per continent and address family.
+export function regionalResolutionCost(resolved: ResolvedTarget): number {
+  return resolved.hostname ? new Set(resolved.addresses.map(a => a.family)).size * CONTINENTS.length : 0;
+}
+
+// Resolves the name from one probe per continent. A region whose answers share no address with the
+// local resolution is served by a different deployment than the one that gets geolocated.
+export async function checkRegionalResolution(
+  client: MeasurementClient,
+  resolved: ResolvedTarget,
+  pollInterval: number = 1000,
+  pollTimeout: number = DEFAULT_POLL_TIMEOUT_MS
+): Promise<ResolutionCheck> {
+  const check: ResolutionCheck = { measurementIds: [], answers: [], mismatches: [], credits: 0 };
+
+  if (!resolved.hostname) {
+    return check;
+  }
+
+  const families = [...new Set(resolved.addresses.map(a => a.family))];
+
+  for (const family of families) {
+    const local = new Set(resolved.addresses.filter(a => a.family === family).map(a => a.address));
+    const { measurement, cost } = await runDnsMeasurement(client, resolved.hostname, family, pollInterval, pollTimeout);
+    check.measurementIds.push(measurement.id);
+    check.credits += cost;
+
+    for (const { probe, result } of measurement.results) {
+      if (result.status !== 'finished' || !('answers' in result)) {
+        continue;
+      }
+
+      const addresses = result.answers
+        .filter(a => a.type === (family === 4 ? 'A' : 'AAAA'))
+        .map(a => a.value);
+
+      if (addresses.length === 0) {
+        continue;
+      }
+
+      const answer: RegionalAnswer = { continent: probe.continent, country: probe.country, city: probe.city, family, addresses };
+      check.answers.push(answer);
+
+      if (!addresses.some(a => local.has(a))) {
+        check.mismatches.push(answer);
+      }
+    }
+  }
+
+  return check;
+}
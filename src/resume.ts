@@ -0,0 +1,86 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { MeasurementLocations } from 'globalping';
+import { defaultCacheDir } from './cache.js';
+import type { LatencyMethod, PhaseName, PriorPhase } from './measure.js';
+
+export interface PendingMeasurement {
+  phase: PhaseName;
+  measurementId: string;
+  probesCount: number;
+  method: LatencyMethod;
+  locations: MeasurementLocations;
+}
+
+export interface RunState {
+  version: number;
+  target: string;
+  options: Record<string, unknown>;
+  phases: PriorPhase[];
+  measurements: PendingMeasurement[];
+  credits: number;
+  updatedAt: string;
+}
+
+export interface RunStateStore {
+  dir: string;
+  load(target: string): Promise<RunState | null>;
+  save(state: Omit<RunState, 'version' | 'updatedAt'>): Promise<void>;
+  remove(target: string): Promise<void>;
+}
+
+const RUN_STATE_VERSION = 4;
+
+function stateFile(dir: string, target: string): string {
+  return join(dir, `run-${target.replace(/[:/]/g, '_')}.json`);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => [k, sortKeys(v)]));
+  }
+  return value;
+}
+
+export function sameRunOptions(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+// Keeps the completed phases of the latest run for each target, and the measurements the unfinished
+// phase already paid for, until the run succeeds.
+export function createRunStateStore(dir: string = join(defaultCacheDir(), 'runs')): RunStateStore {
+  return {
+    dir,
+
+    async load(target) {
+      try {
+        const state = JSON.parse(await readFile(stateFile(dir, target), 'utf8')) as RunState;
+        return state.version === RUN_STATE_VERSION ? state : null;
+      } catch (error: any) {
+        if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async save(state) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(stateFile(dir, state.target), JSON.stringify({
+        version: RUN_STATE_VERSION,
+        ...state,
+        updatedAt: new Date().toISOString()
+      }));
+    },
+
+    async remove(target) {
+      await rm(stateFile(dir, target), { force: true });
+    }
+  };
+}
@@ -0,0 +1,118 @@
+import { errorCode } from './errors.js';
+import type { MeasurementClient } from './measure.js';
+import type { ProbeListClient } from './verify.js';
+
+export const DEFAULT_RETRIES = 4;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30 * 1000;
+// A longer Retry-After usually means the hourly limit is exhausted, which is only waited for on request.
+export const DEFAULT_MAX_RETRY_AFTER_MS = 60 * 1000;
+
+export interface RetryInfo {
+  method: 'createMeasurement' | 'getMeasurement' | 'listProbes';
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxRetryAfterMs?: number;
+  waitForReset?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+type ApiResult = { ok: boolean; response: Response };
+
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | null {
+  const retryAfter = headers.get('retry-after')?.trim();
+
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  // Globalping reports the seconds until the rate limit resets.
+  const reset = headers.get('x-ratelimit-reset')?.trim();
+  return reset && /^\d+$/.test(reset) ? Number(reset) * 1000 : null;
+}
+
+// Full jitter: a random delay below the exponential bound keeps clients that failed together apart.
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retries network errors and 5xx responses with exponential backoff, and 429 responses after their
+// Retry-After. Anything else, and the last failed attempt, is returned to the caller unchanged. Errors
+// with a code come from this tool, such as a replay that diverged, and are never transient.
+function createRetrier(options: RetryOptions) {
+  const maxAttempts = (options.retries ?? DEFAULT_RETRIES) + 1;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+  const wait = options.sleep ?? sleep;
+
+  return async <T extends ApiResult>(method: RetryInfo['method'], call: () => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      let reason: string;
+      let delayMs: number | null = null;
+
+      try {
+        const result = await call();
+        const status = result.response?.status ?? 0;
+
+        if (result.ok || attempt >= maxAttempts || (status < 500 && status !== 429)) {
+          return result;
+        }
+
+        if (status === 429) {
+          delayMs = parseRetryAfter(result.response.headers);
+          if (delayMs === null || (delayMs > maxRetryAfterMs && !options.waitForReset)) {
+            return result;
+          }
+        }
+
+        reason = `HTTP ${status}`;
+      } catch (error: any) {
+        if (attempt >= maxAttempts || errorCode(error) !== null) {
+          throw error;
+        }
+        reason = error.message;
+      }
+
+      delayMs ??= backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      options.onRetry?.({ method, attempt, maxAttempts, delayMs, reason });
+      await wait(delayMs);
+    }
+  };
+}
+
+export function createRetryingClient(client: MeasurementClient, options: RetryOptions = {}): MeasurementClient {
+  const withRetries = createRetrier(options);
+
+  return {
+    createMeasurement: (measurement) => withRetries('createMeasurement', () => client.createMeasurement(measurement)),
+    getMeasurement: (id) => withRetries('getMeasurement', () => client.getMeasurement(id))
+  };
+}
+
+export function createRetryingProbeList(client: ProbeListClient, options: RetryOptions = {}): ProbeListClient {
+  const withRetries = createRetrier(options);
+
+  return {
+    listProbes: () => withRetries('listProbes', () => client.listProbes())
+  };
+}
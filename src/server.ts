@@ -0,0 +1,128 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { JobEvent, JobQueue, JobRequestOptions, parseJobRequest } from './jobs.js';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_LIST_LIMIT = 50;
+
+function httpError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw httpError(413, `The request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw httpError(400, 'The request body is not valid JSON');
+  }
+}
+
+function writeEvent(res: ServerResponse, event: JobEvent): void {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Sends the events of a job as Server-Sent Events and closes the stream once the job has ended.
+function streamEvents(req: IncomingMessage, res: ServerResponse, queue: JobQueue, id: string): void {
+  res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+
+  const unsubscribe = queue.subscribe(id, (event) => {
+    writeEvent(res, event);
+    if (event.type === 'job-status' && event.job.finishedAt) {
+      res.end();
+    }
+  });
+
+  if (queue.get(id)?.finishedAt) {
+    res.end();
+  }
+
+  req.on('close', unsubscribe);
+}
+
+async function route(req: IncomingMessage, res: ServerResponse, queue: JobQueue, options: JobRequestOptions): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const [, collection, id, view, ...rest] = url.pathname.split('/');
+
+  if (collection !== 'jobs' || rest.length > 0) {
+    throw httpError(404, `No route for ${url.pathname}`);
+  }
+
+  if (!id) {
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      let request;
+      try {
+        request = parseJobRequest(body, options);
+      } catch (error: any) {
+        throw httpError(400, error.message);
+      }
+      let job;
+      try {
+        job = queue.submit(request);
+      } catch (error: any) {
+        throw httpError(503, error.message);
+      }
+      sendJson(res, 202, job, { location: `/jobs/${job.id}` });
+      return;
+    }
+    if (req.method === 'GET') {
+      const limit = Number(url.searchParams.get('limit') ?? DEFAULT_LIST_LIMIT);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw httpError(400, 'limit must be a positive integer');
+      }
+      sendJson(res, 200, { jobs: queue.list().slice(0, limit) });
+      return;
+    }
+    throw httpError(405, `${req.method} is not supported on /jobs`);
+  }
+
+  if (req.method !== 'GET') {
+    throw httpError(405, `${req.method} is not supported on ${url.pathname}`);
+  }
+
+  const job = queue.get(id);
+  if (!job) {
+    throw httpError(404, `No job ${id}`);
+  }
+
+  if (!view) {
+    sendJson(res, 200, job);
+  } else if (view === 'result') {
+    const result = queue.result(id);
+    if (!result) {
+      throw httpError(409, `Job ${id} is ${job.status}, the result is not available yet`);
+    }
+    sendJson(res, 200, result);
+  } else if (view === 'events') {
+    streamEvents(req, res, queue, id);
+  } else {
+    throw httpError(404, `No route for ${url.pathname}`);
+  }
+}
+
+export function createGeolocationServer(queue: JobQueue, options: JobRequestOptions = {}): Server {
+  return createServer((req, res) => {
+    route(req, res, queue, options).catch((error: any) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, error.status ?? 500, { error: error.message });
+    });
+  });
+}
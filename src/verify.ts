@@ -0,0 +1,206 @@
+import type { Globalping, MeasurementLocationOption, Probe } from 'globalping';
+import { CONTINENTS, getCountryContinent } from './countries.js';
+import { distanceKm, GeoPoint, maxDistanceKm } from './geo.js';
+import { codedError } from './errors.js';
+import type { ProbeSample } from './measure.js';
+import type { PhaseDefinition } from './pipeline.js';
+
+export type ProbeListClient = Pick<Globalping<false>, 'listProbes'>;
+
+export type ClaimVerdict = 'consistent' | 'impossible' | 'inconclusive';
+
+export interface LocationClaim {
+  text: string;
+  city: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface ClaimedArea {
+  points: GeoPoint[];
+  radiusKm: number;
+}
+
+export interface VerifiedProbe {
+  city: string;
+  country: string;
+  asn: number;
+  network: string;
+  rtt: number;
+  distanceKm: number;
+  maxDistanceKm: number;
+  violates: boolean;
+}
+
+export interface ClaimVerification {
+  verdict: ClaimVerdict;
+  reason: string;
+  probes: VerifiedProbe[];
+  probesChecked: number;
+}
+
+// A city claim covers the metro area around its probes, a country claim anything near one of its probes.
+export const CITY_RADIUS_KM = 50;
+export const COUNTRY_RADIUS_KM = 300;
+// Probes this close to the claimed area count as near it.
+export const NEAR_CLAIM_KM = 500;
+
+const SUPPORTING_PROBES = 5;
+
+function sameName(a: string, b: string): boolean {
+  return a.localeCompare(b, 'en', { sensitivity: 'base' }) === 0;
+}
+
+// Accepts "lat,lon", "City, CC", "City" or a two-letter country code.
+export function parseClaim(text: string): LocationClaim {
+  const claim: LocationClaim = { text: text.trim(), city: null, country: null, latitude: null, longitude: null };
+  const coordinates = /^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/.exec(claim.text);
+
+  if (coordinates) {
+    const latitude = Number(coordinates[1]);
+    const longitude = Number(coordinates[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw codedError('INVALID_INPUT', `Invalid coordinates: ${text}`);
+    }
+    return { ...claim, latitude, longitude };
+  }
+
+  const parts = claim.text.split(',').map(p => p.trim()).filter(Boolean);
+  const last = parts[parts.length - 1]?.toUpperCase() ?? '';
+
+  if (parts.length === 0) {
+    throw codedError('INVALID_INPUT', 'The claim must be a city, a country code or latitude,longitude');
+  }
+
+  if (getCountryContinent(last)) {
+    return { ...claim, country: last, city: parts.length > 1 ? parts[0] : null };
+  }
+
+  if (parts.length > 1) {
+    throw codedError('INVALID_INPUT', `Unknown country code ${parts[parts.length - 1]}, use an ISO 3166-1 alpha-2 code such as DE`);
+  }
+
+  return { ...claim, city: parts[0] };
+}
+
+// Coordinates are taken as they are. For a city or a country the positions of the probes located
+// there stand in for its area, since Globalping knows nothing else about places.
+export function claimedArea(claim: LocationClaim, probes: Probe[]): ClaimedArea {
+  if (claim.latitude !== null && claim.longitude !== null) {
+    return { points: [{ latitude: claim.latitude, longitude: claim.longitude }], radiusKm: 0 };
+  }
+
+  const matching = probes.filter(({ location }) =>
+    (!claim.country || location.country === claim.country) && (!claim.city || sameName(location.city, claim.city))
+  );
+
+  if (matching.length === 0) {
+    throw codedError('NO_RESULTS', `No probe is located in ${claim.text}, give the claimed location as latitude,longitude instead`);
+  }
+
+  return {
+    points: matching.map(({ location }) => ({ latitude: location.latitude, longitude: location.longitude })),
+    radiusKm: claim.city ? CITY_RADIUS_KM : COUNTRY_RADIUS_KM
+  };
+}
+
+export function distanceToArea(point: GeoPoint, area: ClaimedArea): number {
+  return Math.min(...area.points.map(p => distanceKm(point, p)));
+}
+
+// The probes closest to the claim show whether the target is there, a few on every continent whether
+// it is closer to somewhere else.
+export function selectClaimProbes(area: ClaimedArea, probes: Probe[], near: number, far: number): MeasurementLocationOption[] {
+  const nearest = probes
+    .map(probe => ({ probe, distance: distanceToArea(probe.location, area) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, near);
+  const cities = new Map<string, MeasurementLocationOption>();
+
+  for (const { probe: { location } } of nearest) {
+    const key = `${location.country}/${location.city}`;
+    const city = cities.get(key) ?? { country: location.country, city: location.city, limit: 0 };
+    city.limit = (city.limit ?? 0) + 1;
+    cities.set(key, city);
+  }
+
+  return [...cities.values(), ...(far > 0 ? CONTINENTS.map(c => ({ magic: c.magic, limit: far })) : [])];
+}
+
+export function createVerifyPhase(locations: MeasurementLocationOption[]): PhaseDefinition {
+  const probes = locations.reduce((sum, l) => sum + (l.limit ?? 1), 0);
+
+  return {
+    phase: 'verify',
+    applies: () => true,
+    probes: () => probes,
+    maxProbes: () => probes,
+    locations: () => locations,
+    groupBy: (item) => item.probe.country,
+    rankBy: 'min',
+    stopOnAnycast: false,
+    narrow: (scope) => scope,
+    emptyError: 'No probe could measure the target'
+  };
+}
+
+// A probe whose round trip is too short to reach anywhere in the claimed area disproves it. Without such
+// a probe the claim is only consistent when the fastest probes are also the ones near it.
+export function evaluateClaim(area: ClaimedArea, samples: ProbeSample[]): ClaimVerification {
+  const checked: VerifiedProbe[] = samples.map(sample => {
+    const distance = distanceToArea(sample, area);
+    const bound = maxDistanceKm(sample.rtt);
+    return {
+      city: sample.city,
+      country: sample.country,
+      asn: sample.asn,
+      network: sample.network,
+      rtt: sample.rtt,
+      distanceKm: distance,
+      maxDistanceKm: bound,
+      violates: distance - area.radiusKm > bound
+    };
+  }).sort((a, b) => a.rtt - b.rtt);
+
+  const violations = checked
+    .filter(p => p.violates)
+    .sort((a, b) => (b.distanceKm - b.maxDistanceKm) - (a.distanceKm - a.maxDistanceKm));
+
+  if (violations.length > 0) {
+    const [worst] = violations;
+    return {
+      verdict: 'impossible',
+      reason: `${worst.city}, ${worst.country} measured ${worst.rtt.toFixed(2)} ms, so the target is at most ${Math.round(worst.maxDistanceKm)} km away from it, but the claimed location is ${Math.round(worst.distanceKm)} km away`,
+      probes: violations.slice(0, SUPPORTING_PROBES),
+      probesChecked: checked.length
+    };
+  }
+
+  const near = checked.filter(p => p.distanceKm - area.radiusKm <= NEAR_CLAIM_KM);
+
+  if (near.length === 0) {
+    return {
+      verdict: 'inconclusive',
+      reason: 'No probe near the claimed location got a reply',
+      probes: checked.slice(0, SUPPORTING_PROBES),
+      probesChecked: checked.length
+    };
+  }
+
+  if (checked[0] !== near[0]) {
+    return {
+      verdict: 'inconclusive',
+      reason: `${checked[0].city}, ${checked[0].country} is ${Math.round(checked[0].distanceKm)} km from the claimed location and faster than every probe near it, but not fast enough to rule it out`,
+      probes: checked.slice(0, SUPPORTING_PROBES),
+      probesChecked: checked.length
+    };
+  }
+
+  return {
+    verdict: 'consistent',
+    reason: `The fastest probes are near the claimed location and none of the ${checked.length} rules it out`,
+    probes: near.slice(0, SUPPORTING_PROBES),
+    probesChecked: checked.length
+  };
+}
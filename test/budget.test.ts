@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { errorCode } from '../src/errors.js';
+import { allocateBudget, describeAllocation, MAX_PROBES_PER_MEASUREMENT, planRun, readCreditHeaders } from '../src/budget.js';
+import { runMeasurements } from '../src/measure.js';
+import { createFakeClient } from './fake-client.js';
+
+test('plans every phase that might run with its worst-case cost', () => {
+  const plan = planRun();
+
+  assert.deepEqual(plan.phases.map(p => [p.phase, p.probes, p.maxCredits]), [
+    ['continent', 5, 30],
+    ['country', 50, 50],
+    ['state', 50, 50],
+    ['city', 50, 50]
+  ]);
+  assert.equal(plan.maxCredits, 180);
+});
+
+test('doubles the cost in auto mode and honours phase limits', () => {
+  assert.equal(planRun({ method: 'auto' }).maxCredits, 360);
+  assert.equal(planRun({ limit: 10, phaseLimits: { city: 100, continent: 2 } }).maxCredits, 12 + 10 + 10 + 100);
+});
+
+test('plans only the phases below the start', () => {
+  assert.deepEqual(planRun({ start: { continent: 'NA', country: 'US' } }).phases.map(p => p.phase), ['state', 'city']);
+  assert.deepEqual(planRun({ start: { continent: 'EU', country: 'DE' } }).phases.map(p => p.phase), ['city']);
+});
+
+test('counts the anycast mapping after the latest phase that can detect anycast', () => {
+  const plan = planRun({ mapAnycast: true });
+  const anycast = plan.phases[plan.phases.length - 1];
+
+  assert.equal(anycast.phase, 'anycast');
+  assert.equal(anycast.ifAnycast, true);
+  assert.equal(plan.maxCredits, 30 + 50 + 50 + anycast.maxCredits);
+});
+
+test('uses the largest limit whose worst case fits into the budget', () => {
+  const allocation = allocateBudget(100);
+
+  assert.equal(allocation.limit, 23);
+  assert.deepEqual(allocation.phaseLimits, {});
+  assert.equal(allocation.maxCredits, 99);
+  assert.equal(describeAllocation(allocation), '23 probes per phase, using at most 99 of 100 credits');
+});
+
+test('never exceeds the probes of a single measurement', () => {
+  assert.equal(allocateBudget(1_000_000).limit, MAX_PROBES_PER_MEASUREMENT);
+});
+
+test('lowers the continent phase when not even one probe per phase fits', () => {
+  const allocation = allocateBudget(10);
+
+  assert.equal(allocation.limit, 1);
+  assert.deepEqual(allocation.phaseLimits, { continent: 1 });
+  assert.equal(allocation.maxCredits, 9);
+});
+
+test('keeps phase limits given explicitly', () => {
+  const allocation = allocateBudget(100, { phaseLimits: { city: 40 } });
+
+  assert.deepEqual(allocation.phaseLimits, { city: 40 });
+  assert.ok(allocation.maxCredits <= 100);
+  assert.equal(allocation.limit, 15);
+});
+
+test('rejects a budget too small for any run', () => {
+  assert.throws(() => allocateBudget(5), (error: unknown) =>
+    errorCode(error) === 'INVALID_INPUT' && (error as Error).message === 'A budget of 5 credits is too small, this run needs at least 9'
+  );
+});
+
+test('reads the cost and the remaining credits from the response headers', () => {
+  const response = new Response(null, { headers: { 'x-request-cost': '12', 'x-credits-remaining': '488', 'x-ratelimit-remaining': '' } });
+
+  assert.deepEqual(readCreditHeaders(response), { cost: 12, remaining: 488, rateLimitRemaining: null });
+  assert.deepEqual(readCreditHeaders(), { cost: null, remaining: null, rateLimitRemaining: null });
+});
+
+test('refuses a phase that could use more credits than the budget leaves', async () => {
+  const client = createFakeClient();
+
+  await assert.rejects(
+    runMeasurements(client, '192.0.2.1', { method: 'ping', limit: 10, pollInterval: 0, budget: 20 }),
+    (error: unknown) => errorCode(error) === 'BUDGET_EXCEEDED'
+  );
+  assert.ok(client.requests.reduce((sum, r) => sum + r.probes, 0) <= 20);
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { errorCode } from '../src/errors.js';
+import { exitCodeOf, EXIT_CODES, parseCommandLine, parseDuration, suggest } from '../src/cli.js';
+import { CACHE_COMMAND, LOCATE_COMMAND, SERVE_COMMAND, VERIFY_COMMAND } from '../src/commands.js';
+
+function parseError(run: () => unknown): string {
+  try {
+    run();
+  } catch (error: any) {
+    assert.equal(errorCode(error), 'INVALID_INPUT');
+    return error.message;
+  }
+  assert.fail('expected a usage error');
+}
+
+test('takes options before, after and between positionals, with values after a space or "="', () => {
+  const parsed = parseCommandLine(LOCATE_COMMAND, ['-L', '100', '8.8.8.8', '--method=ping', '--no-cache', '-o', 'json']);
+
+  assert.deepEqual(parsed.positionals, ['8.8.8.8']);
+  assert.deepEqual(parsed.options, { limit: 100, method: 'ping', noCache: true, output: 'json' });
+  assert.equal(parsed.help, false);
+});
+
+test('converts durations, repeated options and custom values', () => {
+  const parsed = parseCommandLine(LOCATE_COMMAND, [
+    '8.8.8.8', '--poll-timeout', '90s', '--phase-limit', 'city=100', '--phase-limit', 'continent=3', '--exclude-asn', 'AS16509', '--country', 'de'
+  ]);
+
+  assert.equal(parsed.options.pollTimeout, 90 * 1000);
+  assert.deepEqual(parsed.options.phaseLimit, [['city', 100], ['continent', 3]]);
+  assert.deepEqual(parsed.options.excludeAsn, [16509]);
+  assert.equal(parsed.options.country, 'DE');
+  assert.deepEqual(parseCommandLine(SERVE_COMMAND, ['--listen', '9000']).options.listen, { host: '127.0.0.1', port: 9000 });
+});
+
+test('treats everything after "--" as positional', () => {
+  assert.deepEqual(parseCommandLine(LOCATE_COMMAND, ['--', '-weird']).positionals, ['-weird']);
+});
+
+test('suggests the closest option or choice', () => {
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '--limt', '5'])), 'Unknown option --limt for geolocate locate, did you mean --limit?');
+  assert.equal(
+    parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '-m', 'trace'])),
+    '-m must be one of ping, tcp-ping, traceroute, auto, did you mean traceroute?'
+  );
+  assert.equal(parseError(() => parseCommandLine(CACHE_COMMAND, ['lst'])), 'Unknown command lst for geolocate cache, use one of list, clear, did you mean list?');
+  assert.equal(suggest('verfiy', ['locate', 'verify', 'serve']), 'verify');
+  assert.equal(suggest('xyz', ['locate', 'verify', 'serve']), null);
+});
+
+test('rejects values out of range, missing values and unexpected arguments', () => {
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '-L', '0'])), '-L requires an integer between 1 and 500, got 0');
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '-p', '70000'])), '-p requires an integer between 1 and 65535, got 70000');
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '-L'])), '-L requires a <number>');
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '-L', '--debug'])), '-L requires a <number>');
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '--debug=yes'])), '--debug does not take a value');
+  assert.equal(parseError(() => parseCommandLine(LOCATE_COMMAND, ['8.8.8.8', '--country', 'XX'])), '--country requires an ISO 3166-1 alpha-2 country code, e.g. DE');
+  assert.equal(
+    parseError(() => parseCommandLine(VERIFY_COMMAND, ['1.1.1.1', '2.2.2.2'])),
+    'Unexpected argument 2.2.2.2, geolocate verify takes <ip>'
+  );
+});
+
+test('skips the positional checks when help is asked for', () => {
+  const parsed = parseCommandLine(CACHE_COMMAND, ['nonsense', 'more', 'args', '-h']);
+
+  assert.equal(parsed.help, true);
+});
+
+test('parses durations with an hour as the default unit', () => {
+  assert.equal(parseDuration('12'), 12 * 60 * 60 * 1000);
+  assert.equal(parseDuration('30m'), 30 * 60 * 1000);
+  assert.equal(parseDuration('1.5d'), 36 * 60 * 60 * 1000);
+  assert.equal(parseDuration('soon'), null);
+});
+
+test('maps error codes to exit codes', () => {
+  assert.equal(exitCodeOf(Object.assign(new Error('x'), { code: 'RATE_LIMITED' })), EXIT_CODES.rateLimited);
+  assert.equal(exitCodeOf(Object.assign(new Error('x'), { code: 'NO_RESULTS' })), EXIT_CODES.noResults);
+  assert.equal(exitCodeOf(new Error('x')), EXIT_CODES.failure);
+});
@@ -0,0 +1,99 @@
+import type { MeasurementLocationOption } from 'globalping';
+import { CONTINENTS } from '../src/countries.js';
+import { distanceKm } from '../src/geo.js';
+import type { MeasurementClient } from '../src/measure.js';
+
+export interface FakeProbe {
+  continent: string;
+  country: string;
+  state: string | null;
+  city: string;
+  latitude: number;
+  longitude: number;
+  asn: number;
+  network: string;
+  // Overrides the round trip derived from the distance to the target.
+  rtt?: number;
+}
+
+export const TARGET = { latitude: 50.11, longitude: 8.68 };
+
+export const PROBES: FakeProbe[] = [
+  { continent: 'EU', country: 'DE', state: null, city: 'Frankfurt', latitude: 50.11, longitude: 8.68, asn: 3320, network: 'DT' },
+  { continent: 'EU', country: 'DE', state: null, city: 'Berlin', latitude: 52.52, longitude: 13.4, asn: 3320, network: 'DT' },
+  { continent: 'EU', country: 'NL', state: null, city: 'Amsterdam', latitude: 52.37, longitude: 4.9, asn: 1136, network: 'KPN' },
+  { continent: 'EU', country: 'FR', state: null, city: 'Paris', latitude: 48.85, longitude: 2.35, asn: 3215, network: 'Orange' },
+  { continent: 'NA', country: 'US', state: 'FL', city: 'Miami', latitude: 25.76, longitude: -80.19, asn: 7922, network: 'Comcast' },
+  { continent: 'NA', country: 'US', state: 'TX', city: 'Dallas', latitude: 32.78, longitude: -96.8, asn: 7922, network: 'Comcast' },
+  { continent: 'AS', country: 'JP', state: null, city: 'Tokyo', latitude: 35.68, longitude: 139.69, asn: 2516, network: 'KDDI' },
+  { continent: 'SA', country: 'BR', state: null, city: 'Sao Paulo', latitude: -23.55, longitude: -46.63, asn: 28573, network: 'Claro' },
+  { continent: 'OC', country: 'AU', state: null, city: 'Sydney', latitude: -33.87, longitude: 151.2, asn: 1221, network: 'Telstra' },
+  { continent: 'AF', country: 'ZA', state: null, city: 'Johannesburg', latitude: -26.2, longitude: 28.05, asn: 37457, network: 'Telkom' }
+];
+
+export interface FakeClient extends MeasurementClient {
+  requests: { method: string; locations: MeasurementLocationOption[]; probes: number }[];
+}
+
+// Light in fiber covers about 100 km per millisecond, there and back.
+function roundTrip(probe: FakeProbe): number {
+  return probe.rtt ?? Math.max(0.3, distanceKm(probe, TARGET) / 100 * 1.5) + 0.2;
+}
+
+function matches(probe: FakeProbe, location: MeasurementLocationOption): boolean {
+  if (location.magic !== undefined) {
+    return location.magic === 'world'
+      || CONTINENTS.find(c => c.magic === location.magic)?.code === probe.continent
+      || (location.magic === 'united states' && probe.country === 'US');
+  }
+  return (!location.continent || probe.continent === location.continent)
+    && (!location.country || probe.country === location.country)
+    && (!location.state || probe.state === location.state)
+    && (!location.city || probe.city === location.city);
+}
+
+// Answers ping measurements from a fixed set of probes, each of which costs a credit.
+export function createFakeClient(probes: FakeProbe[] = PROBES): FakeClient {
+  const measurements = new Map<string, { type: string; target: string; probes: FakeProbe[] }>();
+  const requests: FakeClient['requests'] = [];
+
+  const client = {
+    requests,
+    async createMeasurement(request: { type: string; target: string; limit?: number; locations?: unknown; measurementOptions?: { protocol?: string } }) {
+      const locations = request.locations as MeasurementLocationOption[];
+      const chosen = locations.flatMap(location =>
+        probes.filter(p => matches(p, location)).slice(0, location.limit ?? request.limit ?? 1)
+      );
+      const id = `m${measurements.size + 1}`;
+      measurements.set(id, { type: request.type, target: request.target, probes: chosen });
+      const method = request.measurementOptions?.protocol === 'TCP' ? 'tcp-ping' : request.type;
+      requests.push({ method, locations, probes: chosen.length });
+      const headers = new Headers({ 'x-request-cost': String(chosen.length) });
+      return { ok: true, data: { id, probesCount: chosen.length }, response: new Response(null, { status: 202, headers }) };
+    },
+    async getMeasurement(id: string) {
+      const measurement = measurements.get(id)!;
+      const results = measurement.probes.map(p => {
+        const rtt = roundTrip(p);
+        return {
+          probe: {
+            continent: p.continent, region: '', country: p.country, state: p.state, city: p.city, asn: p.asn, network: p.network,
+            latitude: p.latitude, longitude: p.longitude, tags: [], resolvers: []
+          },
+          result: {
+            status: 'finished', rawOutput: '', resolvedAddress: measurement.target, resolvedHostname: null,
+            stats: { min: rtt, avg: rtt + 0.1, max: rtt + 0.2, total: 3, rcv: 3, drop: 0, loss: 0 },
+            timings: [{ rtt }]
+          }
+        };
+      });
+      return {
+        ok: true,
+        data: { id, type: measurement.type, target: measurement.target, status: 'finished', probesCount: results.length, results },
+        response: new Response(null, { status: 200 })
+      };
+    }
+  };
+
+  return client as unknown as FakeClient;
+}
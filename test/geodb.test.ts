@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openMmdb } from '../src/geodb.js';
+
+type MmdbValue = string | number | MmdbValue[] | { [key: string]: MmdbValue };
+
+// Sizes below 285 are all these tests need.
+function control(type: number, size: number): number[] {
+  const [first, ...rest] = size < 29 ? [size] : [29, size - 29];
+  return type <= 7 ? [(type << 5) | first, ...rest] : [first, type - 7, ...rest];
+}
+
+function encode(value: MmdbValue): number[] {
+  if (typeof value === 'string') {
+    const bytes = [...Buffer.from(value)];
+    return [...control(2, bytes.length), ...bytes];
+  }
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    const bytes = Buffer.alloc(8);
+    bytes.writeDoubleBE(value);
+    return [...control(3, 8), ...bytes];
+  }
+  if (typeof value === 'number') {
+    const bytes: number[] = [];
+    for (let n = value; n > 0; n = Math.floor(n / 256)) {
+      bytes.unshift(n & 0xff);
+    }
+    return [...control(value > 0xffff ? 6 : 5, bytes.length), ...bytes];
+  }
+  if (Array.isArray(value)) {
+    return [...control(11, value.length), ...value.flatMap(encode)];
+  }
+  const entries = Object.entries(value);
+  return [...control(7, entries.length), ...entries.flatMap(([key, field]) => [...encode(key), ...encode(field)])];
+}
+
+// An IPv6 tree with 24-bit records, IPv4 networks under ::/96.
+function buildMmdb(networks: [prefix: bigint, length: number, record: MmdbValue][]): Buffer {
+  const nodes: (number | { data: number } | null)[][] = [[null, null]];
+  const data: number[] = [];
+  const offsets: number[] = [];
+
+  for (const [prefix, length, record] of networks) {
+    offsets.push(data.length);
+    data.push(...encode(record));
+
+    let node = 0;
+    for (let i = 0; i < length; i++) {
+      const bit = Number((prefix >> BigInt(127 - i)) & 1n);
+      if (i === length - 1) {
+        nodes[node][bit] = { data: offsets.length - 1 };
+      } else {
+        if (typeof nodes[node][bit] !== 'number') {
+          nodes.push([null, null]);
+          nodes[node][bit] = nodes.length - 1;
+        }
+        node = nodes[node][bit] as number;
+      }
+    }
+  }
+
+  const count = nodes.length;
+  const pointer = (record: number | { data: number } | null) =>
+    record === null ? count : typeof record === 'number' ? record : count + 16 + offsets[record.data];
+  const tree = Buffer.alloc(count * 6);
+  nodes.forEach(([left, right], i) => {
+    tree.writeUIntBE(pointer(left), i * 6, 3);
+    tree.writeUIntBE(pointer(right), i * 6 + 3, 3);
+  });
+
+  const metadata = encode({ node_count: count, record_size: 24, ip_version: 6, database_type: 'Test-City', languages: ['en'] });
+  return Buffer.concat([tree, Buffer.alloc(16), Buffer.from(data), Buffer.from('abcdef4d61784d696e642e636f6d', 'hex'), Buffer.from(metadata)]);
+}
+
+const ipv4 = (a: number, b: number, c: number, d: number) => BigInt(((a << 24) >>> 0) + (b << 16) + (c << 8) + d);
+
+const DATABASE = buildMmdb([
+  [ipv4(1, 2, 3, 0), 120, {
+    city: { names: { en: 'Frankfurt am Main' } },
+    country: { iso_code: 'DE' },
+    subdivisions: [{ iso_code: 'HE' }],
+    location: { latitude: 50.1155, longitude: 8.6842, accuracy_radius: 20 }
+  }],
+  [ipv4(5, 6, 0, 0), 112, { country_code: 'nl', region_code: 'NH', city: 'Amsterdam', latitude: '52.37', longitude: '4.89' }],
+  [0x2001_0db8n << 96n, 32, { country: 'JP', city: 'Tokyo', lat: 35.68, lng: 139.69 }],
+  [ipv4(9, 9, 9, 0), 120, { autonomous_system_number: 19281, autonomous_system_organization: 'Quad9' }]
+]);
+
+test('decodes the nested records of MaxMind and DB-IP', () => {
+  assert.deepEqual(openMmdb('test.mmdb', DATABASE).lookup('1.2.3.4'), {
+    network: '1.2.3.0/24',
+    country: 'DE',
+    state: 'HE',
+    city: 'Frankfurt am Main',
+    latitude: 50.1155,
+    longitude: 8.6842,
+    accuracyRadiusKm: 20
+  });
+});
+
+test('decodes flat records with coordinates as strings', () => {
+  assert.deepEqual(openMmdb('test.mmdb', DATABASE).lookup('5.6.7.8'), {
+    network: '5.6.0.0/16',
+    country: 'NL',
+    state: 'NH',
+    city: 'Amsterdam',
+    latitude: 52.37,
+    longitude: 4.89,
+    accuracyRadiusKm: null
+  });
+});
+
+test('looks up IPv6 addresses from the root of the tree', () => {
+  const record = openMmdb('test.mmdb', DATABASE).lookup('2001:db8::1');
+
+  assert.equal(record?.network, '2001:db8::/32');
+  assert.deepEqual([record?.country, record?.city, record?.latitude, record?.longitude], ['JP', 'Tokyo', 35.68, 139.69]);
+});
+
+test('finds nothing for addresses outside every network', () => {
+  const database = openMmdb('test.mmdb', DATABASE);
+
+  assert.equal(database.lookup('1.2.4.1'), null);
+  assert.equal(database.lookup('2001:db9::1'), null);
+  assert.equal(database.lookup('not an address'), null);
+});
+
+test('rejects records without location fields', () => {
+  assert.throws(() => openMmdb('asn.mmdb', DATABASE).lookup('9.9.9.9'), /The record of 9\.9\.9\.0\/24 in asn\.mmdb has no location fields/);
+});
+
+test('rejects files without MaxMind DB metadata', () => {
+  assert.throws(() => openMmdb('plain.txt', Buffer.from('1.2.3.0/24,DE')), /plain\.txt is not a MaxMind DB file/);
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyIp, formatIp, parseCidr, parseIp, sampleAddresses } from '../src/ip.js';
+import { parseTarget } from '../src/resolve.js';
+
+function roundTrip(ip: string): string | null {
+  const parsed = parseIp(ip);
+  return parsed && formatIp(parsed);
+}
+
+test('parses and formats IPv4 and compressed IPv6 addresses', () => {
+  assert.equal(roundTrip('192.0.2.1'), '192.0.2.1');
+  assert.equal(roundTrip('2001:DB8:0:0:0:0:0:1'), '2001:db8::1');
+  assert.equal(roundTrip('::'), '::');
+  assert.equal(roundTrip('1::'), '1::');
+  // The longest run of zeros is compressed, the first one on a tie, and never a single group.
+  assert.equal(roundTrip('2001:0:0:1:0:0:0:1'), '2001:0:0:1::1');
+  assert.equal(roundTrip('2001:db8:0:1:0:0:1:1'), '2001:db8:0:1::1:1');
+  assert.equal(roundTrip('2001:db8:1:1:1:1:0:1'), '2001:db8:1:1:1:1:0:1');
+  assert.equal(roundTrip('::ffff:192.0.2.1'), '::ffff:c000:201');
+  assert.equal(roundTrip('::ffff:0:1.2.3.4'), '::ffff:0:102:304');
+});
+
+test('rejects malformed addresses', () => {
+  for (const ip of ['1.2.3', '1.2.3.4.5', '256.1.1.1', '01.2.3.4', '1::2::3', '1:2:3:4:5:6:7:8:9', '1:2:3:4:5:6:7::8', '12345::', '::1.2.3', '1.2.3.4::', 'g::1']) {
+    assert.equal(parseIp(ip), null, ip);
+  }
+});
+
+test('classifies addresses by the most specific special-purpose range', () => {
+  const range = (ip: string) => classifyIp(ip).range?.name ?? null;
+
+  assert.equal(range('8.8.8.8'), null);
+  assert.equal(range('10.1.2.3'), 'Private-Use');
+  assert.equal(range('100.127.255.255'), 'Shared Address Space (CGNAT)');
+  assert.equal(range('100.128.0.0'), null);
+  assert.equal(range('192.0.0.8'), 'IETF Protocol Assignments');
+  assert.equal(range('192.0.0.9'), 'Port Control Protocol Anycast');
+  assert.equal(range('2001:db8::1'), 'Documentation');
+  assert.equal(range('2001:1::1'), 'Port Control Protocol Anycast');
+  assert.equal(range('2001:2::1'), 'IETF Protocol Assignments');
+  assert.equal(range('fe80::1'), 'Link-Local Unicast');
+  assert.equal(range('2a00:1450::1'), null);
+  assert.equal(range('4000::1'), 'Reserved by IETF (outside 2000::/3)');
+
+  assert.equal(classifyIp('192.0.0.9').reachable, true);
+  assert.equal(classifyIp('192.0.0.8').reachable, false);
+  assert.equal(classifyIp('2001:4860::8888').reachable, true);
+  assert.throws(() => classifyIp('1.2.3'), /Invalid IP address: 1.2.3/);
+});
+
+test('classifies an IPv4-mapped address as the IPv4 address it contains', () => {
+  assert.deepEqual(classifyIp('::ffff:10.0.0.1'), {
+    address: '10.0.0.1',
+    family: 4,
+    range: { prefix: '10.0.0.0/8', name: 'Private-Use', reference: 'RFC 1918', reachable: false },
+    reachable: false
+  });
+  assert.equal(classifyIp('::ffff:808:808').address, '8.8.8.8');
+  // Only ::ffff:0:0/96 is mapped, ::ffff:0:0:0/96 is the IPv4-translated range of RFC 2765.
+  assert.equal(classifyIp('::ffff:0:1.2.3.4').family, 6);
+});
+
+test('parses prefixes and spreads samples over them', () => {
+  assert.deepEqual(parseCidr('192.0.2.77/24'), { network: parseIp('192.0.2.0'), length: 24, hostBits: true });
+  assert.equal(parseCidr('192.0.2.0/33'), null);
+  assert.equal(parseCidr('192.0.2.0'), null);
+  assert.equal(parseCidr('2001:db8::/32')?.hostBits, false);
+
+  assert.deepEqual(sampleAddresses(parseCidr('192.0.2.0/24')!, 4), ['192.0.2.1', '192.0.2.64', '192.0.2.128', '192.0.2.191']);
+  assert.deepEqual(sampleAddresses(parseCidr('192.0.2.0/31')!, 4), ['192.0.2.0', '192.0.2.1']);
+  assert.deepEqual(sampleAddresses(parseCidr('2001:db8::/126')!, 2), ['2001:db8::1', '2001:db8::2']);
+});
+
+test('takes the host out of URLs and brackets', () => {
+  assert.equal(parseTarget(' https://WWW.Example.com./index.html '), 'www.example.com');
+  assert.equal(parseTarget('http://[2001:db8::1]:8080/'), '2001:db8::1');
+  assert.equal(parseTarget('[2001:DB8::1]'), '2001:db8::1');
+  assert.equal(parseTarget('::ffff:1.2.3.4'), '::ffff:1.2.3.4');
+});
+
+test('refuses targets with a port or a malformed address', () => {
+  assert.throws(() => parseTarget('1.2.3.4:80'), /1\.2\.3\.4:80 includes a port/);
+  assert.throws(() => parseTarget('example.com:443'), /includes a port/);
+  assert.throws(() => parseTarget('[2001:db8::1]:443'), /includes a port/);
+  assert.throws(() => parseTarget('999.1.1.1'), /Invalid IP address: 999\.1\.1\.1/);
+  assert.throws(() => parseTarget('2001:db8::g'), /Invalid IPv6 address/);
+  assert.throws(() => parseTarget('http://exa mple.com'), /Invalid URL/);
+});
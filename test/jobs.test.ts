@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { createJobQueue, Job, JobQueue, parseJobRequest } from '../src/jobs.js';
+import type { ResultDocument } from '../src/output.js';
+import { createGeolocationServer } from '../src/server.js';
+import { createFakeClient } from './fake-client.js';
+
+function createQueue(concurrency?: number): JobQueue {
+  return createJobQueue({ client: createFakeClient(), method: 'ping', limit: 10, retry: false, pollInterval: 0, concurrency });
+}
+
+function finished(queue: JobQueue, id: string): Promise<Job> {
+  return new Promise(resolve => queue.subscribe(id, event => {
+    if (event.type === 'job-status' && event.job.finishedAt) {
+      resolve(event.job);
+    }
+  }));
+}
+
+test('validates job requests and refuses force unless allowed', () => {
+  assert.deepEqual(parseJobRequest({ target: ' 45.95.160.1 ', limit: 500, method: 'tcp-ping', port: 443 }), {
+    target: '45.95.160.1', limit: 500, method: 'tcp-ping', port: 443, budget: undefined, adaptive: undefined, beamWidth: undefined, force: undefined
+  });
+
+  assert.throws(() => parseJobRequest([]), /must be a JSON object/);
+  assert.throws(() => parseJobRequest({ target: '' }), /target must be/);
+  assert.throws(() => parseJobRequest({ target: 'x', method: 'mtr' }), /method must be one of/);
+  assert.throws(() => parseJobRequest({ target: 'x', limit: 501 }), /limit must be a positive integer up to 500/);
+  assert.throws(() => parseJobRequest({ target: 'x', budget: 1.5 }), /budget must be a positive integer$/);
+  assert.throws(() => parseJobRequest({ target: 'x', adaptive: 'yes' }), /adaptive must be true or false/);
+
+  assert.throws(() => parseJobRequest({ target: '10.0.0.1', force: true }), /force is not allowed by this server/);
+  assert.equal(parseJobRequest({ target: '10.0.0.1', force: false }).force, false);
+  assert.equal(parseJobRequest({ target: '10.0.0.1', force: true }, { allowForce: true }).force, true);
+});
+
+test('runs at most `concurrency` jobs at a time', async () => {
+  const queue = createQueue(2);
+  const jobs = ['45.95.160.1', '45.95.160.2', '45.95.160.3'].map(target => queue.submit({ target }));
+
+  assert.deepEqual(jobs.map(j => j.status), ['running', 'running', 'queued']);
+
+  // Taken at every start, the replayed starts of the first two jobs included.
+  let mostRunning = 0;
+  for (const job of jobs) {
+    queue.subscribe(job.id, event => {
+      if (event.type === 'job-status' && event.job.status === 'running') {
+        mostRunning = Math.max(mostRunning, queue.list().filter(j => j.status === 'running').length);
+      }
+    });
+  }
+
+  const done = await Promise.all(jobs.map(j => finished(queue, j.id)));
+
+  assert.equal(mostRunning, 2);
+  assert.deepEqual(done.map(j => j.status), ['done', 'done', 'done']);
+  assert.equal((queue.result(jobs[0].id) as ResultDocument).results[0].city, 'Frankfurt');
+  assert.ok(done.every(j => j.credits > 0 && j.phases.length > 0));
+});
+
+test('records why a job failed', async () => {
+  const queue = createQueue();
+  const job = queue.submit({ target: '10.0.0.1' });
+
+  assert.equal((await finished(queue, job.id)).status, 'failed');
+  assert.match(job.error!, /10\.0\.0\.1 is in 10\.0\.0\.0\/8/);
+});
+
+test('answers a forced job with 400 unless the server allows it', async t => {
+  const queue = createQueue();
+  const server = createGeolocationServer(queue);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/jobs`;
+  const post = (body: unknown) => fetch(url, { method: 'POST', body: JSON.stringify(body) });
+
+  const forced = await post({ target: '10.0.0.1', force: true });
+  assert.equal(forced.status, 400);
+  assert.deepEqual(await forced.json(), { error: 'force is not allowed by this server' });
+  assert.deepEqual(queue.list(), []);
+
+  const accepted = await post({ target: '45.95.160.1' });
+  const job = await accepted.json() as Job;
+  assert.equal(accepted.status, 202);
+  assert.equal(accepted.headers.get('location'), `/jobs/${job.id}`);
+
+  await finished(queue, job.id);
+  const result = await fetch(`${url}/${job.id}/result`);
+  assert.equal(result.status, 200);
+  assert.equal((await result.json()).target, '45.95.160.1');
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { errorCode } from '../src/errors.js';
+import type { MeasurementClient, ProbeResult } from '../src/measure.js';
+import { analyzePaths, parseLocationHints } from '../src/path.js';
+
+const TARGET = '45.95.160.1';
+
+const BEST: ProbeResult[] = [
+  { country: 'DE', city: 'Frankfurt', minRtt: 0.5, avgRtt: 0.6, samples: 1, method: 'ping', probeAsn: 3320, probeNetwork: 'DT' },
+  { country: 'DE', city: 'Berlin', minRtt: 6.5, avgRtt: 6.6, samples: 1, method: 'ping', probeAsn: 3320, probeNetwork: 'DT' },
+  { country: 'NL', city: 'Amsterdam', minRtt: 5.2, avgRtt: 5.3, samples: 1, method: 'ping', probeAsn: 1136, probeNetwork: 'KPN' }
+];
+
+function hop(address: string, hostname: string | null, asn: number, rtt: number | null) {
+  return {
+    resolvedAddress: address, resolvedHostname: hostname, asn: [asn],
+    stats: { min: rtt ?? 0, rcv: rtt === null ? 0 : 3, loss: rtt === null ? 100 : 0 }
+  };
+}
+
+// Traces from Frankfurt to a target that does not answer, behind a router of another network.
+function mtrClient({ status = 'finished', createStatus = 202 } = {}) {
+  const requests: unknown[] = [];
+  const client = {
+    requests,
+    async createMeasurement(request: unknown) {
+      requests.push(request);
+      const headers: Record<string, string> = createStatus === 429 ? { 'retry-after': '3600' } : {};
+      return { ok: createStatus < 400, data: { id: 'p1', probesCount: 1 }, response: new Response(null, { status: createStatus, headers }) };
+    },
+    async getMeasurement(id: string) {
+      const result = status === 'finished'
+        ? { status, hops: [hop('80.156.1.1', 'ae1.fra01.dtag.de', 3320, 0.4), hop('80.156.1.2', 'ae2.fra02.dtag.de', 3320, 0.5), hop(TARGET, null, 0, null)] }
+        : { status, hops: [] };
+      return {
+        ok: true,
+        data: { id, type: 'mtr', status, results: [{ probe: { country: 'DE', state: null, city: 'Frankfurt', asn: 3320, network: 'DT' }, result }] },
+        response: new Response(null, { status: 200 })
+      };
+    }
+  };
+  return client as unknown as MeasurementClient & { requests: unknown[] };
+}
+
+test('finds site codes and city names in router names', () => {
+  assert.deepEqual(parseLocationHints('ae1.fra01.example.net'), [{ token: 'fra', city: 'Frankfurt', country: 'DE' }]);
+  assert.deepEqual(parseLocationHints('be2.amsterdam.fra.example.net.').map(h => h.city), ['Amsterdam', 'Frankfurt']);
+  // The domain itself says nothing about the site.
+  assert.deepEqual(parseLocationHints('core1.fra.net'), []);
+});
+
+test('flags an upstream router with the origin ASN of the target', async () => {
+  const path = await analyzePaths(mtrClient(), TARGET, BEST, 0, { pollInterval: 0, lookupAsn: async () => 64500 });
+
+  assert.equal(path!.targetAsn, 64500);
+  assert.equal(path!.targetAsnSource, 'whois');
+  assert.equal(path!.complete, true);
+  assert.deepEqual(path!.paths.map(p => [p.lastHop, p.reachedTarget, p.upstream]), [[1, false, true]]);
+  assert.deepEqual(path!.evidence.map(e => [e.city, e.paths, e.agrees]), [['Frankfurt', 1, 'city']]);
+});
+
+test('says when the ASN lookup was left out', async () => {
+  const path = await analyzePaths(mtrClient(), TARGET, BEST, 0, { pollInterval: 0, lookupAsn: false });
+
+  assert.equal(path!.targetAsn, null);
+  assert.equal(path!.targetAsnSource, 'skipped');
+  assert.equal(path!.paths[0].upstream, null);
+});
+
+test('flags a measurement that did not finish in time', async () => {
+  const path = await analyzePaths(mtrClient({ status: 'in-progress' }), TARGET, BEST, 0, { pollInterval: 0, pollTimeout: 0, lookupAsn: false });
+
+  assert.equal(path!.complete, false);
+  assert.equal(path!.paths[0].lastHop, null);
+});
+
+test('traces no more probes than the budget has credits left', async () => {
+  const client = mtrClient();
+
+  // A run that went over the budget leaves less than nothing, which must not count from the end.
+  assert.equal(await analyzePaths(client, TARGET, BEST, 11, { budget: 10 }), null);
+  assert.equal(await analyzePaths(client, TARGET, BEST, 10, { budget: 10 }), null);
+  assert.deepEqual(client.requests, []);
+
+  await analyzePaths(client, TARGET, BEST, 9, { budget: 10, pollInterval: 0, lookupAsn: false });
+  assert.equal((client.requests[0] as { locations: unknown[] }).locations.length, 1);
+});
+
+test('reports an exhausted rate limit like the other measurements', async () => {
+  await assert.rejects(analyzePaths(mtrClient({ createStatus: 429 }), TARGET, BEST, 0), (error: Error) => {
+    assert.equal(errorCode(error), 'RATE_LIMITED');
+    assert.match(error.message, /run out of credits.*reset in 60 min/);
+    return true;
+  });
+});
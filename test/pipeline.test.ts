@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runMeasurements } from '../src/measure.js';
+import { createFakeClient, PROBES } from './fake-client.js';
+
+const OPTIONS = { method: 'ping', limit: 10, pollInterval: 0 } as const;
+
+test('narrows from the continent down to the city of the fastest probes', async () => {
+  const run = await runMeasurements(createFakeClient(), '192.0.2.1', OPTIONS);
+
+  assert.deepEqual(run.phases.map(p => p.phase), ['continent', 'country', 'city']);
+  assert.equal(run.phases[0].candidates[0].code, 'EU');
+  assert.equal(run.phases[1].candidates[0].code, 'DE');
+  assert.deepEqual(run.results.map(r => r.city), ['Frankfurt', 'Berlin']);
+  assert.ok(run.results[0].minRtt < run.results[1].minRtt);
+  assert.equal(run.isAnycast, false);
+});
+
+test('ranks the continent phase by the average and the others by the fastest probe', async () => {
+  // One Asian probe beats every European one, the others in Asia are far slower.
+  const probes = [
+    ...PROBES,
+    { continent: 'AS', country: 'JP', state: null, city: 'Osaka', latitude: 34.69, longitude: 135.5, asn: 2516, network: 'KDDI', rtt: 0.3 },
+    { continent: 'AS', country: 'JP', state: null, city: 'Sapporo', latitude: 43.06, longitude: 141.35, asn: 2516, network: 'KDDI', rtt: 400 }
+  ];
+  const run = await runMeasurements(createFakeClient(probes), '192.0.2.1', { ...OPTIONS, beamWidth: 1 });
+  const [continent] = run.phases;
+
+  assert.equal(continent.candidates[0].code, 'EU');
+  assert.equal(continent.candidates.find(c => c.code === 'AS')!.minRtt, 0.3);
+});
+
+test('keeps the network of each candidate\'s own fastest probe on a tie', async () => {
+  // Offenbach answers as fast as Frankfurt through another network.
+  const probes = [
+    ...PROBES,
+    { continent: 'EU', country: 'DE', state: null, city: 'Offenbach', latitude: 50.1, longitude: 8.76, asn: 8881, network: 'Versatel', rtt: 0.5 }
+  ];
+  const run = await runMeasurements(createFakeClient(probes), '192.0.2.1', OPTIONS);
+  const byCity = new Map(run.results.map(r => [r.city, r]));
+
+  assert.equal(byCity.get('Frankfurt')!.minRtt, byCity.get('Offenbach')!.minRtt);
+  assert.deepEqual([byCity.get('Frankfurt')!.probeAsn, byCity.get('Frankfurt')!.probeNetwork], [3320, 'DT']);
+  assert.deepEqual([byCity.get('Offenbach')!.probeAsn, byCity.get('Offenbach')!.probeNetwork], [8881, 'Versatel']);
+});
+
+test('starts in the given scope without measuring the phases above it', async () => {
+  const client = createFakeClient();
+  const run = await runMeasurements(client, '192.0.2.1', { ...OPTIONS, start: { continent: 'EU', country: 'DE' } });
+
+  assert.deepEqual(run.phases.map(p => p.phase), ['city']);
+  assert.equal(run.results[0].city, 'Frankfurt');
+  assert.equal(run.credits.consumed, client.requests.reduce((sum, r) => sum + r.probes, 0));
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { geolocatePrefix, PrefixOptions } from '../src/lib.js';
+import { createFakeClient } from './fake-client.js';
+
+const PREFIX = '45.95.160.0/24';
+
+function run(options: PrefixOptions = {}) {
+  const client = createFakeClient();
+  return { client, result: geolocatePrefix(PREFIX, { method: 'ping', limit: 10, retry: false, pollInterval: 0, ...options, client }) };
+}
+
+test('geolocates responsive addresses and lets them vote on the entry', async () => {
+  const { client, result } = run();
+  const prefix = await result;
+
+  assert.deepEqual(prefix.hosts.map(h => h.address), ['45.95.160.1', '45.95.160.22', '45.95.160.43']);
+  assert.deepEqual(prefix.entry, { prefix: PREFIX, country: 'DE', region: null, city: 'Frankfurt' });
+  assert.equal(prefix.credits, client.requests.reduce((sum, r) => sum + r.probes, 0));
+});
+
+test('checks whether an address responds with ping, whatever the method', async () => {
+  const { client, result } = run({ method: 'traceroute', samples: 1 });
+  // The fake client answers no traceroute, only the requests matter here.
+  await result.catch(() => {});
+
+  assert.deepEqual(client.requests.map(r => r.method), ['ping', 'traceroute']);
+
+  const tcp = run({ port: 443, samples: 1 });
+  await tcp.result;
+  assert.equal(tcp.client.requests[0].method, 'tcp-ping');
+});
+
+test('spends one budget on every check and address of the prefix', async () => {
+  const { client, result } = run({ budget: 40 });
+  const prefix = await result;
+  const spent = client.requests.reduce((sum, r) => sum + r.probes, 0);
+
+  assert.equal(prefix.credits, spent);
+  assert.ok(spent <= 40, `spent ${spent} credits`);
+  assert.match(prefix.hosts[2].error!, /budget of \d+ credits is too small/);
+
+  await assert.rejects(run({ budget: 2 }).result, /The 2 credit budget ran out before an address in 45\.95\.160\.0\/24 responded/);
+});
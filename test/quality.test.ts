@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProbeSample } from '../src/measure.js';
+import { MeasuredProbe, median, screenProbes } from '../src/quality.js';
+
+const FRANKFURT = { latitude: 50.11, longitude: 8.68, country: 'DE', city: 'Frankfurt' };
+const TOKYO = { latitude: 35.68, longitude: 139.69, country: 'JP', city: 'Tokyo' };
+
+function sample(rtt: number, location = FRANKFURT, asn = 3320): ProbeSample {
+  return { phase: 'city', method: 'ping', rtt, ...location, asn, network: `AS${asn}` };
+}
+
+function probe(rtt: number, { location = FRANKFURT, asn = 3320, tags = [] as string[] } = {}): MeasuredProbe {
+  return { code: location.city, tags, sample: sample(rtt, location, asn) };
+}
+
+const rtts = (probes: MeasuredProbe[]) => probes.map(p => p.sample.rtt);
+
+test('takes the median of odd and even counts', () => {
+  assert.equal(median([3, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+});
+
+test('rejects latencies far from the median of their city', () => {
+  const { kept, dropped } = screenProbes([probe(2), probe(3), probe(2.5), probe(4), probe(90)], []);
+
+  assert.deepEqual(rtts(kept), [2, 3, 2.5, 4]);
+  assert.deepEqual(dropped.map(d => [d.rtt, d.reason]), [[90, 'outlier']]);
+  assert.match(dropped[0].detail, /90\.00 ms while 4 other probes in Frankfurt have a median of 3\.00 ms/);
+});
+
+test('leaves differences below the floor and small cities alone', () => {
+  // The median absolute deviation is zero, but 25 ms is still within what access networks differ by.
+  assert.equal(screenProbes([probe(1), probe(1), probe(1), probe(26)], []).dropped.length, 0);
+  // Two probes cannot tell which of them is off.
+  assert.equal(screenProbes([probe(1), probe(200)], []).dropped.length, 0);
+  assert.equal(screenProbes([probe(1), probe(1), probe(200)], [], { rejectOutliers: false }).dropped.length, 0);
+});
+
+test('drops probes by ASN and tag before looking for outliers', () => {
+  const probes = [
+    probe(1, { asn: 64500 }),
+    probe(2, { tags: ['datacenter-network'] }),
+    probe(3, { tags: ['eyeball-network'] }),
+    probe(4)
+  ];
+  const { kept, dropped } = screenProbes(probes, [], { excludeAsns: [64500], excludeTags: ['datacenter-network'], requireTags: ['eyeball-network'] });
+
+  assert.deepEqual(rtts(kept), [3]);
+  assert.deepEqual(dropped.map(d => [d.rtt, d.reason, d.detail]), [
+    [1, 'filter', 'AS64500 is excluded'],
+    [2, 'filter', 'tagged datacenter-network'],
+    [4, 'filter', 'not tagged eyeball-network']
+  ]);
+});
+
+test('drops probes that several trusted probes of earlier phases contradict', () => {
+  const earlier = [sample(1), sample(1.5), sample(2)];
+  // A Tokyo probe cannot answer in 3 ms when Frankfurt probes do in 1 ms.
+  const { kept, dropped } = screenProbes([probe(3, { location: TOKYO }), probe(1.2)], earlier);
+
+  assert.deepEqual(rtts(kept), [1.2]);
+  assert.equal(dropped[0].reason, 'inconsistent');
+  assert.match(dropped[0].detail, /cannot be reconciled with 3 probes of earlier phases, e\.g\. Frankfurt, DE at 1\.00 ms/);
+});
+
+test('does not trust earlier probes that contradict each other', () => {
+  // An anycast target: both sites answer quickly, so no earlier probe rules anything out.
+  const earlier = [sample(1), sample(1.5), sample(1, TOKYO), sample(1.5, TOKYO)];
+
+  assert.equal(screenProbes([probe(3, { location: TOKYO })], earlier).dropped.length, 0);
+});
@@ -0,0 +1,68 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { geolocate, GeolocateOptions } from '../src/lib.js';
+import { createRecordingClient, createReplayClient, readRecordingManifest } from '../src/recording.js';
+import { createFakeClient } from './fake-client.js';
+
+// Recorded from the fake client with the options in its manifest.
+const FIXTURE = new URL('./fixtures/frankfurt', import.meta.url).pathname;
+
+const scratch = await mkdtemp(join(tmpdir(), 'geolocate-replay-'));
+after(() => rm(scratch, { recursive: true, force: true }));
+
+async function replay(dir: string, options: GeolocateOptions = {}) {
+  const manifest = await readRecordingManifest(dir);
+  return geolocate(manifest.target, {
+    ...manifest.options,
+    retry: false,
+    ...options,
+    client: await createReplayClient(dir),
+    pollInterval: 0
+  });
+}
+
+test('replays the recorded fixture without a client of its own', async () => {
+  const result = await replay(FIXTURE);
+
+  assert.deepEqual(result.phases.map(p => [p.phase, p.measurementId]), [['continent', 'm1'], ['country', 'm2'], ['city', 'm3']]);
+  assert.deepEqual(result.results.map(r => [r.city, r.minRtt, r.probeNetwork]), [['Frankfurt', 0.5, 'DT'], ['Berlin', 6.551567261216605, 'DT']]);
+  assert.equal(result.credits.consumed, 16);
+  assert.deepEqual(await replay(FIXTURE), result);
+});
+
+test('replays a recorded run with the same result', async () => {
+  const dir = join(scratch, 'roundtrip');
+  const options = { limit: 20, method: 'ping', beamWidth: 1 } as const;
+  const client = await createRecordingClient(createFakeClient(), dir, { target: '1.2.3.4', options });
+  const recorded = await geolocate('1.2.3.4', { ...options, client, retry: false, pollInterval: 0 });
+
+  assert.deepEqual(await replay(dir), recorded);
+});
+
+test('refuses to record into a directory that is not empty', async () => {
+  await assert.rejects(createRecordingClient(createFakeClient(), FIXTURE, { target: '1.2.3.4', options: {} }), /is not empty/);
+});
+
+test('fails at the first request that differs from the recording', async () => {
+  // The continent phase does not depend on the limit, the country phase does.
+  await assert.rejects(replay(FIXTURE, { limit: 20 }), /Replay of .* diverged at call 3: expected createMeasurement/);
+  await assert.rejects(replay(FIXTURE, { method: 'traceroute' }), /diverged at call 1/);
+});
+
+test('does not retry a request that differs from the recording', async () => {
+  const retries: string[] = [];
+  const retry = { sleep: () => Promise.resolve(), onRetry: ({ reason }: { reason: string }) => retries.push(reason) };
+
+  await assert.rejects(replay(FIXTURE, { limit: 20, retry }), /diverged at call 3/);
+  assert.deepEqual(retries, []);
+});
+
+test('fails when the run needs more requests than were recorded', async () => {
+  const client = await createReplayClient(FIXTURE);
+  await geolocate('1.2.3.4', { limit: 10, method: 'ping', client, retry: false, pollInterval: 0 });
+
+  await assert.rejects(client.getMeasurement('m4'), /ran out of recorded calls at getMeasurement/);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { codedError } from '../src/errors.js';
+import type { MeasurementClient } from '../src/measure.js';
+import { createRetryingClient, createRetryingProbeList, parseRetryAfter, RetryInfo, RetryOptions } from '../src/retry.js';
+
+type Reply = number | Error | { status: number; headers: Record<string, string> };
+
+// Answers getMeasurement with the given statuses or errors in turn, and counts the calls.
+function scriptedClient(replies: Reply[]) {
+  let calls = 0;
+  const client = {
+    get calls() {
+      return calls;
+    },
+    async getMeasurement(id: string) {
+      const reply = replies[calls++];
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      const { status, headers = {} } = typeof reply === 'number' ? { status: reply } : reply;
+      return { ok: status < 400, data: { id }, response: new Response(null, { status, headers }) };
+    }
+  };
+  return client as unknown as MeasurementClient & { calls: number };
+}
+
+function retrying(client: MeasurementClient, options: RetryOptions = {}) {
+  const retries: RetryInfo[] = [];
+  const slept: number[] = [];
+  const retryingClient = createRetryingClient(client, {
+    sleep: async ms => { slept.push(ms); },
+    onRetry: info => retries.push(info),
+    ...options
+  });
+  return { client: retryingClient, retries, slept };
+}
+
+test('reads Retry-After as seconds or a date, and falls back to the rate limit reset', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  assert.equal(parseRetryAfter(new Headers({ 'retry-after': '120' }), now), 120_000);
+  assert.equal(parseRetryAfter(new Headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' }), now), 30_000);
+  assert.equal(parseRetryAfter(new Headers({ 'retry-after': 'Wed, 31 Dec 2025 23:59:00 GMT' }), now), 0);
+  assert.equal(parseRetryAfter(new Headers({ 'retry-after': 'soon', 'x-ratelimit-reset': '45' }), now), 45_000);
+  assert.equal(parseRetryAfter(new Headers({ 'x-ratelimit-reset': '1.5' }), now), null);
+  assert.equal(parseRetryAfter(new Headers(), now), null);
+});
+
+test('retries 5xx responses and network errors with an exponential backoff', async t => {
+  t.mock.method(Math, 'random', () => 1);
+  const api = scriptedClient([503, new Error('socket hang up'), 500, 500, 200]);
+  const { client, retries, slept } = retrying(api, { baseDelayMs: 100, maxDelayMs: 500 });
+
+  const result = await client.getMeasurement('m1');
+
+  assert.equal(result.ok, true);
+  assert.equal(api.calls, 5);
+  assert.deepEqual(slept, [100, 200, 400, 500]);
+  assert.deepEqual(retries.map(r => [r.method, r.attempt, r.maxAttempts, r.reason]), [
+    ['getMeasurement', 1, 5, 'HTTP 503'],
+    ['getMeasurement', 2, 5, 'socket hang up'],
+    ['getMeasurement', 3, 5, 'HTTP 500'],
+    ['getMeasurement', 4, 5, 'HTTP 500']
+  ]);
+});
+
+test('returns the last failure once the retries are used up', async () => {
+  const api = scriptedClient([502, 502, 502]);
+  const { client, retries } = retrying(api, { retries: 2 });
+
+  const result = await client.getMeasurement('m1');
+
+  assert.equal(result.response.status, 502);
+  assert.equal(api.calls, 3);
+  assert.equal(retries.length, 2);
+
+  const failing = scriptedClient([new Error('ECONNRESET'), new Error('ECONNREFUSED')]);
+  await assert.rejects(retrying(failing, { retries: 1 }).client.getMeasurement('m1'), /ECONNREFUSED/);
+});
+
+test('does not retry other client errors or errors of the tool itself', async () => {
+  const api = scriptedClient([404]);
+  assert.equal((await retrying(api).client.getMeasurement('m1')).response.status, 404);
+  assert.equal(api.calls, 1);
+
+  const coded = scriptedClient([codedError('INVALID_INPUT', 'Replay diverged')]);
+  const { client, retries } = retrying(coded);
+  await assert.rejects(client.getMeasurement('m1'), /Replay diverged/);
+  assert.equal(retries.length, 0);
+});
+
+test('waits for the Retry-After of a 429 unless it is too long', async () => {
+  const tooSoon = { status: 429, headers: { 'retry-after': '2' } };
+  const { client, slept } = retrying(scriptedClient([tooSoon, 200]));
+  assert.equal((await client.getMeasurement('m1')).ok, true);
+  assert.deepEqual(slept, [2000]);
+
+  const hourly = { status: 429, headers: { 'retry-after': '1800' } };
+  const limited = retrying(scriptedClient([hourly, 200]));
+  assert.equal((await limited.client.getMeasurement('m1')).response.status, 429);
+  assert.deepEqual(limited.slept, []);
+
+  const waiting = retrying(scriptedClient([hourly, 200]), { waitForReset: true });
+  assert.equal((await waiting.client.getMeasurement('m1')).ok, true);
+  assert.deepEqual(waiting.slept, [1_800_000]);
+
+  // Without a hint when the limit resets there is nothing to wait for.
+  const unknown = retrying(scriptedClient([429, 200]), { waitForReset: true });
+  assert.equal((await unknown.client.getMeasurement('m1')).response.status, 429);
+});
+
+test('retries the probe list like the measurements', async () => {
+  const api = scriptedClient([503, 200]);
+  const retries: RetryInfo[] = [];
+  const probes = createRetryingProbeList({ listProbes: () => api.getMeasurement('probes') } as any, {
+    sleep: async () => {},
+    onRetry: info => retries.push(info)
+  });
+
+  assert.equal((await probes.listProbes()).ok, true);
+  assert.deepEqual(retries.map(r => [r.method, r.reason]), [['listProbes', 'HTTP 503']]);
+});